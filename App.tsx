@@ -1,23 +1,36 @@
 
 import React, { useState, useEffect } from 'react';
-import { GradeLevel, Subject } from './types';
+import { GradeLevel, Subject, Track } from './types';
 import { SubjectGrid } from './components/SubjectGrid';
+import { TrackSelector } from './components/TrackSelector';
+import { ProfileOnboarding } from './components/ProfileOnboarding';
 import { ChatInterface } from './components/ChatInterface';
 import { SubscriptionModal } from './components/SubscriptionModal';
 import { AdminGenerator } from './components/AdminGenerator';
-import { GraduationCap, School, Printer, LockKeyhole, Clock } from 'lucide-react';
+import { AdminGate } from './components/AdminGate';
+import { RENEWAL_WARNING_DAYS } from './services/subscription';
+import { StudentProfile, loadProfile, saveProfile, getSavedTrack, isProfileComplete } from './services/profile';
+import { TRACKS_BY_GRADE } from './curriculum';
+import { useEntitlement } from './hooks/useEntitlement';
+import { GraduationCap, School, LockKeyhole, Clock, AlertTriangle, UserRound } from 'lucide-react';
 
 const App: React.FC = () => {
   // State
-  const [grade, setGrade] = useState<GradeLevel | null>(null);
+  // A returning student starts on the subjects of the grade saved in their profile
+  const [profile, setProfile] = useState<StudentProfile>(loadProfile);
+  const [isEditingProfile, setIsEditingProfile] = useState(false);
+  const [grade, setGrade] = useState<GradeLevel | null>(() => isProfileComplete(profile) ? profile.grade : null);
   const [subject, setSubject] = useState<Subject | null>(null);
+  const [startLessonId, setStartLessonId] = useState<string | undefined>();
+  const [track, setTrack] = useState<Track | null>(() => (profile.grade && getSavedTrack(profile.grade)) || null);
+  const [isChoosingTrack, setIsChoosingTrack] = useState(() => Boolean(grade && TRACKS_BY_GRADE[grade].length > 0 && !track));
   const [isAdmin, setIsAdmin] = useState(false);
   
-  // Trial State
-  const [trialDaysLeft, setTrialDaysLeft] = useState<number | null>(null);
-  const [isActivated, setIsActivated] = useState(false);
+  // Trial / Subscription State
+  const { entitlement } = useEntitlement();
+  const [isRenewalOpen, setIsRenewalOpen] = useState(false);
 
-  // Check for Admin Route on Mount & Trial Calculation
+  // Check for Admin Route on Mount
   useEffect(() => {
     // 1. Check Admin Hash
     if (window.location.hash === '#admin') {
@@ -27,33 +40,39 @@ const App: React.FC = () => {
       setIsAdmin(window.location.hash === '#admin');
     };
     window.addEventListener('hashchange', handleHashChange);
-    
-    // 2. Check Activation & Trial
-    const activated = localStorage.getItem('app_activated') === 'true';
-    setIsActivated(activated);
-
-    if (!activated) {
-        const startDateStr = localStorage.getItem('trial_start_date');
-        if (startDateStr) {
-            const startDate = new Date(startDateStr);
-            const now = new Date();
-            const diffTime = Math.abs(now.getTime() - startDate.getTime());
-            const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
-            const remaining = 7 - diffDays;
-            setTrialDaysLeft(remaining > 0 ? remaining : 0);
-        }
-    }
 
     return () => window.removeEventListener('hashchange', handleHashChange);
   }, []);
 
   // Handlers
+  // Grades with tracks ask for one the first time; the choice is remembered in the student profile
   const handleGradeSelect = (selectedGrade: GradeLevel) => {
+    const savedTrack = getSavedTrack(selectedGrade);
     setGrade(selectedGrade);
+    setTrack(savedTrack || null);
+    setIsChoosingTrack(TRACKS_BY_GRADE[selectedGrade].length > 0 && !savedTrack);
+    setProfile(saveProfile({ grade: selectedGrade, track: savedTrack }));
+  };
+
+  const handleTrackSelect = (selectedTrack: Track) => {
+    setTrack(selectedTrack);
+    setIsChoosingTrack(false);
+    setProfile(saveProfile({ grade, track: selectedTrack }));
+  };
+
+  const handleProfileComplete = (completed: StudentProfile) => {
+    const saved = saveProfile(completed);
+    setProfile(saved);
+    setGrade(saved.grade);
+    setTrack(saved.track || null);
+    setIsChoosingTrack(false);
+    setSubject(null);
+    setIsEditingProfile(false);
   };
 
-  const handleSubjectSelect = (selectedSubject: Subject) => {
+  const handleSubjectSelect = (selectedSubject: Subject, lessonId?: string) => {
     setSubject(selectedSubject);
+    setStartLessonId(lessonId);
   };
 
   const handleReset = () => {
@@ -63,39 +82,79 @@ const App: React.FC = () => {
   const handleFullReset = () => {
     setSubject(null);
     setGrade(null);
+    setTrack(null);
+    setIsChoosingTrack(false);
   };
   
-  const handlePrint = () => {
-    window.print();
+  // Admin mode always goes through the #admin route, so the PIN gate cannot be skipped
+  const openAdmin = () => {
+    window.location.hash = 'admin';
   };
 
-  // Toggle Admin Mode manually
-  const toggleAdmin = () => {
-    setIsAdmin(!isAdmin);
+  const exitAdmin = () => {
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    setIsAdmin(false);
   };
 
-  // RENDER ADMIN PANEL IF HASH MATCHES OR STATE IS TRUE
+  // RENDER ADMIN PANEL (BEHIND THE PIN GATE) IF HASH MATCHES
   if (isAdmin) {
-    return <AdminGenerator />;
+    return (
+      <AdminGate onExit={exitAdmin}>
+        <AdminGenerator />
+      </AdminGate>
+    );
   }
 
   return (
     <>
       {/* Subscription Protection System */}
-      <SubscriptionModal />
+      <SubscriptionModal isRenewalOpen={isRenewalOpen} onCloseRenewal={() => setIsRenewalOpen(false)} />
       
-      {/* Trial Banner - Visible only if not activated and days > 0 */}
-      {!isActivated && trialDaysLeft !== null && trialDaysLeft > 0 && (
+      {/* Trial Banner - Visible only while the trial is running */}
+      {entitlement?.status === 'trial' && (
           <div className="bg-amber-100 text-amber-800 text-xs md:text-sm py-1 px-4 text-center font-bold border-b border-amber-200 flex items-center justify-center gap-2 no-print">
               <Clock size={14} />
-              <span>فترة تجريبية: متبقى {trialDaysLeft} أيام وتغلق النسخة.</span>
-              <button onClick={() => window.location.hash = '#admin'} className="underline text-amber-900 opacity-50 hover:opacity-100 hidden">تفعيل</button>
+              <span>فترة تجريبية: متبقى {entitlement.daysLeft} أيام وتغلق النسخة.</span>
+              <button onClick={() => setIsRenewalOpen(true)} className="underline text-amber-900 opacity-70 hover:opacity-100">اشترك الآن</button>
+          </div>
+      )}
+
+      {/* Renewal Banner - Subscription ending soon */}
+      {entitlement?.status === 'active' && entitlement.daysLeft <= RENEWAL_WARNING_DAYS && (
+          <div className="bg-amber-100 text-amber-800 text-xs md:text-sm py-1 px-4 text-center font-bold border-b border-amber-200 flex items-center justify-center gap-2 no-print">
+              <Clock size={14} />
+              <span>{entitlement.planName}: متبقى {entitlement.daysLeft} أيام على انتهاء اشتراكك.</span>
+              <button onClick={() => setIsRenewalOpen(true)} className="underline text-amber-900 opacity-70 hover:opacity-100">جدد الآن</button>
+          </div>
+      )}
+
+      {/* Clock Banner - Device date was moved backwards */}
+      {entitlement?.isClockRolledBack && (
+          <div className="bg-red-100 text-red-800 text-xs md:text-sm py-1 px-4 text-center font-bold border-b border-red-200 flex items-center justify-center gap-2 no-print">
+              <AlertTriangle size={14} />
+              <span>تاريخ الجهاز غير صحيح. اضبط التاريخ والوقت تلقائياً.</span>
+          </div>
+      )}
+
+      {/* Grace Banner - Subscription ended, app still open for a few days */}
+      {entitlement?.status === 'grace' && (
+          <div className="bg-red-100 text-red-800 text-xs md:text-sm py-1 px-4 text-center font-bold border-b border-red-200 flex items-center justify-center gap-2 no-print">
+              <AlertTriangle size={14} />
+              <span>انتهى اشتراكك! متبقى {entitlement.daysLeft} أيام سماح قبل غلق النسخة.</span>
+              <button onClick={() => setIsRenewalOpen(true)} className="underline text-red-900 opacity-70 hover:opacity-100">جدد الآن</button>
           </div>
       )}
 
-      {/* Render: Chat Mode */}
-      {grade && subject ? (
-        <ChatInterface grade={grade} subject={subject} onBack={handleReset} />
+      {/* Render: Onboarding (first visit, or editing the profile) */}
+      {!isProfileComplete(profile) || isEditingProfile ? (
+        <ProfileOnboarding
+          initial={profile}
+          onComplete={handleProfileComplete}
+          onCancel={isProfileComplete(profile) ? () => setIsEditingProfile(false) : undefined}
+        />
+      ) : grade && subject ? (
+        /* Render: Chat Mode */
+        <ChatInterface grade={grade} subject={subject} track={track || undefined} startLessonId={startLessonId} onBack={handleReset} />
       ) : grade ? (
         /* Render: Subject Selection Mode */
         <div className="min-h-screen bg-slate-50 flex flex-col">
@@ -108,16 +167,24 @@ const App: React.FC = () => {
             </div>
             
             <div className="flex items-center gap-2 shrink-0">
-                <button 
-                  onClick={handlePrint}
+                <button
+                  onClick={() => setIsEditingProfile(true)}
                   className="text-slate-600 hover:text-indigo-600 hover:bg-slate-50 p-2 rounded-lg transition-colors"
-                  title="حفظ PDF / طباعة"
+                  title="ملفي الشخصي"
                 >
-                  <Printer size={20} />
+                  <UserRound size={20} />
                 </button>
                 <div className="w-px h-6 bg-slate-200 mx-1"></div>
+                {track && !isChoosingTrack && (
+                  <button
+                    onClick={() => setIsChoosingTrack(true)}
+                    className="text-sm md:text-base text-slate-600 font-bold hover:bg-slate-50 px-3 py-2 md:px-4 md:py-2 rounded-lg transition-colors whitespace-nowrap"
+                  >
+                    تغيير الشعبة
+                  </button>
+                )}
                 <button 
-                  onClick={() => setGrade(null)}
+                  onClick={handleFullReset}
                   className="text-sm md:text-base text-indigo-600 font-bold hover:bg-indigo-50 px-3 py-2 md:px-4 md:py-2 rounded-lg transition-colors whitespace-nowrap"
                 >
                   تغيير الصف
@@ -126,26 +193,29 @@ const App: React.FC = () => {
           </header>
 
           <main className="flex-1 max-w-5xl mx-auto w-full p-4 flex flex-col">
-            <div className="text-center mb-8 mt-4">
-              <h2 className="text-2xl md:text-3xl font-black text-slate-800 mb-3">اختر المادة الدراسية</h2>
-              <p className="text-base md:text-lg text-slate-500 font-medium">أنت الآن في {grade}</p>
-            </div>
-            
-            <SubjectGrid grade={grade} onSelect={handleSubjectSelect} />
+            {isChoosingTrack ? (
+              <>
+                <div className="text-center mb-8 mt-4">
+                  <h2 className="text-2xl md:text-3xl font-black text-slate-800 mb-3">اختر الشعبة</h2>
+                  <p className="text-base md:text-lg text-slate-500 font-medium">المواد والمنهج وشرح المعلم حسب شعبتك في {grade}</p>
+                </div>
+                <TrackSelector grade={grade} selected={track || undefined} onSelect={handleTrackSelect} />
+              </>
+            ) : (
+              <>
+                <div className="text-center mb-8 mt-4">
+                  <h2 className="text-2xl md:text-3xl font-black text-slate-800 mb-3">اختر المادة الدراسية</h2>
+                  <p className="text-base md:text-lg text-slate-500 font-medium">أنت الآن في {grade}{track && ` - شعبة ${track}`}</p>
+                </div>
+
+                <SubjectGrid grade={grade} track={track || undefined} onSelect={handleSubjectSelect} />
+              </>
+            )}
           </main>
         </div>
       ) : (
         /* Render: Grade Selection Mode (Home) */
         <div className="min-h-screen bg-gradient-to-br from-slate-50 to-indigo-50 flex flex-col items-center justify-center p-4 relative">
-          
-          {/* Print Button for Home Screen */}
-          <button 
-             onClick={handlePrint}
-             className="absolute top-4 left-4 p-3 bg-white/80 backdrop-blur-sm text-slate-600 rounded-full shadow-sm hover:bg-white hover:text-indigo-600 transition-all z-20"
-             title="حفظ الصفحة كـ PDF"
-          >
-             <Printer size={20} />
-          </button>
 
           <div className="max-w-md w-full bg-white rounded-3xl shadow-2xl overflow-hidden relative z-10">
             <div className="bg-indigo-600 p-10 text-center">
@@ -157,7 +227,10 @@ const App: React.FC = () => {
             </div>
 
             <div className="p-8 space-y-5">
-              <h2 className="text-center text-slate-800 font-bold text-xl mb-8">اختر الصف الدراسي للبدء</h2>
+              <h2 className="text-center text-slate-800 font-bold text-xl mb-1">أهلاً يا {profile.name}! اختر الصف الدراسي</h2>
+              <button onClick={() => setIsEditingProfile(true)} className="block mx-auto mb-8 text-sm text-indigo-600 font-bold hover:underline">
+                تعديل ملفي الشخصي
+              </button>
               
               <button
                 onClick={() => handleGradeSelect(GradeLevel.GRADE_10)}
@@ -185,7 +258,7 @@ const App: React.FC = () => {
                   </div>
                   <div className="text-right">
                     <h3 className="font-bold text-xl text-slate-900 group-hover:text-indigo-700">الصف الثاني الثانوي</h3>
-                    <p className="text-sm text-slate-500 mt-1 font-medium">الشعبة العامة / علمي / أدبي</p>
+                    <p className="text-sm text-slate-500 mt-1 font-medium">علمي / أدبي</p>
                   </div>
                 </div>
                 <div className="w-3 h-3 rounded-full bg-slate-300 group-hover:bg-indigo-500"></div>
@@ -213,7 +286,7 @@ const App: React.FC = () => {
               
               {/* SECRET ADMIN BUTTON */}
               <button 
-                onClick={toggleAdmin}
+                onClick={openAdmin}
                 className="opacity-20 hover:opacity-100 transition-opacity p-1 text-slate-800"
                 title="لوحة التحكم (Admin)"
               >
@@ -1,16 +1,17 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { X, Mic, MicOff, PhoneOff, Loader2, Activity } from 'lucide-react';
-import { GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
-import { GradeLevel, Subject } from '../types';
+import { GradeLevel, Subject, Track } from './types';
+import { connectLiveSession, LiveSession } from './services/geminiService';
 
 interface LiveVoiceModalProps {
   isOpen: boolean;
   onClose: () => void;
   grade: GradeLevel;
   subject: Subject;
+  track?: Track;
 }
 
-export const LiveVoiceModal: React.FC<LiveVoiceModalProps> = ({ isOpen, onClose, grade, subject }) => {
+export const LiveVoiceModal: React.FC<LiveVoiceModalProps> = ({ isOpen, onClose, grade, subject, track }) => {
   const [status, setStatus] = useState<'connecting' | 'connected' | 'error'>('connecting');
   const [isMuted, setIsMuted] = useState(false);
   const [volumeLevel, setVolumeLevel] = useState(0);
@@ -19,7 +20,7 @@ export const LiveVoiceModal: React.FC<LiveVoiceModalProps> = ({ isOpen, onClose,
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const processorRef = useRef<ScriptProcessorNode | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const sessionRef = useRef<any>(null);
+  const sessionRef = useRef<LiveSession | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const mountedRef = useRef(true);
 
@@ -60,10 +61,6 @@ export const LiveVoiceModal: React.FC<LiveVoiceModalProps> = ({ isOpen, onClose,
   const connect = useCallback(async () => {
     try {
       setStatus('connecting');
-      const apiKey = process.env.API_KEY;
-      if (!apiKey) throw new Error("No API Key found");
-
-      const ai = new GoogleGenAI({ apiKey });
       
       // 1. Setup Audio Context
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
@@ -79,107 +76,72 @@ export const LiveVoiceModal: React.FC<LiveVoiceModalProps> = ({ isOpen, onClose,
       });
       mediaStreamRef.current = stream;
 
-      // 3. Connect to Gemini Live
-      const systemInstruction = `
-        أنت مدرس خصوصي ودود وذكي باللهجة المصرية. اسمك "المعلم الذكي".
-        تتحدث مع طالب في ${grade} يدرس مادة ${subject}.
-        مهمتك: مساعدة الطالب في المذاكرة، الإجابة عن أسئلته، وتشجيعه.
-        التعليمات:
-        1. تكلم بأسلوب "دردشة" وليس خطبة. جمل قصيرة وواضحة.
-        2. استخدم نبرة مشجعة ومتحمسة.
-        3. لا تقرأ علامات التنسيق مثل النجوم أو الشبابيك.
-        4. إذا سألك الطالب عن شيء خارج المنهج، رده بذكاء للمنهج.
-        5. ابدأ المحادثة بالترحيب وسؤاله "جاهز نذاكر سوا يا بطل؟"
-      `;
-
-      const session = await ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-          },
-          systemInstruction: systemInstruction,
-        },
-        callbacks: {
-          onopen: () => {
-            if (!mountedRef.current) return;
-            setStatus('connected');
+      // 3. Connect to the live tutor
+      // The tutor's instructions are built from the session by the provider (services/tutorPrompt)
+      const session = await connectLiveSession({ grade, subject, track }, {
+        onOpen: () => {
+          if (!mountedRef.current) return;
+          setStatus('connected');
+          
+          // Start Audio Processing Pipeline
+          const inputCtx = new AudioContextClass({ sampleRate: 16000 });
+          const source = inputCtx.createMediaStreamSource(stream);
+          const processor = inputCtx.createScriptProcessor(4096, 1, 1);
+          
+          processor.onaudioprocess = (e) => {
+            if (isMuted) return;
             
-            // Start Audio Processing Pipeline
-            const inputCtx = new AudioContextClass({ sampleRate: 16000 });
-            const source = inputCtx.createMediaStreamSource(stream);
-            const processor = inputCtx.createScriptProcessor(4096, 1, 1);
+            const inputData = e.inputBuffer.getChannelData(0);
             
-            processor.onaudioprocess = (e) => {
-              if (isMuted) return;
-              
-              const inputData = e.inputBuffer.getChannelData(0);
-              
-              // Update Visualizer
-              let sum = 0;
-              for(let i=0; i<inputData.length; i++) sum += inputData[i] * inputData[i];
-              const rms = Math.sqrt(sum / inputData.length);
-              setVolumeLevel(Math.min(rms * 5, 1));
-
-              const base64Data = encodeAudio(inputData);
-              
-              session.sendRealtimeInput({
-                media: {
-                  mimeType: 'audio/pcm;rate=16000',
-                  data: base64Data
-                }
-              });
-            };
+            // Update Visualizer
+            let sum = 0;
+            for(let i=0; i<inputData.length; i++) sum += inputData[i] * inputData[i];
+            const rms = Math.sqrt(sum / inputData.length);
+            setVolumeLevel(Math.min(rms * 5, 1));
 
-            source.connect(processor);
-            processor.connect(inputCtx.destination);
-            
-            sourceRef.current = source;
-            processorRef.current = processor;
-          },
-          onmessage: (msg: LiveServerMessage) => {
-             if (!mountedRef.current) return;
-             
-             // Handle Audio Output
-             const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-             if (audioData && ctx) {
-                const float32Data = decodeAudioData(audioData);
-                
-                // Create Buffer
-                const buffer = ctx.createBuffer(1, float32Data.length, 24000);
-                buffer.getChannelData(0).set(float32Data);
-                
-                // Play Buffer
-                const source = ctx.createBufferSource();
-                source.buffer = buffer;
-                source.connect(ctx.destination);
-                
-                // Schedule
-                const currentTime = ctx.currentTime;
-                const start = Math.max(currentTime, nextStartTimeRef.current);
-                source.start(start);
-                nextStartTimeRef.current = start + buffer.duration;
-                
-                // Visualizer for Bot (Simulated randomly when receiving data)
-                setVolumeLevel(Math.random() * 0.5 + 0.3);
-             }
-             
-             // Reset visualizer shortly after
-             setTimeout(() => setVolumeLevel(0), 200);
+            sessionRef.current?.sendAudio(encodeAudio(inputData));
+          };
 
-             if (msg.serverContent?.turnComplete) {
-                 // Turn complete logic if needed
-             }
-          },
-          onclose: () => {
-            console.log("Connection closed");
-            if (mountedRef.current) onClose();
-          },
-          onerror: (err) => {
-            console.error("Live API Error", err);
-            if (mountedRef.current) setStatus('error');
-          }
+          source.connect(processor);
+          processor.connect(inputCtx.destination);
+          
+          sourceRef.current = source;
+          processorRef.current = processor;
+        },
+        onAudio: (audioData) => {
+           if (!mountedRef.current) return;
+           
+           // Handle Audio Output
+           const float32Data = decodeAudioData(audioData);
+           
+           // Create Buffer
+           const buffer = ctx.createBuffer(1, float32Data.length, 24000);
+           buffer.getChannelData(0).set(float32Data);
+           
+           // Play Buffer
+           const source = ctx.createBufferSource();
+           source.buffer = buffer;
+           source.connect(ctx.destination);
+           
+           // Schedule
+           const currentTime = ctx.currentTime;
+           const start = Math.max(currentTime, nextStartTimeRef.current);
+           source.start(start);
+           nextStartTimeRef.current = start + buffer.duration;
+           
+           // Visualizer for Bot (Simulated randomly when receiving data)
+           setVolumeLevel(Math.random() * 0.5 + 0.3);
+           
+           // Reset visualizer shortly after
+           setTimeout(() => setVolumeLevel(0), 200);
+        },
+        onClose: () => {
+          console.log("Connection closed");
+          if (mountedRef.current) onClose();
+        },
+        onError: (err) => {
+          console.error("Live API Error", err);
+          if (mountedRef.current) setStatus('error');
         }
       });
       
@@ -189,7 +151,7 @@ export const LiveVoiceModal: React.FC<LiveVoiceModalProps> = ({ isOpen, onClose,
       console.error(e);
       setStatus('error');
     }
-  }, [grade, subject, isMuted, onClose]);
+  }, [grade, subject, track, isMuted, onClose]);
 
   useEffect(() => {
     mountedRef.current = true;
@@ -201,7 +163,8 @@ export const LiveVoiceModal: React.FC<LiveVoiceModalProps> = ({ isOpen, onClose,
       mountedRef.current = false;
       // Cleanup
       if (sessionRef.current) {
-         // sessionRef.current.close(); // LiveClient doesn't have explicit close, just drop connection
+         sessionRef.current.close();
+         sessionRef.current = null;
       }
       if (mediaStreamRef.current) {
         mediaStreamRef.current.getTracks().forEach(track => track.stop());
@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { LockKeyhole, Home, LogOut, ShieldAlert } from 'lucide-react';
+import {
+  loginAdmin, isAdminConfigured, isAdminSessionActive, touchAdminSession, endAdminSession, getLockoutRemainingMs,
+} from '../services/adminAuth';
+
+interface AdminGateProps {
+  onExit: () => void;
+  children: React.ReactNode;
+}
+
+const ACTIVITY_EVENTS = ['click', 'keydown', 'scroll'] as const;
+
+export const AdminGate: React.FC<AdminGateProps> = ({ onExit, children }) => {
+  const [isUnlocked, setIsUnlocked] = useState(() => isAdminSessionActive());
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  // Keep the session alive while the admin is working, and close it once it has been idle too long
+  useEffect(() => {
+    if (!isUnlocked) return;
+    const handleActivity = () => touchAdminSession();
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, handleActivity));
+    const timer = setInterval(() => {
+      if (!isAdminSessionActive()) {
+        setIsUnlocked(false);
+        setError('انتهت الجلسة بسبب عدم النشاط. أدخل الرمز مرة أخرى.');
+      }
+    }, 30 * 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, handleActivity));
+      clearInterval(timer);
+    };
+  }, [isUnlocked]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pin || isChecking) return;
+    setIsChecking(true);
+    try {
+      const result = await loginAdmin(pin);
+      setPin('');
+      if (result.status === 'ok') {
+        setError('');
+        setIsUnlocked(true);
+      } else if (result.status === 'locked') {
+        setError(`محاولات كثيرة خاطئة. حاول بعد ${Math.ceil(result.retryAfterMs / 60000)} دقيقة.`);
+      } else if (result.status === 'wrong_pin') {
+        setError(`الرمز غير صحيح. متبقي ${result.attemptsLeft} محاولات.`);
+      }
+    } catch (err) {
+      console.error("Admin Login Error:", err);
+      setError('تعذر التحقق من الرمز.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleLogout = () => {
+    endAdminSession();
+    setIsUnlocked(false);
+    onExit();
+  };
+
+  if (isUnlocked) {
+    return (
+      <>
+        {children}
+        <button
+          onClick={handleLogout}
+          className="fixed bottom-4 left-4 bg-slate-800 hover:bg-red-900/80 text-slate-300 text-xs font-bold py-2 px-3 rounded-lg border border-slate-600 flex items-center gap-2 shadow-lg no-print"
+        >
+          <LogOut size={14} />
+          تسجيل الخروج
+        </button>
+      </>
+    );
+  }
+
+  const lockoutMs = getLockoutRemainingMs();
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4 font-sans" dir="rtl">
+      <div className="w-full max-w-sm bg-slate-800 rounded-2xl shadow-xl border border-slate-700 p-6 text-white">
+        <div className="flex flex-col items-center text-center mb-6">
+          <div className="bg-emerald-500/10 p-3 rounded-full mb-3">
+            <LockKeyhole size={28} className="text-emerald-400" />
+          </div>
+          <h2 className="text-xl font-bold">لوحة التحكم</h2>
+          <p className="text-sm text-slate-400 mt-1">أدخل رمز المسؤول للمتابعة</p>
+        </div>
+
+        {!isAdminConfigured() ? (
+          <div className="bg-amber-500/10 border border-amber-500/30 text-amber-300 text-sm rounded-lg p-3 flex gap-2">
+            <ShieldAlert size={18} className="shrink-0" />
+            <span>لوحة التحكم غير مفعلة على هذه النسخة. أضف ADMIN_PIN_HASH لإعدادات البناء.</span>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <input
+              type="password"
+              value={pin}
+              onChange={e => setPin(e.target.value)}
+              autoFocus
+              autoComplete="current-password"
+              disabled={lockoutMs > 0}
+              placeholder="••••••"
+              className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-center tracking-widest text-white outline-none focus:ring-2 focus:ring-emerald-500 disabled:opacity-50"
+              dir="ltr"
+            />
+            {(error || lockoutMs > 0) && (
+              <p className="text-xs text-red-400 text-center">
+                {error || `محاولات كثيرة خاطئة. حاول بعد ${Math.ceil(lockoutMs / 60000)} دقيقة.`}
+              </p>
+            )}
+            <button
+              type="submit"
+              disabled={!pin || isChecking || lockoutMs > 0}
+              className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white font-bold py-3 rounded-lg transition-colors"
+            >
+              {isChecking ? 'جاري التحقق...' : 'دخول'}
+            </button>
+          </form>
+        )}
+
+        <button onClick={onExit} className="mt-4 w-full text-slate-500 hover:text-white text-sm flex items-center justify-center gap-2 transition-colors">
+          <Home size={14} />
+          العودة للتطبيق الرئيسي
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,35 +1,94 @@
 import React, { useState, useEffect } from 'react';
-import { Key, ShieldCheck, Copy, RefreshCw, Home, AlertTriangle, RotateCcw, Lock, Crown, Printer } from 'lucide-react';
+import { Key, ShieldCheck, Copy, RefreshCw, Home, AlertTriangle, RotateCcw, Lock, Crown, Printer, Terminal, SearchCheck, BookmarkPlus } from 'lucide-react';
+import { verifyLicense, decodeLicense, LicensePayload, LICENSE_ERROR_MESSAGES } from '../services/license';
+import { getPlanName, PLANS, PlanId, STORAGE_KEYS, activateLicense } from '../services/subscription';
+import { resetTrialClock } from '../services/trialClock';
+import { useEntitlement } from '../hooks/useEntitlement';
+import { buildLedgerEntry, saveLedgerEntry } from '../services/ledger';
+import { LicenseLedger } from './LicenseLedger';
+import { CurriculumEditor } from './CurriculumEditor';
 
-const SALT = "SMART_EDU_EGYPT_2026"; 
+// Trial/activation shortcuts that rewrite this device's entitlement; never enable them in a build handed to students
+const DEV_TOOLS_ENABLED = process.env.ADMIN_DEV_TOOLS === 'true';
 
 export const AdminGenerator: React.FC = () => {
   const [studentDeviceId, setStudentDeviceId] = useState('');
-  const [generatedCode, setGeneratedCode] = useState('');
+  const [planId, setPlanId] = useState<PlanId>('term');
+  const [renewFrom, setRenewFrom] = useState('');
+  const [issueCommand, setIssueCommand] = useState('');
+
+  // Ledger record for the license being issued
+  const [studentName, setStudentName] = useState('');
+  const [studentPhone, setStudentPhone] = useState('');
+  const [issuedLicense, setIssuedLicense] = useState('');
+  const [ledgerVersion, setLedgerVersion] = useState(0);
+
+  // License inspector
+  const [licenseToCheck, setLicenseToCheck] = useState('');
+  const [checkedLicense, setCheckedLicense] = useState<{ payload: LicensePayload | null; message: string } | null>(null);
   
   // State for Testing Tools
   const [myDeviceId, setMyDeviceId] = useState('');
-  const [appStatus, setAppStatus] = useState('');
+  const [vipLicense, setVipLicense] = useState('');
+  const { entitlement } = useEntitlement();
   const [showPrintPoster, setShowPrintPoster] = useState(false);
   const [appUrl, setAppUrl] = useState('');
 
   useEffect(() => {
     // Load current device info for testing
-    setMyDeviceId(localStorage.getItem('device_id') || 'غير معروف');
-    const isActivated = localStorage.getItem('app_activated') === 'true';
-    setAppStatus(isActivated ? 'مفعل (Activated)' : 'فترة تجريبية (Trial)');
+    setMyDeviceId(localStorage.getItem(STORAGE_KEYS.DEVICE_ID) || 'غير معروف');
     setAppUrl(window.location.origin);
   }, []);
 
-  const generateCode = () => {
+  const statusLabels = { trial: 'فترة تجريبية (Trial)', active: 'مفعل (Active)', grace: 'فترة سماح (Grace)', expired: 'منتهي (Expired)' };
+  const appStatus = !entitlement
+    ? '...'
+    : entitlement.planName ? `${statusLabels[entitlement.status]} — ${entitlement.planName}` : statusLabels[entitlement.status];
+
+  // Licenses are signed with the private key, which only exists on the admin machine (scripts/license.ts)
+  const buildIssueCommand = () => {
     if (!studentDeviceId.trim()) return;
-    const code = btoa(studentDeviceId.trim() + SALT).substring(0, 12);
-    setGeneratedCode(code);
+    const fromFlag = renewFrom ? ` --from ${renewFrom}` : '';
+    setIssueCommand(`npm run license -- issue --device ${studentDeviceId.trim()} --plan ${planId}${fromFlag}`);
   };
 
   const copyToClipboard = () => {
-    navigator.clipboard.writeText(generatedCode);
-    alert("تم نسخ الكود!");
+    navigator.clipboard.writeText(issueCommand);
+    alert("تم نسخ الأمر!");
+  };
+
+  const saveToLedger = async () => {
+    if (!studentDeviceId.trim() && !issuedLicense.trim()) return;
+    try {
+      await saveLedgerEntry(buildLedgerEntry({
+        studentName,
+        phone: studentPhone,
+        deviceId: studentDeviceId,
+        planId,
+        license: issuedLicense,
+        startsAt: renewFrom ? new Date(renewFrom) : undefined,
+      }));
+      setLedgerVersion(v => v + 1);
+      setStudentName('');
+      setStudentPhone('');
+      setStudentDeviceId('');
+      setIssuedLicense('');
+      setIssueCommand('');
+      alert("تم التسجيل في الدفتر ✅");
+    } catch (e) {
+      console.error("Ledger Save Error:", e);
+      alert("تعذر الحفظ في الدفتر.");
+    }
+  };
+
+  const inspectLicense = async () => {
+    const payload = decodeLicense(licenseToCheck);
+    if (!payload) {
+      setCheckedLicense({ payload: null, message: LICENSE_ERROR_MESSAGES.malformed });
+      return;
+    }
+    const result = await verifyLicense(licenseToCheck, payload.deviceId);
+    setCheckedLicense({ payload, message: result.valid ? 'الكود سليم وموقّع ✅' : LICENSE_ERROR_MESSAGES[result.error || 'malformed'] });
   };
 
   // --- TESTING TOOLS ---
@@ -37,27 +96,36 @@ export const AdminGenerator: React.FC = () => {
     // Set date to 8 days ago
     const pastDate = new Date();
     pastDate.setDate(pastDate.getDate() - 8);
-    localStorage.setItem('trial_start_date', pastDate.toISOString());
-    localStorage.removeItem('app_activated');
+    localStorage.setItem(STORAGE_KEYS.TRIAL_START, pastDate.toISOString());
+    localStorage.removeItem(STORAGE_KEYS.LICENSE);
     alert("تم إنهاء الفترة التجريبية! عد للصفحة الرئيسية لترى شاشة القفل.");
     window.location.hash = ""; // Go back to home
     window.location.reload();
   };
 
-  const resetApp = () => {
-    localStorage.removeItem('trial_start_date');
-    localStorage.removeItem('app_activated');
-    localStorage.removeItem('device_id');
+  const resetApp = async () => {
+    Object.values(STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+    await resetTrialClock();
     alert("تم تصفير التطبيق! سيعاملك النظام كمستخدم جديد تماماً.");
     window.location.hash = "";
     window.location.reload();
   };
 
-  const activateVip = () => {
-      localStorage.setItem('app_activated', 'true');
-      alert("تم تفعيل هذا الجهاز بنظام VIP! 👑");
-      window.location.hash = "";
-      window.location.reload();
+  // The owner's device is activated like any student's: a yearly license signed on the admin machine
+  const copyVipCommand = () => {
+    navigator.clipboard.writeText(`npm run license -- issue --device ${myDeviceId} --plan yearly`);
+    alert("تم نسخ أمر الترخيص! شغّله على جهاز الإدارة ثم الصق الكود الناتج هنا.");
+  };
+
+  const activateVip = async () => {
+    const result = await activateLicense(vipLicense);
+    if (!result.valid) {
+      alert(LICENSE_ERROR_MESSAGES[result.error || 'malformed']);
+      return;
+    }
+    alert("تم تفعيل هذا الجهاز بنظام VIP! 👑");
+    window.location.hash = "";
+    window.location.reload();
   };
 
   if (showPrintPoster) {
@@ -102,7 +170,7 @@ export const AdminGenerator: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col items-center justify-center p-4 font-mono" dir="rtl">
-      <div className="max-w-2xl w-full space-y-6">
+      <div className="max-w-3xl w-full space-y-6">
         
         {/* Generator Section */}
         <div className="bg-slate-800 rounded-2xl shadow-2xl border border-slate-700 p-8">
@@ -117,6 +185,28 @@ export const AdminGenerator: React.FC = () => {
           </div>
 
           <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-2">اسم الطالب</label>
+                <input 
+                  type="text" 
+                  value={studentName}
+                  onChange={(e) => setStudentName(e.target.value)}
+                  className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-2">رقم التليفون</label>
+                <input 
+                  type="tel" 
+                  value={studentPhone}
+                  onChange={(e) => setStudentPhone(e.target.value)}
+                  className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none text-center"
+                  dir="ltr"
+                />
+              </div>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-slate-400 mb-2">رقم جهاز الطالب (Device ID)</label>
               <input 
@@ -129,19 +219,47 @@ export const AdminGenerator: React.FC = () => {
               />
             </div>
 
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-2">الباقة</label>
+                <select 
+                  value={planId}
+                  onChange={(e) => setPlanId(e.target.value as PlanId)}
+                  className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none"
+                >
+                  {Object.values(PLANS).map(plan => (
+                    <option key={plan.id} value={plan.id}>{plan.name} — {plan.days} يوم ({plan.price}ج)</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-2">تجديد يبدأ من (اختياري)</label>
+                <input 
+                  type="date" 
+                  value={renewFrom}
+                  onChange={(e) => setRenewFrom(e.target.value)}
+                  className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none text-center"
+                  dir="ltr"
+                />
+              </div>
+            </div>
+
             <button 
-              onClick={generateCode}
+              onClick={buildIssueCommand}
               className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-3 rounded-lg transition-all flex items-center justify-center gap-2"
             >
               <RefreshCw size={18} />
-              توليد كود التفعيل
+              تجهيز أمر إصدار الكود
             </button>
 
-            {generatedCode && (
+            {issueCommand && (
               <div className="bg-slate-900 p-4 rounded-lg border border-emerald-500/50 text-center animate-in fade-in slide-in-from-top-2">
-                <p className="text-xs text-slate-500 mb-2">كود التفعيل لهذا الطالب هو:</p>
-                <div className="flex items-center justify-center gap-2 mb-2">
-                  <code className="text-2xl font-black text-emerald-400 tracking-wider">{generatedCode}</code>
+                <p className="text-xs text-slate-500 mb-2 flex items-center justify-center gap-1">
+                  <Terminal size={12} />
+                  شغّل هذا الأمر على جهازك (الذي يحتوي على المفتاح الخاص) ثم أرسل الناتج للطالب:
+                </p>
+                <div className="mb-2" dir="ltr">
+                  <code className="text-sm font-bold text-emerald-400 break-all">{issueCommand}</code>
                 </div>
                 <button 
                   onClick={copyToClipboard}
@@ -149,13 +267,70 @@ export const AdminGenerator: React.FC = () => {
                   title="Copy"
                 >
                   <Copy size={12} />
-                  نسخ الكود
+                  نسخ الأمر
                 </button>
+
+                <div className="flex gap-2 mt-4">
+                  <input 
+                    type="text" 
+                    value={issuedLicense}
+                    onChange={(e) => setIssuedLicense(e.target.value)}
+                    placeholder="الصق الكود الناتج هنا (اختياري)"
+                    className="flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white outline-none focus:ring-2 focus:ring-emerald-500 font-mono text-xs"
+                    dir="ltr"
+                  />
+                  <button 
+                    onClick={saveToLedger}
+                    className="bg-emerald-700 hover:bg-emerald-600 text-white text-xs font-bold px-3 rounded-lg flex items-center gap-1 whitespace-nowrap"
+                  >
+                    <BookmarkPlus size={14} />
+                    تسجيل في الدفتر
+                  </button>
+                </div>
               </div>
             )}
+
+            <div className="border-t border-slate-700 pt-6">
+              <label className="block text-sm font-medium text-slate-400 mb-2">فحص كود تفعيل</label>
+              <div className="flex gap-2">
+                <input 
+                  type="text" 
+                  value={licenseToCheck}
+                  onChange={(e) => setLicenseToCheck(e.target.value)}
+                  placeholder="الصق الكود هنا"
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none font-mono text-xs"
+                  dir="ltr"
+                />
+                <button 
+                  onClick={inspectLicense}
+                  className="bg-slate-700 hover:bg-slate-600 text-white px-4 rounded-lg transition-all"
+                  title="فحص"
+                >
+                  <SearchCheck size={18} />
+                </button>
+              </div>
+              {checkedLicense && (
+                <div className="mt-3 bg-slate-900 p-3 rounded-lg border border-slate-700 text-sm space-y-1">
+                  <p className="font-bold text-white">{checkedLicense.message}</p>
+                  {checkedLicense.payload && (
+                    <>
+                      <p className="text-slate-400">الباقة: <span className="text-slate-200">{getPlanName(checkedLicense.payload.plan)}</span></p>
+                      <p className="text-slate-400">الجهاز: <span className="text-slate-200 font-mono">{checkedLicense.payload.deviceId}</span></p>
+                      <p className="text-slate-400">ينتهي في: <span className="text-slate-200">{new Date(checkedLicense.payload.expiresAt).toLocaleDateString('ar-EG')}</span></p>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
           </div>
         </div>
 
+        {/* Issued Licenses */}
+        <LicenseLedger refreshKey={ledgerVersion} />
+
+        {/* Curriculum */}
+        <CurriculumEditor />
+
         {/* Marketing Tools */}
         <div className="bg-slate-800 rounded-2xl shadow-xl border border-indigo-900/30 p-6 opacity-90">
              <h3 className="text-indigo-400 font-bold mb-4 flex items-center gap-2 text-sm uppercase tracking-wider">
@@ -171,7 +346,8 @@ export const AdminGenerator: React.FC = () => {
             </button>
         </div>
 
-        {/* Developer Testing Tools Section */}
+        {/* Developer Testing Tools Section (only in builds made with ADMIN_DEV_TOOLS=true) */}
+        {DEV_TOOLS_ENABLED && (
         <div className="bg-slate-800 rounded-2xl shadow-xl border border-red-900/30 p-6 opacity-90">
             <h3 className="text-red-400 font-bold mb-4 flex items-center gap-2 text-sm uppercase tracking-wider">
                 <AlertTriangle size={16} />
@@ -187,13 +363,30 @@ export const AdminGenerator: React.FC = () => {
 
                 <div className="space-y-2">
                     <button 
-                        onClick={activateVip}
+                        onClick={copyVipCommand}
                         className="w-full bg-amber-600 hover:bg-amber-500 text-white text-xs font-bold py-2 px-3 rounded border border-amber-400 flex items-center justify-center gap-2 shadow-lg shadow-amber-900/20"
                     >
                         <Crown size={14} />
-                        تفعيل جهازي فوراً (VIP Owner)
+                        نسخ أمر ترخيص جهازي (VIP Owner)
                     </button>
 
+                    <div className="flex gap-2">
+                        <input
+                            value={vipLicense}
+                            onChange={e => setVipLicense(e.target.value)}
+                            placeholder="الصق الترخيص الناتج"
+                            className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 text-xs text-white font-mono"
+                            dir="ltr"
+                        />
+                        <button
+                            onClick={activateVip}
+                            disabled={!vipLicense.trim()}
+                            className="bg-amber-600 hover:bg-amber-500 disabled:opacity-50 text-white text-xs font-bold py-2 px-3 rounded border border-amber-400"
+                        >
+                            تفعيل
+                        </button>
+                    </div>
+
                     <div className="flex gap-2">
                         <button 
                             onClick={forceExpireTrial}
@@ -214,6 +407,7 @@ export const AdminGenerator: React.FC = () => {
                 </div>
             </div>
         </div>
+        )}
 
         <div className="pt-4 text-center">
            <a href="/" className="text-slate-500 hover:text-white text-sm flex items-center justify-center gap-2 transition-colors">
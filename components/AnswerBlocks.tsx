@@ -0,0 +1,30 @@
+import React from 'react';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import 'katex/contrib/mhchem'; // registers \ce and \pu on the katex instance rehype-katex uses
+import { ChartBlock } from './ChartBlock';
+import { PlotBlock } from './PlotBlock';
+import { DiagramBlock } from './DiagramBlock';
+import { DIAGRAM_KINDS, DiagramKind } from '../services/diagram';
+import { KATEX_OPTIONS } from '../services/math';
+
+// How a tutor answer is rendered, shared by the chat bubble and the printed handout so both show the same formulas and drawings
+
+export const ANSWER_REMARK_PLUGINS = [remarkGfm, remarkMath];
+export const ANSWER_REHYPE_PLUGINS: any[] = [[rehypeKatex, KATEX_OPTIONS]];
+
+interface AnswerBlockOptions {
+  isStreaming?: boolean;
+  isStatic?: boolean; // printed copy: no animation or controls
+}
+
+// The drawing for a fenced block (```chart, ```plot, ```mindmap, ...); null when the language is ordinary code
+export const renderAnswerBlock = (language: string | undefined, source: string, { isStreaming, isStatic }: AnswerBlockOptions = {}): React.ReactNode => {
+  if (language === 'chart') return <ChartBlock source={source} isStreaming={isStreaming} isStatic={isStatic} />;
+  if (language === 'plot') return <PlotBlock source={source} isStreaming={isStreaming} isStatic={isStatic} />;
+  if (language && DIAGRAM_KINDS.includes(language as DiagramKind)) {
+    return <DiagramBlock kind={language as DiagramKind} source={source} isStreaming={isStreaming} isStatic={isStatic} />;
+  }
+  return null;
+};
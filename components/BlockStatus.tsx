@@ -0,0 +1,27 @@
+import React from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+
+// Shared states of the rendered blocks in an answer (```chart, ```plot, ...)
+
+export const BlockPlaceholder: React.FC<{ label: string }> = ({ label }) => (
+  <div className="my-6 w-full h-24 bg-slate-50 rounded-xl border border-dashed flex items-center justify-center gap-2 text-sm text-slate-500">
+    <Loader2 size={16} className="animate-spin" />{label}
+  </div>
+);
+
+interface BlockFallbackProps {
+  title: string;
+  reason: string;
+  source: string; // the block as the model wrote it
+}
+
+export const BlockFallback: React.FC<BlockFallbackProps> = ({ title, reason, source }) => (
+  <div className="my-4 p-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800" dir="rtl">
+    <p className="font-bold flex items-center gap-1.5"><AlertTriangle size={16} />{title}</p>
+    <p className="mt-1 text-amber-700">السبب: {reason}. باقي الشرح صحيح، ويمكنك أن تطلب من المعلم إعادة رسمه.</p>
+    <details className="mt-2">
+      <summary className="cursor-pointer text-xs text-amber-600">عرض البيانات الأصلية</summary>
+      <pre className="mt-1 p-2 bg-white rounded-lg border text-xs overflow-x-auto max-h-40" dir="ltr">{source}</pre>
+    </details>
+  </div>
+);
@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import {
+  ComposedChart, ScatterChart, PieChart, Line, Bar, Area, Scatter, Pie, Cell, XAxis, YAxis, CartesianGrid, Legend, Label, LabelList,
+  ReferenceLine, ReferenceDot, Tooltip as RechartsTooltip, ResponsiveContainer,
+} from 'recharts';
+import { ChartSpec, ChartAxis, ChartAnnotation, ANNOTATION_LABELS, SERIES_COLORS, parseChartSpec, formatAxisTitle } from '../services/chart';
+import { BarChart3 } from 'lucide-react';
+import { BlockPlaceholder, BlockFallback } from './BlockStatus';
+
+interface ChartBlockProps {
+  source: string; // body of the ```chart block
+  isStreaming?: boolean;
+  isStatic?: boolean; // printed copy: drawn at once, without animation
+}
+
+type ChartNote = Extract<ChartAnnotation, { kind: keyof typeof ANNOTATION_LABELS }>;
+
+type ChartParseState = { spec: ChartSpec; error?: undefined } | { spec?: undefined; error: string };
+
+const withUnit = (axis: ChartAxis) => (value: any) => (axis.unit ? `${value} ${axis.unit}` : value);
+
+const renderCartesianChart = (spec: ChartSpec, isAnimationActive: boolean) => {
+  const isNumericX = spec.type !== 'bar' && spec.data.every(p => typeof p.x === 'number');
+  const xTitle = formatAxisTitle(spec.xAxis);
+  const yTitle = formatAxisTitle(spec.yAxis);
+
+  const axes = [
+    <CartesianGrid key="grid" strokeDasharray="3 3" />,
+    <XAxis key="x" dataKey="x" type={isNumericX || spec.type === 'scatter' ? 'number' : 'category'} domain={['auto', 'auto']} allowDuplicatedCategory={false}>
+      {xTitle && <Label value={xTitle} position="insideBottom" offset={-10} />}
+    </XAxis>,
+    <YAxis key="y" type="number" domain={['auto', 'auto']} {...(spec.type === 'scatter' ? { dataKey: 'y' } : {})}>
+      {yTitle && <Label value={yTitle} angle={-90} position="insideLeft" style={{ textAnchor: 'middle' }} />}
+    </YAxis>,
+    <RechartsTooltip key="tooltip" formatter={withUnit(spec.yAxis)} labelFormatter={withUnit(spec.xAxis)} />,
+    ...(spec.series.length > 1 ? [<Legend key="legend" verticalAlign="top" />] : []),
+  ];
+
+  const references = spec.annotations.map((annotation, i) => {
+    switch (annotation.kind) {
+      case 'point':
+        return <ReferenceDot key={i} x={annotation.x} y={annotation.y} r={5} fill="#e11d48" stroke="#fff" ifOverflow="extendDomain" label={{ value: annotation.text, position: 'top' }} />;
+      case 'hline':
+        return <ReferenceLine key={i} y={annotation.y} stroke="#94a3b8" strokeDasharray="4 4" ifOverflow="extendDomain" label={annotation.text} />;
+      case 'vline':
+        return <ReferenceLine key={i} x={annotation.x} stroke="#94a3b8" strokeDasharray="4 4" ifOverflow="extendDomain" label={annotation.text} />;
+      default:
+        return null;
+    }
+  });
+
+  const margin = { top: 10, right: 20, bottom: xTitle ? 20 : 5, left: yTitle ? 10 : 0 };
+
+  if (spec.type === 'scatter') {
+    return (
+      <ScatterChart margin={margin}>
+        {axes}
+        {spec.series.map(series => (
+          <Scatter
+            key={series.key}
+            name={series.label}
+            fill={series.color}
+            isAnimationActive={isAnimationActive}
+            data={spec.data.filter(p => typeof p[series.key] === 'number').map(p => ({ x: p.x, y: p[series.key], label: p.label }))}
+          >
+            <LabelList dataKey="label" position="top" />
+          </Scatter>
+        ))}
+        {references}
+      </ScatterChart>
+    );
+  }
+
+  return (
+    <ComposedChart data={spec.data} margin={margin}>
+      {axes}
+      {spec.series.map((series, i) => {
+        const labels = i === 0 && <LabelList dataKey="label" position="top" />;
+        if (spec.type === 'bar') return <Bar key={series.key} dataKey={series.key} name={series.label} fill={series.color} isAnimationActive={isAnimationActive}>{labels}</Bar>;
+        if (spec.type === 'area') {
+          return <Area key={series.key} type="monotone" dataKey={series.key} name={series.label} stroke={series.color} fill={series.color} fillOpacity={0.2} isAnimationActive={isAnimationActive}>{labels}</Area>;
+        }
+        return <Line key={series.key} type="monotone" dataKey={series.key} name={series.label} stroke={series.color} strokeWidth={3} connectNulls isAnimationActive={isAnimationActive}>{labels}</Line>;
+      })}
+      {references}
+    </ComposedChart>
+  );
+};
+
+const renderPieChart = (spec: ChartSpec, isAnimationActive: boolean) => {
+  const series = spec.series[0];
+  return (
+    <PieChart>
+      <Pie data={spec.data} dataKey={series.key} nameKey="x" outerRadius="75%" label isAnimationActive={isAnimationActive}>
+        {spec.data.map((_, i) => <Cell key={i} fill={SERIES_COLORS[i % SERIES_COLORS.length]} />)}
+      </Pie>
+      <RechartsTooltip formatter={withUnit(spec.yAxis)} />
+      <Legend />
+    </PieChart>
+  );
+};
+
+export const ChartBlock: React.FC<ChartBlockProps> = ({ source, isStreaming, isStatic }) => {
+  const parsed = useMemo<ChartParseState>(() => {
+    try {
+      return { spec: parseChartSpec(source) };
+    } catch (e: any) {
+      return { error: e.message };
+    }
+  }, [source]);
+
+  // The block is incomplete until the answer finishes
+  if (isStreaming) return <BlockPlaceholder label="جاري رسم المخطط..." />;
+  if (parsed.error !== undefined) return <BlockFallback title="تعذر عرض الرسم البياني" reason={parsed.error} source={source} />;
+
+  const { spec } = parsed;
+  const notes = spec.annotations.filter((a): a is ChartNote => a.kind in ANNOTATION_LABELS);
+
+  return (
+    <div className="my-6 w-full bg-white p-4 rounded-xl border shadow-sm">
+      {spec.title && <h4 className="text-center font-bold mb-3 flex items-center justify-center gap-2"><BarChart3 size={18} className="text-indigo-500" />{spec.title}</h4>}
+      <div className="w-full h-72" dir="ltr">
+        <ResponsiveContainer width="100%" height="100%">
+          {spec.type === 'pie' ? renderPieChart(spec, !isStatic) : renderCartesianChart(spec, !isStatic)}
+        </ResponsiveContainer>
+      </div>
+      {notes.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2 justify-center" dir="rtl">
+          {notes.map((note, i) => (
+            <span key={i} className="text-sm px-3 py-1 rounded-full bg-indigo-50 text-indigo-800 border border-indigo-100">
+              <b>{ANNOTATION_LABELS[note.kind]}:</b> <span dir="auto">{note.text}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
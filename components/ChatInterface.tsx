@@ -1,13 +1,28 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { GradeLevel, Subject, Message, Sender, Attachment } from '../types';
-import { generateStreamResponse } from '../services/geminiService';
+import { GradeLevel, Subject, Track, Message, Sender, Attachment, Conversation } from '../types';
+import { generateStreamResponse, draftFlashcard, HomeworkTurn } from '../services/geminiService';
+import { listConversations, saveConversation, createConversationId } from '../services/chatStorage';
+import { recordChatActivity } from '../services/progress';
+import { ExplanationStyle, EXPLANATION_STYLE_LABELS, loadProfile } from '../services/profile';
+import { HomeworkProblem, HINT_LEVEL_LABELS, MAX_HINT_LEVEL, startHomeworkProblem, updateHomeworkProblem } from '../services/homework';
+import { CurriculumLesson, findLesson } from '../curriculum';
+import { addFlashcards, FlashcardSource, FlashcardDraft } from '../services/flashcards';
 import { MessageBubble } from './MessageBubble';
+import { ConversationHistory } from './ConversationHistory';
+import { QuizPanel } from './QuizPanel';
+import { ExamSimulator } from './ExamSimulator';
+import { FlashcardDeck } from './FlashcardDeck';
+import { LessonPicker } from './LessonPicker';
+import { HomeworkLog } from './HomeworkLog';
+import { HandoutExport } from './HandoutExport';
 import LiveVoiceModal from "../LiveVoiceModal";
-import { Send, Sparkles, ChevronRight, HelpCircle, FileText, Lightbulb, Bot, List, Printer, Mic, Camera, Paperclip, X, Image as ImageIcon, AudioLines, StopCircle, BrainCircuit, Globe } from 'lucide-react';
+import { Send, Sparkles, ChevronRight, HelpCircle, FileText, Lightbulb, Bot, List, FileDown, Mic, Camera, Paperclip, X, Image as ImageIcon, AudioLines, StopCircle, BrainCircuit, Globe, History, ListChecks, ClipboardList, Layers, BookOpen, Zap, ListOrdered, MessageCircleQuestion, Sprout, NotebookPen, KeyRound, CheckCircle2 } from 'lucide-react';
 
 interface ChatInterfaceProps {
   grade: GradeLevel;
   subject: Subject;
+  track?: Track;
+  startLessonId?: string; // opened from a mastery map recommendation: start that lesson instead of the last conversation
   onBack: () => void;
 }
 
@@ -15,14 +30,16 @@ const SUGGESTIONS = [
   { 
     label: 'اختر درساً للشرح', 
     icon: <List size={18} />, 
-    promptPrefix: 'اعرض لي قائمة بعناوين وحدات ودروس المنهج لأختار منها ما أريد شرحه.',
-    autoSend: true 
+    promptPrefix: '',
+    autoSend: false,
+    opensLessonPicker: true
   },
   { 
     label: 'أسئلة تدريبية', 
     icon: <HelpCircle size={18} />, 
-    promptPrefix: 'أعطني أسئلة تدريبية عن: ',
-    autoSend: false
+    promptPrefix: '',
+    autoSend: false,
+    opensQuiz: true
   },
   { 
     label: 'لخص المفهوم', 
@@ -38,15 +55,34 @@ const SUGGESTIONS = [
   },
 ];
 
-export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, onBack }) => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      text: `أهلاً بك يا بطل في مادة **${subject}**! 🚀\n\nأنا جاهز لمساعدتك. يمكنك تصوير مسألة من الكتاب 📸، أو تسجيل سؤالك بصوتك 🎙️، أو الكتابة لي.\n\n💡 *نصيحة: يمكنك الضغط على أي سطر في إجابتي للسؤال عنه فوراً.*`,
-      sender: Sender.BOT,
-      timestamp: new Date(),
-    },
-  ]);
+const TEACHING_MODE_ICONS: Record<ExplanationStyle, React.ReactNode> = {
+  concise: <Zap size={22} />,
+  detailed: <ListOrdered size={22} />,
+  socratic: <MessageCircleQuestion size={22} />,
+  simplified: <Sprout size={22} />,
+};
+
+const createWelcomeMessage = (subject: Subject): Message => ({
+  id: '1',
+  text: `أهلاً بك يا بطل في مادة **${subject}**! 🚀\n\nأنا جاهز لمساعدتك. يمكنك تصوير مسألة من الكتاب 📸، أو تسجيل سؤالك بصوتك 🎙️، أو الكتابة لي.\n\n💡 *نصيحة: يمكنك الضغط على أي سطر في إجابتي للسؤال عنه فوراً.*`,
+  sender: Sender.BOT,
+  timestamp: new Date(),
+});
+
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, track, startLessonId, onBack }) => {
+  const [messages, setMessages] = useState<Message[]>([createWelcomeMessage(subject)]);
+  const [conversationId, setConversationId] = useState(createConversationId);
+  const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isQuizOpen, setIsQuizOpen] = useState(false);
+  const [isExamOpen, setIsExamOpen] = useState(false);
+  const [isDeckOpen, setIsDeckOpen] = useState(false);
+  const [isLessonPickerOpen, setIsLessonPickerOpen] = useState(false);
+  const [isHandoutOpen, setIsHandoutOpen] = useState(false);
+  const [lessonId, setLessonId] = useState<string | undefined>();
+  const lesson = lessonId ? findLesson(grade, subject, lessonId) : undefined;
+  const [flashcardNotice, setFlashcardNotice] = useState('');
+  const [historyVersion, setHistoryVersion] = useState(0);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [attachment, setAttachment] = useState<Attachment | null>(null);
@@ -55,6 +91,14 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
   
   const [isThinkingMode, setIsThinkingMode] = useState(false);
   const [isSearchMode, setIsSearchMode] = useState(false);
+  // Starts from the style chosen in onboarding and can be switched for any question
+  const [teachingMode, setTeachingMode] = useState<ExplanationStyle>(() => loadProfile().explanationStyle || 'concise');
+  const [isModeMenuOpen, setIsModeMenuOpen] = useState(false);
+  // Homework mode: the next message is a problem the tutor helps with through hints instead of solving it
+  const [isHomeworkMode, setIsHomeworkMode] = useState(false);
+  const [homework, setHomework] = useState<HomeworkProblem | null>(null);
+  const [isHomeworkLogOpen, setIsHomeworkLogOpen] = useState(false);
+  const [homeworkVersion, setHomeworkVersion] = useState(0);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -68,6 +112,59 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
 
   useEffect(() => { scrollToBottom(); }, [messages, attachment]);
 
+  // Reopen the most recent conversation for this grade/subject
+  useEffect(() => {
+    const startLesson = startLessonId && findLesson(grade, subject, startLessonId);
+    if (startLesson) {
+      setIsHistoryLoaded(true);
+      startLessonConversation(startLesson);
+      return;
+    }
+    listConversations(grade, subject)
+      .then(conversations => { if (conversations[0]) openConversation(conversations[0]); })
+      .catch(e => console.error("History Load Error:", e))
+      .finally(() => setIsHistoryLoaded(true));
+  }, [grade, subject]);
+
+  // Persist once a reply has finished streaming (the welcome-only state is not worth saving)
+  useEffect(() => {
+    if (!isHistoryLoaded) return;
+    if (messages.some(m => m.isStreaming) || !messages.some(m => m.sender === Sender.USER)) return;
+    saveConversation(conversationId, grade, subject, messages, lessonId, track)
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(e => console.error("History Save Error:", e));
+  }, [messages, isHistoryLoaded]);
+
+  const openConversation = (conversation: Conversation) => {
+    setConversationId(conversation.id);
+    setMessages(conversation.messages);
+    setLessonId(conversation.lessonId);
+    setHomework(null);
+    setIsHistoryOpen(false);
+  };
+
+  const startNewConversation = () => {
+    setConversationId(createConversationId());
+    setMessages([createWelcomeMessage(subject)]);
+    setLessonId(undefined);
+    setHomework(null);
+    setIsHistoryOpen(false);
+  };
+
+  // A picked lesson gets its own conversation, scoped to that lesson from the first message
+  const startLessonConversation = (picked: CurriculumLesson) => {
+    const welcome = createWelcomeMessage(subject);
+    setIsLessonPickerOpen(false);
+    setConversationId(createConversationId());
+    setMessages([welcome]);
+    setLessonId(picked.id);
+    handleSend(`اشرح لي درس: ${picked.title}`, [welcome], picked.id);
+  };
+
+  const handleConversationDeleted = (id: string) => {
+    if (id === conversationId) startNewConversation();
+  };
+
   const processFile = (file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
@@ -114,11 +211,50 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
     }
   };
 
-  const handleSend = async (text: string = inputValue) => {
+  // Records the turn on the current problem (starting one if needed) and returns what the tutor may give away
+  const advanceHomework = async (action: 'step' | 'hint' | 'reveal', problemText: string, hasImage: boolean): Promise<HomeworkTurn> => {
+    let problem = homework;
+    try {
+      if (!problem) problem = await startHomeworkProblem(grade, subject, conversationId, problemText, hasImage, track);
+      else if (action === 'hint') problem = await updateHomeworkProblem(problem, { hintsUsed: Math.min(problem.hintsUsed + 1, MAX_HINT_LEVEL) });
+      else if (action === 'reveal') problem = await updateHomeworkProblem(problem, { status: 'revealed' });
+      else problem = await updateHomeworkProblem(problem, { stepsChecked: problem.stepsChecked + 1 });
+      setHomework(problem);
+      setHomeworkVersion(v => v + 1);
+    } catch (e) {
+      console.error("Homework Save Error:", e);
+    }
+    return { hintLevel: problem?.hintsUsed ?? 0, revealSolution: problem?.status === 'revealed' };
+  };
+
+  const finishHomework = async (status?: 'solved') => {
+    if (homework && status) {
+      await updateHomeworkProblem(homework, { status }).catch(e => console.error("Homework Save Error:", e));
+      setHomeworkVersion(v => v + 1);
+    }
+    setHomework(null);
+  };
+
+  const toggleHomework = () => {
+    if (isHomeworkMode) finishHomework();
+    setIsHomeworkMode(!isHomeworkMode);
+  };
+
+  const requestSolution = () => {
+    if (!confirm('عرض الحل الكامل سيُسجل في سجل الواجبات. هل تريد الحل؟')) return;
+    handleSend('اعرض لي الحل كاملاً', messages, lessonId, 'reveal');
+  };
+
+  const handleSend = async (
+    text: string = inputValue,
+    history: Message[] = messages,
+    activeLessonId: string | undefined = lessonId,
+    homeworkAction: 'step' | 'hint' | 'reveal' = 'step'
+  ) => {
     if ((!text.trim() && !attachment) || isLoading) return;
     let finalText = text;
     if (!finalText.trim() && attachment) {
-      if (attachment.type === 'image') finalText = "اشرح هذه الصورة";
+      if (attachment.type === 'image') finalText = isHomeworkMode ? "ساعدني أحل هذه المسألة بنفسي" : "اشرح هذه الصورة";
       else if (attachment.type === 'audio') finalText = "استمع وأجب";
       else finalText = "اشرح هذا الملف";
     }
@@ -128,13 +264,15 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
     setAttachment(null);
     setIsLoading(true);
     try {
+      const homeworkTurn = isHomeworkMode ? await advanceHomework(homeworkAction, text, attachment?.type === 'image') : undefined;
       const botMessageId = (Date.now() + 1).toString();
       const initialBotMessage: Message = { id: botMessageId, text: '', sender: Sender.BOT, timestamp: new Date(), isStreaming: true };
       setMessages(prev => [...prev, initialBotMessage]);
-      await generateStreamResponse(finalText, grade, subject, messages, chunk => {
+      await generateStreamResponse(finalText, grade, subject, history, chunk => {
         setMessages(prev => prev.map(m => m.id === botMessageId ? { ...m, text: chunk } : m));
-      }, userMessage.attachment, { useThinking: isThinkingMode, useSearch: isSearchMode });
+      }, userMessage.attachment, { useThinking: isThinkingMode, useSearch: isSearchMode, teachingMode, homework: homeworkTurn }, activeLessonId, track);
       setMessages(prev => prev.map(m => m.id === botMessageId ? { ...m, isStreaming: false } : m));
+      recordChatActivity(grade, subject, finalText, track, activeLessonId).catch(e => console.error("Progress Error:", e));
     } catch(e) {
       console.error(e);
     } finally {
@@ -142,17 +280,74 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
     }
   };
 
-  const handleSuggestionClick = (suggestion: typeof SUGGESTIONS[0]) => {
-    if (suggestion.autoSend) handleSend(suggestion.promptPrefix);
+  const handleSuggestionClick = (suggestion: typeof SUGGESTIONS[number]) => {
+    if ('opensLessonPicker' in suggestion) setIsLessonPickerOpen(true);
+    else if ('opensQuiz' in suggestion) setIsQuizOpen(true);
+    else if (suggestion.autoSend) handleSend(suggestion.promptPrefix);
     else { setInputValue(suggestion.promptPrefix); inputRef.current?.focus(); }
   };
 
+  // A whole answer becomes a card against the question that produced it; a term or quote is turned into a card by the model
+  const handleSaveFlashcard = async (msg: Message, source: Exclude<FlashcardSource, 'lesson'>, text: string) => {
+    const answer = msg.text.replace(/```[\s\S]*?```/g, '').trim();
+    let draft: FlashcardDraft | null;
+    if (source === 'answer') {
+      const index = messages.findIndex(m => m.id === msg.id);
+      const question = messages.slice(0, index).reverse().find(m => m.sender === Sender.USER);
+      draft = { front: question?.text || answer.substring(0, 80), back: answer.substring(0, 600) };
+    } else {
+      setFlashcardNotice('جاري تجهيز البطاقة...');
+      draft = (await draftFlashcard(subject, text, answer)) || { front: text, back: answer.substring(0, 300) };
+    }
+    try {
+      const added = await addFlashcards(grade, subject, [draft], source);
+      setFlashcardNotice(added > 0 ? 'تم حفظ البطاقة ✅' : 'هذه البطاقة موجودة بالفعل');
+    } catch (e) {
+      console.error("Flashcard Save Error:", e);
+      setFlashcardNotice('تعذر حفظ البطاقة');
+    }
+    setTimeout(() => setFlashcardNotice(''), 2500);
+  };
+
   const toggleThinking = () => { setIsThinkingMode(!isThinkingMode); if (!isThinkingMode) setIsSearchMode(false); };
   const toggleSearch = () => { setIsSearchMode(!isSearchMode); if (!isSearchMode) setIsThinkingMode(false); };
 
   return (
     <div className="flex flex-col h-screen bg-slate-50 chat-container">
-      <LiveVoiceModal isOpen={isLiveMode} onClose={() => setIsLiveMode(false)} grade={grade} subject={subject} />
+      <LiveVoiceModal isOpen={isLiveMode} onClose={() => setIsLiveMode(false)} grade={grade} subject={subject} track={track} />
+      <ConversationHistory
+        isOpen={isHistoryOpen}
+        grade={grade}
+        subject={subject}
+        activeId={conversationId}
+        refreshKey={historyVersion}
+        onClose={() => setIsHistoryOpen(false)}
+        onSelect={openConversation}
+        onNew={startNewConversation}
+        onDeleted={handleConversationDeleted}
+      />
+      <QuizPanel isOpen={isQuizOpen} grade={grade} subject={subject} track={track} onClose={() => setIsQuizOpen(false)} />
+      <ExamSimulator isOpen={isExamOpen} grade={grade} subject={subject} track={track} onClose={() => setIsExamOpen(false)} />
+      <LessonPicker
+        isOpen={isLessonPickerOpen}
+        grade={grade}
+        subject={subject}
+        track={track}
+        activeLessonId={lessonId}
+        onClose={() => setIsLessonPickerOpen(false)}
+        onPick={startLessonConversation}
+      />
+      <HomeworkLog isOpen={isHomeworkLogOpen} grade={grade} subject={subject} track={track} refreshKey={homeworkVersion} onClose={() => setIsHomeworkLogOpen(false)} />
+      <FlashcardDeck isOpen={isDeckOpen} grade={grade} subject={subject} track={track} onClose={() => setIsDeckOpen(false)} />
+      <HandoutExport
+        isOpen={isHandoutOpen}
+        grade={grade}
+        subject={subject}
+        track={track}
+        lesson={lesson}
+        messages={messages}
+        onClose={() => setIsHandoutOpen(false)}
+      />
       <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" accept="image/*,application/pdf" />
       <input type="file" ref={cameraInputRef} onChange={handleFileSelect} className="hidden" accept="image/*" capture="environment" />
 
@@ -163,11 +358,23 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
           </button>
           <div className="min-w-0">
             <h1 className="text-lg md:text-2xl font-bold text-slate-800 truncate">{subject}</h1>
-            <p className="text-xs md:text-sm text-slate-500 font-medium truncate">{grade}</p>
+            <p className="text-xs md:text-sm text-slate-500 font-medium truncate">{track ? `${grade} • ${track}` : grade}</p>
+            {lesson && (
+              <div className="mt-1 inline-flex items-center gap-1 max-w-full bg-indigo-50 text-indigo-700 border border-indigo-100 rounded-full pr-2 pl-1 py-0.5 text-xs font-bold">
+                <button onClick={() => setIsLessonPickerOpen(true)} className="flex items-center gap-1 min-w-0" title="تغيير الدرس">
+                  <BookOpen size={12} className="shrink-0" /><span className="truncate">{lesson.title}</span>
+                </button>
+                <button onClick={() => setLessonId(undefined)} className="p-0.5 hover:bg-indigo-100 rounded-full shrink-0" title="إلغاء تحديد الدرس"><X size={12} /></button>
+              </div>
+            )}
           </div>
         </div>
         <div className="flex items-center gap-1 md:gap-2 shrink-0">
-          <button onClick={() => window.print()} className="p-2 text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-all hover:scale-110 active:scale-95"><Printer size={20} /></button>
+          <button onClick={() => setIsHistoryOpen(true)} className="p-2 text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-all hover:scale-110 active:scale-95" title="المحادثات السابقة"><History size={20} /></button>
+          <button onClick={() => setIsQuizOpen(true)} className="p-2 text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-all hover:scale-110 active:scale-95" title="اختبار قصير"><ListChecks size={20} /></button>
+          <button onClick={() => setIsExamOpen(true)} className="p-2 text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-all hover:scale-110 active:scale-95" title="امتحان تجريبي"><ClipboardList size={20} /></button>
+          <button onClick={() => setIsDeckOpen(true)} className="p-2 text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-all hover:scale-110 active:scale-95" title="بطاقات المراجعة"><Layers size={20} /></button>
+          <button onClick={() => setIsHandoutOpen(true)} className="p-2 text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-all hover:scale-110 active:scale-95" title="تصدير مذكرة PDF"><FileDown size={20} /></button>
           <div className="bg-indigo-50 px-2.5 py-1 md:px-3 md:py-1.5 rounded-full flex items-center gap-1.5 border border-indigo-100">
             <Sparkles size={16} className="text-indigo-600" />
             <span className="text-xs md:text-sm font-bold text-indigo-700">معلم ذكي</span>
@@ -189,10 +396,13 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
                 </div>
               </div>
             )}
-            <MessageBubble message={msg} subject={subject} onTermClick={t => setInputValue(t)} onQuote={q => q && setInputValue(`اشرح لي: "${q.substring(0,150)}"`)} />
+            <MessageBubble message={msg} subject={subject} onTermClick={t => setInputValue(t)} onQuote={q => q && setInputValue(`اشرح لي: "${q.substring(0,150)}"`)} onSaveFlashcard={(source, text) => handleSaveFlashcard(msg, source, text)} />
           </div>
         ))}
         {isLoading && <div className="text-slate-500 font-bold">جاري التحميل...</div>}
+        {flashcardNotice && (
+          <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-30 bg-slate-800 text-white text-sm font-bold px-4 py-2 rounded-full shadow-lg pop-in no-print">{flashcardNotice}</div>
+        )}
         <div ref={messagesEndRef} />
       </div>
 
@@ -205,17 +415,84 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
                 ? (<div className="h-14 w-14 bg-red-100 rounded-xl flex items-center justify-center text-red-500 border-2 border-red-200"><Mic size={24} /></div>)
                 : (<div className="h-14 w-14 bg-blue-100 rounded-xl flex items-center justify-center text-blue-500 border-2 border-blue-200"><FileText size={24} /></div>)}
             <div className="text-sm text-slate-700 font-bold max-w-[200px] truncate">{attachment.name || 'مرفق'}</div>
+            {attachment.type === 'image' && !isHomeworkMode && (
+              <button onClick={toggleHomework} className="text-xs font-bold text-rose-700 bg-rose-50 hover:bg-rose-100 border border-rose-200 px-3 py-1.5 rounded-full flex items-center gap-1">
+                <NotebookPen size={14} />واجب؟ ساعدني أحلها بنفسي
+              </button>
+            )}
           </div>
           <button onClick={() => setAttachment(null)} className="p-2 bg-white rounded-full hover:bg-red-50 text-slate-400 hover:text-red-500 transition-all hover:rotate-90"><X size={20} /></button>
         </div>
       )}
 
+      {isHomeworkMode && (
+        <div className="px-4 py-2.5 bg-rose-50 border-t border-rose-100 flex items-center gap-2 flex-wrap text-sm no-print">
+          <NotebookPen size={18} className="text-rose-600 shrink-0" />
+          {homework ? (
+            <>
+              <span className="font-bold text-rose-800">
+                {homework.status === 'revealed' ? 'تم عرض الحل' : `تلميحات ${homework.hintsUsed} من ${MAX_HINT_LEVEL}`} • خطوات {homework.stepsChecked}
+              </span>
+              <div className="flex gap-1.5 mr-auto flex-wrap">
+                {homework.status !== 'revealed' && (
+                  <>
+                    <button
+                      onClick={() => handleSend('أعطني تلميحاً', messages, lessonId, 'hint')}
+                      disabled={isLoading || homework.hintsUsed >= MAX_HINT_LEVEL}
+                      className="px-3 py-1.5 rounded-full bg-white border border-rose-200 text-rose-700 font-bold hover:bg-rose-100 disabled:opacity-40 flex items-center gap-1"
+                    >
+                      <Lightbulb size={14} />
+                      {homework.hintsUsed < MAX_HINT_LEVEL ? `تلميح: ${HINT_LEVEL_LABELS[homework.hintsUsed + 1]}` : 'انتهت التلميحات'}
+                    </button>
+                    <button onClick={requestSolution} disabled={isLoading} className="px-3 py-1.5 rounded-full bg-white border border-slate-200 text-slate-600 font-bold hover:bg-slate-100 disabled:opacity-40 flex items-center gap-1">
+                      <KeyRound size={14} />اعرض الحل
+                    </button>
+                    <button onClick={() => finishHomework('solved')} disabled={isLoading} className="px-3 py-1.5 rounded-full bg-emerald-600 text-white font-bold hover:bg-emerald-700 disabled:opacity-40 flex items-center gap-1">
+                      <CheckCircle2 size={14} />وصلت للحل
+                    </button>
+                  </>
+                )}
+                <button onClick={() => finishHomework()} className="px-3 py-1.5 rounded-full text-slate-500 font-bold hover:bg-white">مسألة جديدة</button>
+              </div>
+            </>
+          ) : (
+            <span className="text-rose-800 flex-1">صوّر المسألة أو اكتبها، وسأساعدك خطوة بخطوة بالتلميحات دون أن أحلها عنك.</span>
+          )}
+          <button onClick={() => setIsHomeworkLogOpen(true)} className="px-3 py-1.5 rounded-full text-rose-700 font-bold hover:bg-white">السجل</button>
+        </div>
+      )}
+
       <div className="p-3 md:p-4 bg-white border-t border-slate-200 shrink-0 input-area">
         <div className="flex items-end gap-2">
           <div className="flex items-center gap-1.5 pb-2">
             <button onClick={() => setIsLiveMode(true)} className="p-2.5 md:p-3 rounded-full bg-indigo-50 text-indigo-600 hover:bg-indigo-600 hover:text-white transition-all shadow-sm ring-1 ring-indigo-100 hover:scale-110 active:scale-95 hidden sm:flex"><AudioLines size={22} /></button>
             <button onClick={toggleThinking} className={`p-2.5 md:p-3 rounded-full transition-all hover:scale-110 active:scale-95 border ${isThinkingMode ? 'bg-amber-100 text-amber-700 border-amber-300 ring-2 ring-amber-100' : 'bg-slate-100 text-slate-500 border-transparent hover:bg-indigo-100 hover:text-indigo-600'}`}><BrainCircuit size={22} /></button>
             <button onClick={toggleSearch} className={`p-2.5 md:p-3 rounded-full transition-all hover:scale-110 active:scale-95 border ${isSearchMode ? 'bg-emerald-100 text-emerald-700 border-emerald-300 ring-2 ring-emerald-100' : 'bg-slate-100 text-slate-500 border-transparent hover:bg-indigo-100 hover:text-indigo-600'}`}><Globe size={22} /></button>
+            <button onClick={toggleHomework} className={`p-2.5 md:p-3 rounded-full transition-all hover:scale-110 active:scale-95 border ${isHomeworkMode ? 'bg-rose-100 text-rose-700 border-rose-300 ring-2 ring-rose-100' : 'bg-slate-100 text-slate-500 border-transparent hover:bg-indigo-100 hover:text-indigo-600'}`} title="مساعدة الواجب بالتلميحات"><NotebookPen size={22} /></button>
+            <div className="relative">
+              <button
+                onClick={() => setIsModeMenuOpen(!isModeMenuOpen)}
+                className={`p-2.5 md:p-3 rounded-full transition-all hover:scale-110 active:scale-95 border ${teachingMode !== 'concise' ? 'bg-sky-100 text-sky-700 border-sky-300 ring-2 ring-sky-100' : 'bg-slate-100 text-slate-500 border-transparent hover:bg-indigo-100 hover:text-indigo-600'}`}
+                title={`أسلوب الشرح: ${EXPLANATION_STYLE_LABELS[teachingMode]}`}
+              >
+                {TEACHING_MODE_ICONS[teachingMode]}
+              </button>
+              {isModeMenuOpen && (
+                <div className="absolute bottom-full mb-2 right-0 z-30 w-60 bg-white rounded-2xl shadow-xl border border-slate-200 p-1.5 pop-in">
+                  <p className="px-3 py-1.5 text-xs font-bold text-slate-400">أسلوب الشرح</p>
+                  {(Object.keys(EXPLANATION_STYLE_LABELS) as ExplanationStyle[]).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => { setTeachingMode(mode); setIsModeMenuOpen(false); inputRef.current?.focus(); }}
+                      className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-right text-sm font-bold transition-colors ${teachingMode === mode ? 'bg-sky-50 text-sky-700' : 'text-slate-700 hover:bg-slate-50'}`}
+                    >
+                      {TEACHING_MODE_ICONS[mode]}
+                      {EXPLANATION_STYLE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
             <button onClick={() => cameraInputRef.current?.click()} className="p-2.5 md:p-3 rounded-full bg-slate-100 text-slate-500 hover:bg-indigo-100 hover:text-indigo-600 transition-all hover:scale-110 active:scale-95 hidden sm:flex"><Camera size={22} /></button>
             <button onClick={() => fileInputRef.current?.click()} className="p-2.5 md:p-3 rounded-full bg-slate-100 text-slate-500 hover:bg-indigo-100 hover:text-indigo-600 transition-all hover:scale-110 active:scale-95"><Paperclip size={22} /></button>
           </div>
@@ -225,7 +502,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ grade, subject, on
             value={inputValue}
             onChange={e => setInputValue(e.target.value)}
             onKeyDown={e => { if(e.key === 'Enter' && !e.shiftKey){ e.preventDefault(); handleSend(); }}}
-            placeholder={isRecording ? "جاري التسجيل..." : isThinkingMode ? "اكتب مسألة صعبة..." : isSearchMode ? "ابحث عن معلومة..." : "اكتب سؤالك هنا..."}
+            placeholder={isRecording ? "جاري التسجيل..." : isHomeworkMode ? (homework ? "اكتب خطوتك أو إجابتك لأراجعها..." : "اكتب المسألة أو صوّرها...") : isThinkingMode ? "اكتب مسألة صعبة..." : isSearchMode ? "ابحث عن معلومة..." : "اكتب سؤالك هنا..."}
             disabled={isRecording}
             className={`flex-1 bg-slate-50 text-slate-900 border rounded-2xl px-4 py-3.5 focus:outline-none focus:ring-2 focus:border-transparent resize-none h-[56px] md:h-[64px] text-base md:text-lg shadow-inner font-medium leading-normal transition-all ${isThinkingMode ? 'border-amber-300 focus:ring-amber-500' : isSearchMode ? 'border-emerald-300 focus:ring-emerald-500' : 'border-slate-300 focus:ring-indigo-500'}`}
           />
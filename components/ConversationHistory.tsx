@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { Conversation, GradeLevel, Subject } from '../types';
+import { listConversations, renameConversation, deleteConversation } from '../services/chatStorage';
+import { X, Search, Plus, Pencil, Trash2, Check, MessageSquare } from 'lucide-react';
+
+interface ConversationHistoryProps {
+  isOpen: boolean;
+  grade: GradeLevel;
+  subject: Subject;
+  activeId: string;
+  refreshKey: number;
+  onClose: () => void;
+  onSelect: (conversation: Conversation) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+}
+
+export const ConversationHistory: React.FC<ConversationHistoryProps> = ({ isOpen, grade, subject, activeId, refreshKey, onClose, onSelect, onNew, onDeleted }) => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const loadConversations = async () => {
+    try {
+      setConversations(await listConversations(grade, subject));
+    } catch (e) {
+      console.error("History Load Error:", e);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) loadConversations();
+  }, [isOpen, grade, subject, refreshKey]);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const submitRename = async () => {
+    if (!editingId) return;
+    await renameConversation(editingId, editingTitle);
+    setEditingId(null);
+    loadConversations();
+  };
+
+  const handleDelete = async (conversation: Conversation) => {
+    if (!confirm(`حذف المحادثة "${conversation.title}"؟`)) return;
+    await deleteConversation(conversation.id);
+    onDeleted(conversation.id);
+    loadConversations();
+  };
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const filtered = normalizedQuery
+    ? conversations.filter(c =>
+        c.title.toLowerCase().includes(normalizedQuery) ||
+        c.messages.some(m => m.text.toLowerCase().includes(normalizedQuery)))
+    : conversations;
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex no-print" dir="rtl">
+      <div className="w-80 max-w-[85%] h-full bg-white shadow-2xl flex flex-col pop-in">
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+          <div>
+            <h2 className="font-bold text-slate-800 text-lg">المحادثات السابقة</h2>
+            <p className="text-xs text-slate-500 font-medium">{subject}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500"><X size={20} /></button>
+        </div>
+
+        <div className="p-3 space-y-2 border-b border-slate-100">
+          <button
+            onClick={onNew}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2.5 rounded-xl flex items-center justify-center gap-2 transition-all"
+          >
+            <Plus size={18} />
+            محادثة جديدة
+          </button>
+          <div className="relative">
+            <Search size={16} className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="ابحث في المحادثات..."
+              className="w-full bg-slate-50 border border-slate-200 rounded-xl pr-9 pl-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {filtered.length === 0 && (
+            <p className="text-center text-sm text-slate-400 mt-8">لا توجد محادثات محفوظة</p>
+          )}
+          {filtered.map(conversation => (
+            <div
+              key={conversation.id}
+              className={`group rounded-xl p-3 border transition-all ${conversation.id === activeId ? 'bg-indigo-50 border-indigo-200' : 'bg-white border-transparent hover:bg-slate-50'}`}
+            >
+              {editingId === conversation.id ? (
+                <div className="flex items-center gap-1">
+                  <input
+                    autoFocus
+                    value={editingTitle}
+                    onChange={e => setEditingTitle(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') submitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                    className="flex-1 min-w-0 border border-indigo-300 rounded-lg px-2 py-1 text-sm focus:outline-none"
+                  />
+                  <button onClick={submitRename} className="p-1.5 text-emerald-600 hover:bg-emerald-50 rounded-lg"><Check size={16} /></button>
+                </div>
+              ) : (
+                <div className="flex items-start gap-2">
+                  <button onClick={() => onSelect(conversation)} className="flex-1 min-w-0 text-right flex items-start gap-2">
+                    <MessageSquare size={16} className="text-indigo-500 mt-1 shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-bold text-sm text-slate-800 truncate">{conversation.title}</p>
+                      <p className="text-[11px] text-slate-400 mt-0.5">
+                        {conversation.updatedAt.toLocaleDateString('ar-EG', { day: 'numeric', month: 'short' })} • {conversation.messages.length} رسالة
+                      </p>
+                    </div>
+                  </button>
+                  <div className="flex gap-0.5 opacity-60 group-hover:opacity-100 shrink-0">
+                    <button onClick={() => startRename(conversation)} className="p-1.5 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg" title="إعادة تسمية"><Pencil size={14} /></button>
+                    <button onClick={() => handleDelete(conversation)} className="p-1.5 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg" title="حذف"><Trash2 size={14} /></button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex-1 bg-slate-900/40" onClick={onClose} />
+    </div>
+  );
+};
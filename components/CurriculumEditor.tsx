@@ -0,0 +1,259 @@
+import React, { useState, useRef } from 'react';
+import { BookOpen, Plus, Trash2, ChevronUp, ChevronDown, Save, Undo2, RotateCcw, FileSpreadsheet, Upload, Download, FileJson, SlidersHorizontal } from 'lucide-react';
+import { GradeLevel, Subject, Track } from '../types';
+import {
+  CurriculumDocument, CurriculumLesson, CurriculumTerm, CurriculumUnit, SubjectCurriculum, CURRICULUM_TERM_LABELS, SUBJECTS_BY_GRADE, TRACKS_BY_GRADE, getSubjectsFor,
+  getCurriculumDocument, hasCurriculumOverride, saveCurriculumOverride, clearCurriculumOverride, validateCurriculum,
+} from '../curriculum';
+import { createUnit, createLesson, retireRemovedIds, curriculumToJson, parseCurriculumJson, curriculumToCsv, importCurriculumCsv } from '../services/curriculumEditor';
+import { downloadFile, readFileAsText, dateStamp } from '../services/fileTransfer';
+
+const LIST_FIELDS: { key: 'objectives' | 'keyTerms' | 'formulas'; label: string }[] = [
+  { key: 'objectives', label: 'أهداف الدرس' },
+  { key: 'keyTerms', label: 'المصطلحات' },
+  { key: 'formulas', label: 'القوانين' },
+];
+
+const moveItem = <T,>(list: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= list.length) return list;
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+const inputClass = 'bg-slate-900 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-amber-500';
+const iconButtonClass = 'p-1.5 text-slate-500 hover:text-white hover:bg-slate-700 rounded disabled:opacity-30 disabled:hover:bg-transparent';
+
+export const CurriculumEditor: React.FC = () => {
+  const [draft, setDraft] = useState<CurriculumDocument>(() => structuredClone(getCurriculumDocument()));
+  const [isDirty, setIsDirty] = useState(false);
+  const [isOverridden, setIsOverridden] = useState(hasCurriculumOverride);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [grade, setGrade] = useState<GradeLevel>(GradeLevel.GRADE_12);
+  const [subject, setSubject] = useState<Subject>(SUBJECTS_BY_GRADE[GradeLevel.GRADE_12][0]);
+  // Blank edits the curriculum shared by every track
+  const [track, setTrack] = useState<Track | ''>('');
+  const [openLessonId, setOpenLessonId] = useState<string | null>(null);
+  const jsonInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const isSelected = (entry: SubjectCurriculum) => entry.grade === grade && entry.subject === subject && (entry.track || '') === track;
+  const units = draft.subjects.find(isSelected)?.units || [];
+  const subjectTracks = TRACKS_BY_GRADE[grade].filter(t => getSubjectsFor(grade, t).includes(subject));
+  const defaultTerm: CurriculumTerm = grade === GradeLevel.GRADE_12 ? 'full_year' : 'first';
+
+  const changeDraft = (next: CurriculumDocument) => {
+    setDraft(retireRemovedIds(draft, next));
+    setIsDirty(true);
+    setIssues([]);
+  };
+
+  // Every edit goes through the units of the selected grade/subject/track, creating its entry on first use
+  // and dropping it once its last unit is deleted (an empty track curriculum would hide the shared one)
+  const updateUnits = (update: (units: CurriculumUnit[]) => CurriculumUnit[]) => {
+    const subjects = draft.subjects.some(isSelected)
+      ? draft.subjects.map(entry => isSelected(entry) ? { ...entry, units: update(entry.units) } : entry)
+      : [...draft.subjects, { grade, subject, ...(track && { track }), units: update([]) }];
+    changeDraft({ ...draft, subjects: subjects.filter(entry => entry.units.length > 0 || !isSelected(entry)) });
+  };
+
+  const updateUnit = (unitId: string, update: (unit: CurriculumUnit) => CurriculumUnit) =>
+    updateUnits(list => list.map(unit => unit.id === unitId ? update(unit) : unit));
+
+  const updateLesson = (unitId: string, lessonId: string, changes: Partial<CurriculumLesson>) =>
+    updateUnit(unitId, unit => ({ ...unit, lessons: unit.lessons.map(l => l.id === lessonId ? { ...l, ...changes } : l) }));
+
+  const moveLessonToUnit = (fromUnitId: string, lesson: CurriculumLesson, toUnitId: string) =>
+    updateUnits(list => list.map(unit => {
+      if (unit.id === fromUnitId) return { ...unit, lessons: unit.lessons.filter(l => l.id !== lesson.id) };
+      if (unit.id === toUnitId) return { ...unit, lessons: [...unit.lessons, lesson] };
+      return unit;
+    }));
+
+  const deleteLesson = (unit: CurriculumUnit, lesson: CurriculumLesson) => {
+    if (!confirm(`حذف درس "${lesson.title}"؟ تقدم الطلاب المسجل عليه لن يظهر بعد الآن.`)) return;
+    updateUnit(unit.id, u => ({ ...u, lessons: u.lessons.filter(l => l.id !== lesson.id) }));
+  };
+
+  const deleteUnit = (unit: CurriculumUnit) => {
+    if (!confirm(`حذف "${unit.title}" بكل دروسها (${unit.lessons.length})؟`)) return;
+    updateUnits(list => list.filter(u => u.id !== unit.id));
+  };
+
+  const handleSave = () => {
+    const found = saveCurriculumOverride(draft);
+    setIssues(found);
+    if (found.length > 0) return;
+    setIsDirty(false);
+    setIsOverridden(true);
+    alert('تم حفظ المنهج ✅');
+  };
+
+  const handleDiscard = () => {
+    if (isDirty && !confirm('تجاهل كل التعديلات غير المحفوظة؟')) return;
+    setDraft(structuredClone(getCurriculumDocument()));
+    setIsDirty(false);
+    setIssues([]);
+  };
+
+  const handleRestoreBuiltIn = () => {
+    if (!confirm('حذف المنهج المعدل والرجوع للمنهج المدمج في التطبيق؟')) return;
+    clearCurriculumOverride();
+    setDraft(structuredClone(getCurriculumDocument()));
+    setIsOverridden(false);
+    setIsDirty(false);
+    setIssues([]);
+  };
+
+  // An imported file replaces the draft only; it is saved with the usual validation
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>, parse: (text: string) => CurriculumDocument) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parse(await readFileAsText(file));
+      changeDraft(imported);
+      setIssues(validateCurriculum(imported));
+    } catch (err) {
+      console.error("Curriculum Import Error:", err);
+      alert("الملف غير صالح.");
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-2xl shadow-xl border border-slate-700 p-6">
+      <input type="file" ref={jsonInputRef} onChange={e => handleImport(e, parseCurriculumJson)} className="hidden" accept=".json,application/json" />
+      <input type="file" ref={csvInputRef} onChange={e => handleImport(e, text => importCurriculumCsv(text, draft))} className="hidden" accept=".csv,text/csv" />
+
+      <div className="flex items-center justify-between mb-4 gap-2 flex-wrap">
+        <h3 className="text-amber-400 font-bold flex items-center gap-2 text-sm uppercase tracking-wider">
+          <BookOpen size={16} />
+          المنهج الدراسي
+          <span className={`text-[10px] px-1.5 py-0.5 rounded border normal-case ${isOverridden ? 'bg-amber-500/10 text-amber-400 border-amber-500/30' : 'bg-slate-700 text-slate-400 border-slate-600'}`}>
+            {isOverridden ? 'نسخة معدلة' : 'المنهج المدمج'}
+          </span>
+        </h3>
+        <div className="flex gap-1.5 flex-wrap">
+          <button onClick={() => downloadFile(`curriculum-${dateStamp()}.json`, curriculumToJson(draft), 'application/json')} className="text-xs bg-slate-700 hover:bg-slate-600 px-2.5 py-1.5 rounded flex items-center gap-1" title="تصدير JSON"><Download size={14} />JSON</button>
+          <button onClick={() => jsonInputRef.current?.click()} className="text-xs bg-slate-700 hover:bg-slate-600 px-2.5 py-1.5 rounded flex items-center gap-1" title="استيراد JSON"><FileJson size={14} />JSON</button>
+          <button onClick={() => downloadFile(`curriculum-${dateStamp()}.csv`, curriculumToCsv(draft), 'text/csv;charset=utf-8')} className="text-xs bg-slate-700 hover:bg-slate-600 px-2.5 py-1.5 rounded flex items-center gap-1" title="تصدير CSV"><FileSpreadsheet size={14} />CSV</button>
+          <button onClick={() => csvInputRef.current?.click()} className="text-xs bg-slate-700 hover:bg-slate-600 px-2.5 py-1.5 rounded flex items-center gap-1" title="استيراد CSV"><Upload size={14} />CSV</button>
+        </div>
+      </div>
+
+      <div className="flex gap-2 mb-3 flex-wrap">
+        <select
+          value={grade}
+          onChange={e => { const g = e.target.value as GradeLevel; setGrade(g); setSubject(SUBJECTS_BY_GRADE[g][0]); setTrack(''); }}
+          className="bg-slate-900 border border-slate-600 rounded-lg px-2 py-2 text-sm text-white"
+        >
+          {Object.values(GradeLevel).map(g => <option key={g} value={g}>{g}</option>)}
+        </select>
+        <select value={subject} onChange={e => { setSubject(e.target.value as Subject); setTrack(''); }} className="bg-slate-900 border border-slate-600 rounded-lg px-2 py-2 text-sm text-white flex-1 min-w-[140px]">
+          {SUBJECTS_BY_GRADE[grade].map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        {subjectTracks.length > 0 && (
+          <select value={track} onChange={e => setTrack(e.target.value as Track | '')} className="bg-slate-900 border border-slate-600 rounded-lg px-2 py-2 text-sm text-white" title="منهج خاص بشعبة">
+            <option value="">كل الشعب</option>
+            {subjectTracks.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        )}
+        <button
+          onClick={() => updateUnits(list => [...list, createUnit(draft, grade, subject, defaultTerm, track || undefined)])}
+          className="text-xs bg-slate-700 hover:bg-slate-600 px-3 py-2 rounded-lg flex items-center gap-1"
+        >
+          <Plus size={14} />وحدة
+        </button>
+      </div>
+
+      <div className="space-y-3 max-h-[520px] overflow-y-auto">
+        {units.length === 0 && (
+          <p className="text-center text-sm text-slate-500 py-6">
+            {track ? `لا يوجد منهج خاص بشعبة ${track}؛ يدرس طلابها منهج كل الشعب` : 'لا توجد وحدات لهذه المادة'}
+          </p>
+        )}
+        {units.map((unit, u) => (
+          <div key={unit.id} className="bg-slate-900 rounded-lg border border-slate-700 p-3 space-y-2">
+            <div className="flex items-center gap-1">
+              <input
+                value={unit.title}
+                onChange={e => updateUnit(unit.id, current => ({ ...current, title: e.target.value }))}
+                className={`${inputClass} flex-1 font-bold`}
+              />
+              <button onClick={() => updateUnits(list => moveItem(list, u, u - 1))} disabled={u === 0} className={iconButtonClass} title="لأعلى"><ChevronUp size={14} /></button>
+              <button onClick={() => updateUnits(list => moveItem(list, u, u + 1))} disabled={u === units.length - 1} className={iconButtonClass} title="لأسفل"><ChevronDown size={14} /></button>
+              <button onClick={() => deleteUnit(unit)} className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-slate-800 rounded" title="حذف الوحدة"><Trash2 size={14} /></button>
+            </div>
+
+            {unit.lessons.map((lesson, l) => (
+              <div key={lesson.id} className="mr-4 space-y-1.5">
+                <div className="flex items-center gap-1 flex-wrap">
+                  <input
+                    value={lesson.title}
+                    onChange={e => updateLesson(unit.id, lesson.id, { title: e.target.value })}
+                    className={`${inputClass} flex-1 min-w-[180px]`}
+                  />
+                  <select value={lesson.term} onChange={e => updateLesson(unit.id, lesson.id, { term: e.target.value as CurriculumTerm })} className={inputClass}>
+                    {(Object.keys(CURRICULUM_TERM_LABELS) as CurriculumTerm[]).map(term => <option key={term} value={term}>{CURRICULUM_TERM_LABELS[term]}</option>)}
+                  </select>
+                  {units.length > 1 && (
+                    <select value={unit.id} onChange={e => moveLessonToUnit(unit.id, lesson, e.target.value)} className={`${inputClass} max-w-[120px]`} title="نقل إلى وحدة أخرى">
+                      {units.map(target => <option key={target.id} value={target.id}>{target.title}</option>)}
+                    </select>
+                  )}
+                  <button onClick={() => updateUnit(unit.id, current => ({ ...current, lessons: moveItem(current.lessons, l, l - 1) }))} disabled={l === 0} className={iconButtonClass} title="لأعلى"><ChevronUp size={14} /></button>
+                  <button onClick={() => updateUnit(unit.id, current => ({ ...current, lessons: moveItem(current.lessons, l, l + 1) }))} disabled={l === unit.lessons.length - 1} className={iconButtonClass} title="لأسفل"><ChevronDown size={14} /></button>
+                  <button onClick={() => setOpenLessonId(openLessonId === lesson.id ? null : lesson.id)} className={`${iconButtonClass} ${openLessonId === lesson.id ? 'text-amber-400' : ''}`} title="الأهداف والمصطلحات والقوانين"><SlidersHorizontal size={14} /></button>
+                  <button onClick={() => deleteLesson(unit, lesson)} className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-slate-800 rounded" title="حذف الدرس"><Trash2 size={14} /></button>
+                </div>
+                {openLessonId === lesson.id && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                    {LIST_FIELDS.map(field => (
+                      <label key={field.key} className="block">
+                        <span className="text-[11px] text-slate-400">{field.label} (سطر لكل عنصر)</span>
+                        <textarea
+                          value={lesson[field.key].join('\n')}
+                          onChange={e => updateLesson(unit.id, lesson.id, { [field.key]: e.target.value.split('\n') })}
+                          onBlur={e => updateLesson(unit.id, lesson.id, { [field.key]: e.target.value.split('\n').map(line => line.trim()).filter(Boolean) })}
+                          rows={4}
+                          className={`${inputClass} w-full resize-y`}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={() => updateUnit(unit.id, current => ({ ...current, lessons: [...current.lessons, createLesson(draft, unit.id, defaultTerm)] }))}
+              className="mr-4 text-xs text-slate-400 hover:text-amber-400 flex items-center gap-1"
+            >
+              <Plus size={12} />درس
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {issues.length > 0 && (
+        <div className="mt-3 bg-red-900/20 border border-red-700/50 rounded-lg p-3 text-xs text-red-300 max-h-40 overflow-y-auto">
+          <p className="font-bold mb-1">لا يمكن الحفظ قبل إصلاح {issues.length} مشكلة:</p>
+          <ul className="list-disc pr-4 space-y-0.5" dir="ltr">
+            {issues.map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex gap-2 mt-4 flex-wrap">
+        <button onClick={handleSave} disabled={!isDirty} className="flex-1 bg-amber-600 hover:bg-amber-500 disabled:bg-slate-700 disabled:text-slate-500 text-white font-bold py-2.5 rounded-lg flex items-center justify-center gap-2">
+          <Save size={16} />حفظ المنهج
+        </button>
+        <button onClick={handleDiscard} disabled={!isDirty} className="bg-slate-700 hover:bg-slate-600 disabled:opacity-50 px-4 py-2.5 rounded-lg text-sm flex items-center gap-1"><Undo2 size={14} />تراجع</button>
+        {isOverridden && (
+          <button onClick={handleRestoreBuiltIn} className="bg-slate-700 hover:bg-slate-600 px-4 py-2.5 rounded-lg text-sm flex items-center gap-1"><RotateCcw size={14} />المنهج المدمج</button>
+        )}
+      </div>
+      <p className="text-[10px] text-slate-600 mt-3">التعديلات تُحفظ على هذا الجهاز فقط. صدّر الملف وضعه في data/curriculum.json لنشره مع التحديث القادم. معرف الدرس ثابت ولا يتغير عند إعادة التسمية أو النقل.</p>
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useMemo, useRef, useId } from 'react';
+import {
+  DiagramKind, DiagramSpec, DiagramBox, DiagramLayout, DIAGRAM_KIND_LABELS, FONT_SIZE, NOTE_FONT_SIZE, LINE_HEIGHT, PADDING_X,
+  parseDiagram, layoutDiagram,
+} from '../services/diagram';
+import { downloadFile, svgToPngBlob } from '../services/fileTransfer';
+import { Network, Workflow, CalendarRange, ImageDown } from 'lucide-react';
+import { BlockPlaceholder, BlockFallback } from './BlockStatus';
+
+interface DiagramBlockProps {
+  kind: DiagramKind;
+  source: string; // body of the ```mindmap / ```flowchart / ```timeline block
+  isStreaming?: boolean;
+  isStatic?: boolean; // printed copy: no export button
+}
+
+type DiagramParseState = { spec: DiagramSpec; layout: DiagramLayout; error?: undefined } | { spec?: undefined; layout?: undefined; error: string };
+
+const KIND_ICONS: Record<DiagramKind, React.ElementType> = {
+  mindmap: Network,
+  flowchart: Workflow,
+  timeline: CalendarRange,
+};
+
+// Styling lives in SVG attributes (not classes) so the PNG export looks the same as the screen
+const TONES = [
+  { fill: '#eef2ff', stroke: '#6366f1', text: '#312e81' },
+  { fill: '#ecfdf5', stroke: '#10b981', text: '#064e3b' },
+  { fill: '#fff1f2', stroke: '#f43f5e', text: '#881337' },
+  { fill: '#fffbeb', stroke: '#f59e0b', text: '#78350f' },
+  { fill: '#ecfeff', stroke: '#06b6d4', text: '#164e63' },
+  { fill: '#f5f3ff', stroke: '#8b5cf6', text: '#4c1d95' },
+];
+const EMPHASIS = { fill: '#4f46e5', stroke: '#4338ca', text: '#ffffff' };
+const FONT_FAMILY = "Cairo, 'Segoe UI', Tahoma, sans-serif";
+
+const toneOf = (tone: number) => (tone < 0 ? EMPHASIS : TONES[tone % TONES.length]);
+
+const renderShape = (box: DiagramBox, colors: typeof EMPHASIS) => {
+  const common = { fill: colors.fill, stroke: colors.stroke, strokeWidth: 2 };
+  if (box.shape === 'diamond') {
+    const cx = box.x + box.width / 2;
+    const cy = box.y + box.height / 2;
+    return <polygon points={`${cx},${box.y} ${box.x + box.width},${cy} ${cx},${box.y + box.height} ${box.x},${cy}`} {...common} />;
+  }
+  return <rect x={box.x} y={box.y} width={box.width} height={box.height} rx={box.shape === 'pill' ? box.height / 2 : 10} {...common} />;
+};
+
+// Cards with a heading (timeline events) are right-aligned; every other box is centered
+const renderText = (box: DiagramBox, colors: typeof EMPHASIS) => {
+  const notes = box.notes || [];
+  const rows = [
+    ...(box.heading ? [{ text: box.heading, size: FONT_SIZE, weight: 800, color: colors.stroke, height: LINE_HEIGHT }] : []),
+    ...box.lines.map(text => ({ text, size: FONT_SIZE, weight: 700, color: colors.text, height: LINE_HEIGHT })),
+    ...notes.map(text => ({ text, size: NOTE_FONT_SIZE, weight: 400, color: '#475569', height: LINE_HEIGHT - 3 })),
+  ];
+  const isAligned = box.heading !== undefined;
+  const x = isAligned ? box.x + box.width - PADDING_X : box.x + box.width / 2;
+  let baseline = box.y + (box.height - rows.reduce((sum, row) => sum + row.height, 0)) / 2;
+
+  return rows.map((row, i) => {
+    baseline += row.height;
+    return (
+      <text
+        key={i}
+        x={x}
+        y={baseline - row.height * 0.3}
+        fontSize={row.size}
+        fontWeight={row.weight}
+        fill={row.color}
+        textAnchor={isAligned ? 'start' : 'middle'}
+        direction="rtl"
+      >
+        {row.text}
+      </text>
+    );
+  });
+};
+
+export const DiagramBlock: React.FC<DiagramBlockProps> = ({ kind, source, isStreaming, isStatic }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const markerId = `arrow-${useId().replace(/:/g, '')}`;
+
+  const parsed = useMemo<DiagramParseState>(() => {
+    try {
+      const spec = parseDiagram(kind, source);
+      return { spec, layout: layoutDiagram(spec) };
+    } catch (e: any) {
+      return { error: e.message };
+    }
+  }, [kind, source]);
+
+  if (isStreaming) return <BlockPlaceholder label={`جاري رسم ${DIAGRAM_KIND_LABELS[kind]}...`} />;
+  if (parsed.error !== undefined) return <BlockFallback title={`تعذر عرض ${DIAGRAM_KIND_LABELS[kind]}`} reason={parsed.error} source={source} />;
+
+  const { spec, layout } = parsed;
+  const Icon = KIND_ICONS[kind];
+  const title = spec.title || (spec.kind === 'mindmap' ? spec.root.label : DIAGRAM_KIND_LABELS[kind]);
+
+  const handleExport = async () => {
+    if (!svgRef.current) return;
+    try {
+      downloadFile(`${title}.png`, await svgToPngBlob(svgRef.current), 'image/png');
+    } catch (e) {
+      console.error("Diagram Export Error:", e);
+      alert('تعذر حفظ المخطط كصورة');
+    }
+  };
+
+  return (
+    <div className="my-6 w-full bg-white p-4 rounded-xl border shadow-sm">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h4 className="font-bold flex items-center gap-2 min-w-0"><Icon size={18} className="text-indigo-500 shrink-0" /><span className="truncate">{title}</span></h4>
+        {!isStatic && (
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-bold bg-slate-50 text-slate-600 border border-slate-200 hover:bg-indigo-50 hover:text-indigo-600 shrink-0 no-print"
+            title="حفظ كصورة PNG"
+          >
+            <ImageDown size={14} />صورة
+          </button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto" dir="rtl">
+        <svg
+          ref={svgRef}
+          xmlns="http://www.w3.org/2000/svg"
+          width={layout.width}
+          height={layout.height}
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          fontFamily={FONT_FAMILY}
+          className="mx-auto block"
+        >
+          <defs>
+            <marker id={markerId} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+              <path d="M0,0 L10,5 L0,10 z" fill="#64748b" />
+            </marker>
+          </defs>
+          <rect width={layout.width} height={layout.height} fill="#ffffff" />
+
+          {layout.links.map((link, i) => (
+            <path
+              key={i}
+              d={link.path}
+              fill="none"
+              stroke={link.arrow ? '#64748b' : toneOf(link.tone).stroke}
+              strokeWidth={link.tone < 0 ? 3 : 2}
+              markerEnd={link.arrow ? `url(#${markerId})` : undefined}
+            />
+          ))}
+          {layout.links.filter(link => link.label).map((link, i) => (
+            <g key={`label-${i}`}>
+              <rect x={link.label!.x - link.label!.text.length * 4 - 6} y={link.label!.y - 10} width={link.label!.text.length * 8 + 12} height={20} rx={6} fill="#ffffff" stroke="#cbd5e1" />
+              <text x={link.label!.x} y={link.label!.y + 4} fontSize={NOTE_FONT_SIZE} fontWeight={700} fill="#334155" textAnchor="middle" direction="rtl">{link.label!.text}</text>
+            </g>
+          ))}
+
+          {layout.boxes.map((box, i) => {
+            const colors = toneOf(box.tone);
+            return <g key={i}>{renderShape(box, colors)}{renderText(box, colors)}</g>;
+          })}
+
+          {layout.dots.map((dot, i) => (
+            <circle key={i} cx={dot.x} cy={dot.y} r={7} fill={toneOf(dot.tone).stroke} stroke="#ffffff" strokeWidth={2} />
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,355 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GradeLevel, Subject, Track } from '../types';
+import { generateExamPaper, gradeEssayAnswer } from '../services/geminiService';
+import { QuizAnswer, QuizQuestion, isCorrectAnswer, getCorrectAnswerText } from '../services/quiz';
+import {
+  ExamPaper, ExamResult, EssayGrade, getExamBlueprint, getBlueprintMarks, countExamItems, countMissingItems, scoreExam, emptyEssayGrade, getGradeBand,
+} from '../services/exam';
+import { X, Timer, Loader2, FileCheck2, Printer, CheckCircle2, XCircle, AlertTriangle, ClipboardList } from 'lucide-react';
+
+interface ExamSimulatorProps {
+  isOpen: boolean;
+  grade: GradeLevel;
+  subject: Subject;
+  track?: Track;
+  onClose: () => void;
+}
+
+type ExamPhase = 'intro' | 'generating' | 'in_progress' | 'grading' | 'report';
+
+const formatClock = (totalSeconds: number) => {
+  const safe = Math.max(0, totalSeconds);
+  const h = Math.floor(safe / 3600);
+  const m = Math.floor((safe % 3600) / 60);
+  const s = safe % 60;
+  return [h, m, s].map(n => String(n).padStart(2, '0')).join(':');
+};
+
+interface ObjectiveItemProps {
+  question: QuizQuestion;
+  number: number;
+  answer: QuizAnswer | undefined;
+  isReviewing: boolean;
+  onAnswer: (answer: QuizAnswer) => void;
+}
+
+// No feedback while the exam is running; correctness is revealed only in the report
+const ObjectiveItem: React.FC<ObjectiveItemProps> = ({ question, number, answer, isReviewing, onAnswer }) => {
+  const isCorrect = isCorrectAnswer(question, answer);
+
+  const optionClass = (i: number) => {
+    if (isReviewing && i === question.correctIndex) return 'border-emerald-500 bg-emerald-50 text-emerald-800';
+    if (isReviewing && i === answer) return 'border-red-400 bg-red-50 text-red-700';
+    if (i === answer) return 'border-indigo-500 bg-indigo-50 text-indigo-800';
+    return 'border-slate-200 bg-white';
+  };
+
+  return (
+    <div className="py-4 border-b border-slate-100 break-inside-avoid">
+      <p className="font-bold text-slate-800 mb-2 leading-relaxed flex gap-2">
+        {isReviewing && (isCorrect ? <CheckCircle2 size={18} className="text-emerald-500 shrink-0 mt-1" /> : <XCircle size={18} className="text-red-500 shrink-0 mt-1" />)}
+        <span>{number}. {question.question}</span>
+      </p>
+      {question.kind === 'complete' ? (
+        <input
+          value={typeof answer === 'string' ? answer : ''}
+          onChange={e => onAnswer(e.target.value)}
+          disabled={isReviewing}
+          placeholder="اكتب الإجابة..."
+          className="w-full md:w-1/2 bg-white border border-slate-300 rounded-lg px-3 py-2 text-slate-900 outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      ) : (
+        <div className={`grid gap-2 ${question.kind === 'true_false' ? 'grid-cols-2 md:w-1/2' : 'grid-cols-1 md:grid-cols-2'}`}>
+          {question.options.map((option, i) => isReviewing ? (
+            // Plain text in the report: print styles hide every button
+            <div key={i} className={`px-3 py-2 rounded-lg border-2 text-sm font-medium ${optionClass(i)}`}>{option}</div>
+          ) : (
+            <button
+              key={i}
+              onClick={() => onAnswer(i)}
+              className={`text-right px-3 py-2 rounded-lg border-2 text-sm font-medium transition-colors ${optionClass(i)}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      )}
+      {isReviewing && !isCorrect && (
+        <p className="mt-2 text-sm text-amber-800 bg-amber-50 rounded-lg p-2">
+          <span className="font-bold">الإجابة الصحيحة: {getCorrectAnswerText(question)}</span>
+          {question.explanation && <span> — {question.explanation}</span>}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export const ExamSimulator: React.FC<ExamSimulatorProps> = ({ isOpen, grade, subject, track, onClose }) => {
+  const blueprint = getExamBlueprint(grade, subject);
+  const [phase, setPhase] = useState<ExamPhase>('intro');
+  const [paper, setPaper] = useState<ExamPaper | null>(null);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [startedAt, setStartedAt] = useState<Date | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ExamResult | null>(null);
+  const [error, setError] = useState('');
+  const isSubmittingRef = useRef(false);
+  const answersRef = useRef(answers);
+  answersRef.current = answers;
+
+  const isLocked = phase === 'in_progress' || phase === 'grading';
+
+  // Leaving the page mid-exam loses the attempt, so ask first
+  useEffect(() => {
+    if (!isLocked) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isLocked]);
+
+  const submitExam = async () => {
+    if (!paper || !startedAt || isSubmittingRef.current) return;
+    isSubmittingRef.current = true;
+    setPhase('grading');
+    setProgress(0);
+
+    const finalAnswers = answersRef.current;
+    const essays = paper.sections.flatMap(s => s.essays);
+    const essayGrades: Record<string, EssayGrade> = {};
+    for (const essay of essays) {
+      const answer = String(finalAnswers[essay.id] ?? '').trim();
+      essayGrades[essay.id] = !answer
+        ? emptyEssayGrade(essay, 'لم تتم الإجابة على هذا السؤال.')
+        : (await gradeEssayAnswer(subject, essay, answer)) || emptyEssayGrade(essay, 'تعذر التصحيح الآلي لهذا السؤال، راجعه مع معلمك.');
+      setProgress(p => p + 1);
+    }
+
+    setResult(scoreExam(paper, finalAnswers, essayGrades, startedAt));
+    setPhase('report');
+    isSubmittingRef.current = false;
+  };
+
+  // The clock runs from the start time, so a throttled background tab still ends on time
+  useEffect(() => {
+    if (phase !== 'in_progress' || !paper || !startedAt) return;
+    const endsAt = startedAt.getTime() + paper.durationMinutes * 60 * 1000;
+    const tick = () => {
+      const left = Math.round((endsAt - Date.now()) / 1000);
+      setSecondsLeft(left);
+      if (left <= 0) submitExam();
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [phase, paper, startedAt]);
+
+  const startExam = async () => {
+    setPhase('generating');
+    setProgress(0);
+    setError('');
+    const generated = await generateExamPaper(grade, subject, blueprint, setProgress, track);
+    if (!generated) {
+      setError('تعذر إعداد الامتحان، حاول مرة أخرى.');
+      setPhase('intro');
+      return;
+    }
+    setPaper(generated);
+    setAnswers({});
+    setResult(null);
+    setStartedAt(new Date());
+    setPhase('in_progress');
+  };
+
+  const handleSubmitClick = () => {
+    if (!paper) return;
+    const unanswered = countExamItems(paper) - Object.values(answers).filter(a => String(a).trim() !== '').length;
+    const message = unanswered > 0
+      ? `لم تجب على ${unanswered} سؤال. هل تريد تسليم الورقة؟`
+      : 'هل تريد تسليم الورقة؟ لا يمكن التعديل بعد التسليم.';
+    if (confirm(message)) submitExam();
+  };
+
+  const handleClose = () => {
+    setPhase('intro');
+    setPaper(null);
+    setResult(null);
+    onClose();
+  };
+
+  const setAnswer = (id: string, answer: QuizAnswer) => setAnswers(prev => ({ ...prev, [id]: answer }));
+
+  if (!isOpen) return null;
+
+  const isReviewing = phase === 'report';
+  const essayCount = paper ? paper.sections.reduce((sum, s) => sum + s.essays.length, 0) : 0;
+  const percent = result && result.maxScore > 0 ? Math.round((result.score / result.maxScore) * 100) : 0;
+  let itemNumber = 0;
+
+  return (
+    <div className={`fixed inset-0 z-50 bg-slate-100 flex flex-col ${isReviewing ? 'print-report' : ''}`} dir="rtl">
+      {/* Exam bar */}
+      <div className="bg-white border-b border-slate-200 px-4 py-3 flex items-center justify-between gap-2 shrink-0 shadow-sm no-print">
+        <div className="min-w-0">
+          <h2 className="font-bold text-slate-800 flex items-center gap-2"><ClipboardList size={20} className="text-indigo-600" />امتحان تجريبي</h2>
+          <p className="text-xs text-slate-500 truncate">{subject} • {grade}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {phase === 'in_progress' && (
+            <>
+              <span className={`font-mono font-bold px-3 py-1.5 rounded-lg flex items-center gap-1.5 ${secondsLeft < 300 ? 'bg-red-100 text-red-700 animate-pulse' : 'bg-slate-100 text-slate-700'}`} dir="ltr">
+                <Timer size={16} />{formatClock(secondsLeft)}
+              </span>
+              <button onClick={handleSubmitClick} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold px-4 py-2 rounded-lg flex items-center gap-1.5">
+                <FileCheck2 size={18} />تسليم
+              </button>
+            </>
+          )}
+          {isReviewing && (
+            <button onClick={() => window.print()} className="p-2 text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-full" title="طباعة التقرير"><Printer size={20} /></button>
+          )}
+          {!isLocked && (
+            <button onClick={handleClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500"><X size={20} /></button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 md:p-6">
+        <div className="max-w-3xl mx-auto">
+          {(phase === 'intro' || phase === 'generating') && (
+            <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-4">
+              <div>
+                <h3 className="text-xl font-bold text-slate-800">مواصفات الورقة (تقريبية)</h3>
+                <p className="text-xs text-slate-500 mt-1">توزيع الأسئلة والدرجات مبني على نماذج امتحانات سابقة، وليس المواصفات الرسمية للوزارة.</p>
+              </div>
+              <div className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+                {blueprint.sections.map(s => (
+                  <div key={s.id} className="flex justify-between p-3 text-sm">
+                    <span className="font-medium text-slate-700">{s.title}</span>
+                    <span className="text-slate-500">{s.count} × {s.marksEach} = {s.count * s.marksEach} درجة</span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-slate-600">
+                الدرجة الكلية: <b>{getBlueprintMarks(blueprint)}</b> • الزمن: <b>{blueprint.durationMinutes} دقيقة</b>
+              </p>
+              <div className="bg-amber-50 border border-amber-200 text-amber-900 text-sm rounded-xl p-3 flex gap-2">
+                <AlertTriangle size={18} className="shrink-0" />
+                <span>بعد البدء لا يمكنك الخروج حتى تسلم الورقة، ويتم التسليم تلقائياً عند انتهاء الوقت.</span>
+              </div>
+              {error && <p className="text-sm text-red-500 font-bold">{error}</p>}
+              <button
+                onClick={startExam}
+                disabled={phase === 'generating'}
+                className="w-full py-3 rounded-2xl bg-indigo-600 hover:bg-indigo-700 text-white font-bold flex items-center justify-center gap-2 disabled:bg-slate-400"
+              >
+                {phase === 'generating'
+                  ? <><Loader2 size={20} className="animate-spin" />جاري إعداد الورقة ({progress}/{blueprint.sections.length})...</>
+                  : 'ابدأ الامتحان'}
+              </button>
+            </div>
+          )}
+
+          {phase === 'grading' && (
+            <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-10 text-center">
+              <Loader2 size={40} className="animate-spin text-indigo-600 mx-auto mb-4" />
+              <p className="font-bold text-slate-800">جاري تصحيح الورقة...</p>
+              <p className="text-sm text-slate-500 mt-1">الأسئلة المقالية: {progress}/{essayCount}</p>
+            </div>
+          )}
+
+          {isReviewing && result && paper && (
+            <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 mb-4">
+              <div className="text-center border-b border-slate-200 pb-4 mb-4">
+                <h3 className="text-2xl font-black text-slate-900">تقرير الامتحان التجريبي</h3>
+                <p className="text-slate-600 mt-1">{paper.subject} • {paper.grade}</p>
+                <p className="text-xs text-slate-400 mt-1">
+                  {new Date(result.submittedAt).toLocaleString('ar-EG')} • الزمن المستغرق: {formatClock(Math.round((new Date(result.submittedAt).getTime() - new Date(result.startedAt).getTime()) / 1000))}
+                </p>
+              </div>
+              <div className="flex items-center justify-center gap-6 mb-4">
+                <div className="text-center">
+                  <p className="text-4xl font-black text-indigo-700">{result.score} / {result.maxScore}</p>
+                  <p className="text-sm text-slate-500 mt-1">{percent}% • {getGradeBand(percent)}</p>
+                  {result.sections.some(s => s.missing > 0) && (
+                    <p className="text-xs text-amber-700 mt-1">الورقة جاءت ناقصة، فالدرجة محسوبة من الأسئلة التي ظهرت فقط (من أصل {getBlueprintMarks(blueprint)}).</p>
+                  )}
+                </div>
+              </div>
+              <table className="w-full text-sm border border-slate-200">
+                <thead className="bg-slate-50">
+                  <tr><th className="p-2 text-right">القسم</th><th className="p-2">الدرجة</th></tr>
+                </thead>
+                <tbody>
+                  {result.sections.map(s => (
+                    <tr key={s.id} className="border-t border-slate-200">
+                      <td className="p-2">{s.title}{s.missing > 0 && <span className="text-xs text-amber-700"> (ناقص {s.missing} سؤال)</span>}</td>
+                      <td className="p-2 text-center font-bold">{s.score} / {s.max}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {(phase === 'in_progress' || isReviewing) && paper && paper.sections.map(({ spec, questions, essays }) => (
+            <div key={spec.id} className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 md:p-6 mb-4">
+              <h3 className="font-bold text-indigo-700 border-b-2 border-indigo-100 pb-2 mb-2 flex justify-between">
+                <span>{spec.title}</span>
+                <span className="text-sm text-slate-500">{(questions.length + essays.length) * spec.marksEach} درجة</span>
+              </h3>
+              {countMissingItems({ spec, questions, essays }) > 0 && (
+                <p className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 mb-2">
+                  تعذر إعداد {countMissingItems({ spec, questions, essays })} من أسئلة هذا القسم ({spec.count})، فدرجته محسوبة من الأسئلة الموجودة فقط.
+                </p>
+              )}
+
+              {questions.map(question => (
+                <ObjectiveItem
+                  key={question.id}
+                  question={question}
+                  number={++itemNumber}
+                  answer={answers[question.id]}
+                  isReviewing={isReviewing}
+                  onAnswer={answer => setAnswer(question.id, answer)}
+                />
+              ))}
+
+              {essays.map(essay => {
+                const grading = result?.essayGrades[essay.id];
+                return (
+                  <div key={essay.id} className="py-4 border-b border-slate-100 break-inside-avoid">
+                    <p className="font-bold text-slate-800 mb-2 leading-relaxed">
+                      {++itemNumber}. {essay.question} <span className="text-xs text-slate-400 font-medium">({essay.marks} درجة)</span>
+                    </p>
+                    <textarea
+                      value={String(answers[essay.id] ?? '')}
+                      onChange={e => setAnswer(essay.id, e.target.value)}
+                      disabled={isReviewing}
+                      rows={4}
+                      placeholder="اكتب إجابتك..."
+                      className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-slate-900 outline-none focus:ring-2 focus:ring-indigo-500 resize-y"
+                    />
+                    {isReviewing && grading && (
+                      <div className="mt-2 bg-slate-50 border border-slate-200 rounded-lg p-3 text-sm space-y-1">
+                        <p className="font-bold text-indigo-700">الدرجة: {grading.awarded} / {grading.max}</p>
+                        {grading.criteria.map((c, i) => (
+                          <p key={i} className="text-slate-700">• {c.criterion}: <b>{c.awarded}/{c.max}</b>{c.comment && <span className="text-slate-500"> — {c.comment}</span>}</p>
+                        ))}
+                        {grading.feedback && <p className="text-amber-800">💡 {grading.feedback}</p>}
+                        {essay.modelAnswer && <p className="text-emerald-800"><b>الإجابة النموذجية:</b> {essay.modelAnswer}</p>}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
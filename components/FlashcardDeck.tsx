@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { GradeLevel, Subject, Track } from '../types';
+import { getCurriculumFor, findLesson } from '../curriculum';
+import { generateFlashcards } from '../services/geminiService';
+import { Flashcard, REVIEW_GRADES, listFlashcards, reviewFlashcard, deleteFlashcard, addFlashcards, isDue } from '../services/flashcards';
+import { X, Layers, RotateCw, Trash2, Sparkles, Loader2, PartyPopper } from 'lucide-react';
+
+interface FlashcardDeckProps {
+  isOpen: boolean;
+  grade: GradeLevel;
+  // Without a subject the screen is the daily review across every subject of the grade
+  subject?: Subject;
+  track?: Track;
+  onClose: () => void;
+  onChanged?: () => void;
+}
+
+type DeckTab = 'review' | 'cards' | 'generate';
+
+const GRADE_BUTTON_STYLES = [
+  'bg-red-50 text-red-700 border-red-200 hover:bg-red-100',
+  'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100',
+  'bg-emerald-50 text-emerald-700 border-emerald-200 hover:bg-emerald-100',
+  'bg-sky-50 text-sky-700 border-sky-200 hover:bg-sky-100',
+];
+
+export const FlashcardDeck: React.FC<FlashcardDeckProps> = ({ isOpen, grade, subject, track, onClose, onChanged }) => {
+  const [tab, setTab] = useState<DeckTab>('review');
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [queue, setQueue] = useState<Flashcard[]>([]);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+
+  const units = subject ? getCurriculumFor(grade, subject, track) : [];
+  // A lesson id when the subject has a curriculum, otherwise the topic the student typed
+  const [lesson, setLesson] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [notice, setNotice] = useState('');
+
+  const loadCards = async () => {
+    try {
+      const loaded = await listFlashcards(grade, subject);
+      setCards(loaded);
+      return loaded;
+    } catch (e) {
+      console.error("Flashcards Load Error:", e);
+      return [];
+    }
+  };
+
+  // Every opening starts a fresh review session over the cards due now
+  useEffect(() => {
+    if (!isOpen) return;
+    setTab('review');
+    setReviewedCount(0);
+    setIsFlipped(false);
+    setNotice('');
+    setLesson(units[0]?.lessons[0]?.id || '');
+    loadCards().then(loaded => setQueue(loaded.filter(card => isDue(card))));
+  }, [isOpen, grade, subject, track]);
+
+  const handleGrade = async (quality: number) => {
+    const [current, ...rest] = queue;
+    if (!current) return;
+    await reviewFlashcard(current, quality);
+    setIsFlipped(false);
+    setReviewedCount(n => n + 1);
+    // A forgotten card comes back at the end of today's session
+    setQueue(quality < 3 ? [...rest, current] : rest);
+    loadCards();
+    onChanged?.();
+  };
+
+  const handleDelete = async (card: Flashcard) => {
+    if (!confirm('حذف هذه البطاقة؟')) return;
+    await deleteFlashcard(card.id);
+    setQueue(prev => prev.filter(c => c.id !== card.id));
+    loadCards();
+    onChanged?.();
+  };
+
+  const handleGenerate = async () => {
+    if (!subject || !lesson.trim()) return;
+    setIsGenerating(true);
+    setNotice('');
+    const picked = findLesson(grade, subject, lesson);
+    const drafts = await generateFlashcards(grade, subject, picked?.title || lesson.trim());
+    if (!drafts) {
+      setNotice('تعذر إنشاء البطاقات، حاول مرة أخرى.');
+    } else {
+      const added = await addFlashcards(grade, subject, drafts, 'lesson', picked?.id);
+      setNotice(added > 0 ? `تمت إضافة ${added} بطاقة جديدة ✅` : 'كل هذه البطاقات موجودة بالفعل.');
+      const loaded = await loadCards();
+      setQueue(loaded.filter(card => isDue(card)));
+      onChanged?.();
+    }
+    setIsGenerating(false);
+  };
+
+  if (!isOpen) return null;
+
+  const current = queue[0];
+  const tabs: { id: DeckTab; label: string }[] = [
+    { id: 'review', label: `مراجعة اليوم (${queue.length})` },
+    { id: 'cards', label: `البطاقات (${cards.length})` },
+    ...(subject ? [{ id: 'generate' as DeckTab, label: 'إنشاء من درس' }] : []),
+  ];
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-900/60 flex items-center justify-center p-2 md:p-6 no-print" dir="rtl">
+      <div className="w-full max-w-2xl max-h-full bg-white rounded-3xl shadow-2xl flex flex-col pop-in overflow-hidden">
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="min-w-0">
+            <h2 className="font-bold text-slate-800 flex items-center gap-2"><Layers size={20} className="text-indigo-600" />بطاقات المراجعة</h2>
+            <p className="text-xs text-slate-500 truncate">{subject ? `${subject} • ${grade}` : `كل المواد • ${grade}`}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500"><X size={20} /></button>
+        </div>
+
+        <div className="flex gap-1 px-4 pt-3">
+          {tabs.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={`px-3 py-1.5 rounded-full text-sm font-bold ${tab === t.id ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {tab === 'review' && (current ? (
+            <div className="space-y-4">
+              <button
+                onClick={() => setIsFlipped(!isFlipped)}
+                className={`w-full min-h-[220px] rounded-3xl border-2 p-6 flex flex-col items-center justify-center text-center transition-colors ${isFlipped ? 'bg-emerald-50 border-emerald-300' : 'bg-indigo-50 border-indigo-200'}`}
+              >
+                {!subject && <span className="text-xs text-slate-500 mb-2">{current.subject}</span>}
+                <p className={`font-bold leading-relaxed ${isFlipped ? 'text-emerald-900 text-lg' : 'text-indigo-900 text-xl'}`}>
+                  {isFlipped ? current.back : current.front}
+                </p>
+                {!isFlipped && <span className="mt-4 text-xs text-slate-500 flex items-center gap-1"><RotateCw size={12} />اضغط لإظهار الإجابة</span>}
+              </button>
+
+              {isFlipped ? (
+                <div className="grid grid-cols-4 gap-2">
+                  {REVIEW_GRADES.map((g, i) => (
+                    <button key={g.quality} onClick={() => handleGrade(g.quality)} className={`py-2.5 rounded-xl border font-bold text-sm ${GRADE_BUTTON_STYLES[i]}`}>
+                      {g.label}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-center text-sm text-slate-500">حاول تتذكر الإجابة قبل قلب البطاقة.</p>
+              )}
+              <p className="text-center text-xs text-slate-400">تمت مراجعة {reviewedCount} • متبقي {queue.length}</p>
+            </div>
+          ) : (
+            <div className="text-center py-12 text-slate-600">
+              <PartyPopper size={40} className="mx-auto text-indigo-500 mb-3" />
+              <p className="font-bold">{reviewedCount > 0 ? 'أنهيت مراجعة اليوم! 🎉' : 'لا توجد بطاقات مستحقة للمراجعة الآن.'}</p>
+              <p className="text-sm text-slate-500 mt-1">احفظ مصطلحات وإجابات من المحادثة أو أنشئ بطاقات من درس.</p>
+            </div>
+          ))}
+
+          {tab === 'cards' && (
+            <div className="space-y-2">
+              {cards.length === 0 && <p className="text-center text-sm text-slate-500 py-8">لا توجد بطاقات بعد</p>}
+              {cards.map(card => (
+                <div key={card.id} className="border border-slate-200 rounded-xl p-3 flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-bold text-slate-800">{card.front}</p>
+                    <p className="text-sm text-slate-600 mt-0.5">{card.back}</p>
+                    <p className="text-[11px] text-slate-400 mt-1">
+                      {!subject && `${card.subject} • `}
+                      {isDue(card) ? 'مستحقة الآن' : `المراجعة القادمة: ${card.dueAt.toLocaleDateString('ar-EG')}`}
+                      {card.lessonId && ` • ${findLesson(card.grade, card.subject, card.lessonId)?.title || ''}`}
+                    </p>
+                  </div>
+                  <button onClick={() => handleDelete(card)} className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded shrink-0" title="حذف"><Trash2 size={16} /></button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {tab === 'generate' && subject && (
+            <div className="space-y-4">
+              <label className="block">
+                <span className="text-sm font-bold text-slate-700">الدرس</span>
+                {units.length > 0 ? (
+                  <select
+                    value={lesson}
+                    onChange={e => setLesson(e.target.value)}
+                    className="mt-1 w-full bg-slate-50 border border-slate-300 rounded-xl px-3 py-2.5 text-slate-900 outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    {units.map(unit => (
+                      <optgroup key={unit.id} label={unit.title}>
+                        {unit.lessons.map(l => <option key={l.id} value={l.id}>{l.title}</option>)}
+                      </optgroup>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    value={lesson}
+                    onChange={e => setLesson(e.target.value)}
+                    placeholder="اكتب اسم الدرس"
+                    className="mt-1 w-full bg-slate-50 border border-slate-300 rounded-xl px-3 py-2.5 text-slate-900 outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                )}
+              </label>
+              {notice && <p className="text-sm font-bold text-indigo-700">{notice}</p>}
+              <button
+                onClick={handleGenerate}
+                disabled={!lesson.trim() || isGenerating}
+                className="w-full py-3 rounded-2xl bg-indigo-600 hover:bg-indigo-700 text-white font-bold flex items-center justify-center gap-2 disabled:bg-slate-300"
+              >
+                {isGenerating ? <><Loader2 size={20} className="animate-spin" />جاري إنشاء البطاقات...</> : <><Sparkles size={18} />أنشئ بطاقات الدرس</>}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Printer, Volume2, VolumeX } from 'lucide-react';
+import { Volume2, VolumeX } from 'lucide-react';
 
 export const FloatingTools: React.FC = () => {
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -23,11 +23,6 @@ export const FloatingTools: React.FC = () => {
     };
   }, []);
 
-  const handlePrint = () => {
-    window.scrollTo(0, 0);
-    window.print();
-  };
-
   const handleReadPage = () => {
     // 1. Cancel current
     window.speechSynthesis.cancel();
@@ -117,14 +112,6 @@ export const FloatingTools: React.FC = () => {
           <Volume2 size={20} />
         </button>
       )}
-
-      <button
-        onClick={handlePrint}
-        className="p-3 bg-slate-800 text-white rounded-full shadow-lg hover:bg-slate-900 transition-all border-2 border-white hover:scale-105"
-        title="طباعة / حفظ PDF"
-      >
-        <Printer size={20} />
-      </button>
     </div>
   );
 };
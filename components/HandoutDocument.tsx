@@ -0,0 +1,114 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Handout, HANDOUT_BRAND, A4, CONTENT_WIDTH, handoutSubtitle, formatHandoutDate } from '../services/handout';
+import { CURRICULUM_TERM_LABELS } from '../curriculum';
+import { normalizeMathDelimiters } from '../services/math';
+import { ANSWER_REMARK_PLUGINS, ANSWER_REHYPE_PLUGINS, renderAnswerBlock } from './AnswerBlocks';
+import { School, Target, KeyRound, Sigma, MessageCircleQuestion } from 'lucide-react';
+
+interface HandoutDocumentProps {
+  handout: Handout;
+  titlePageRef: React.Ref<HTMLDivElement>;
+  contentRef: React.Ref<HTMLDivElement>;
+}
+
+// The handout as it goes on paper: a title page of exactly one A4 sheet, then the questions and answers in a single
+// column that services/handout cuts into pages. Drawings are static and nothing here is interactive.
+
+const HandoutAnswer: React.FC<{ text: string }> = ({ text }) => (
+  <div className="markdown-body text-base leading-loose text-slate-900 font-medium">
+    <ReactMarkdown
+      remarkPlugins={ANSWER_REMARK_PLUGINS}
+      rehypePlugins={ANSWER_REHYPE_PLUGINS}
+      components={{
+        // Drawings are rendered by the code renderer; without this they would end up inside a <pre>
+        pre: ({ children }) => <>{children}</>,
+        a: ({ node, ...props }) => <a className="text-blue-700 underline" {...props} />,
+        code: ({ node, inline, className, children }: any) => {
+          const match = /language-(\w+)/.exec(className || '');
+          const block = !inline && renderAnswerBlock(match?.[1], String(children), { isStatic: true });
+          if (block) return block;
+          if (inline) return <span className="mx-1 px-2 rounded-full bg-indigo-50 text-indigo-700 border border-indigo-100 font-bold">{children}</span>;
+          return <pre className="my-4 bg-slate-50 text-slate-800 p-4 rounded-lg border text-sm whitespace-pre-wrap" dir="ltr"><code>{children}</code></pre>;
+        },
+      }}
+    >
+      {normalizeMathDelimiters(text)}
+    </ReactMarkdown>
+  </div>
+);
+
+const TitlePage: React.FC<{ handout: Handout }> = ({ handout }) => {
+  const { lesson } = handout;
+  return (
+    <div className="bg-white flex flex-col overflow-hidden" style={{ width: A4.width, height: A4.height, padding: 64 }}>
+      <div className="flex items-center gap-3 pb-6 border-b-2 border-indigo-100">
+        <div className="bg-indigo-600 p-2 rounded-lg text-white"><School size={28} /></div>
+        <span className="text-2xl font-bold text-slate-900">{HANDOUT_BRAND}</span>
+      </div>
+
+      <div className="mt-20">
+        <p className="text-lg font-bold text-indigo-600">{handoutSubtitle(handout)}</p>
+        <h1 className="mt-3 text-4xl font-black text-slate-900 leading-snug">{handout.title}</h1>
+        {lesson && <p className="mt-3 text-base text-slate-500 font-medium">{lesson.title} • {CURRICULUM_TERM_LABELS[lesson.term]}</p>}
+      </div>
+
+      <div className="mt-12 space-y-6 flex-1">
+        {lesson && lesson.objectives.length > 0 && (
+          <section>
+            <h2 className="font-bold text-slate-800 flex items-center gap-2 mb-2"><Target size={18} className="text-indigo-500" />أهداف الدرس</h2>
+            <ul className="list-disc pr-6 space-y-1 text-slate-700">
+              {lesson.objectives.map((objective, i) => <li key={i}>{objective}</li>)}
+            </ul>
+          </section>
+        )}
+        {lesson && lesson.keyTerms.length > 0 && (
+          <section>
+            <h2 className="font-bold text-slate-800 flex items-center gap-2 mb-2"><KeyRound size={18} className="text-indigo-500" />المصطلحات الأساسية</h2>
+            <div className="flex flex-wrap gap-2">
+              {lesson.keyTerms.map((term, i) => <span key={i} className="px-3 py-0.5 rounded-full bg-indigo-50 text-indigo-800 border border-indigo-100 text-sm font-bold">{term}</span>)}
+            </div>
+          </section>
+        )}
+        {lesson && lesson.formulas.length > 0 && (
+          <section>
+            <h2 className="font-bold text-slate-800 flex items-center gap-2 mb-2"><Sigma size={18} className="text-indigo-500" />القوانين</h2>
+            <ul className="space-y-1 text-slate-800">
+              {lesson.formulas.map((formula, i) => <li key={i} className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-1" dir="auto">{formula}</li>)}
+            </ul>
+          </section>
+        )}
+        <p className="flex items-center gap-2 text-slate-600 font-medium">
+          <MessageCircleQuestion size={18} className="text-indigo-500" />
+          عدد الأسئلة المشروحة في المذكرة: {handout.exchanges.length}
+        </p>
+      </div>
+
+      <div className="pt-6 border-t-2 border-indigo-100 flex justify-between text-slate-700 font-bold">
+        <span>اسم الطالب: {handout.studentName || '....................................'}</span>
+        <span>{formatHandoutDate(handout.createdAt)}</span>
+      </div>
+    </div>
+  );
+};
+
+export const HandoutDocument: React.FC<HandoutDocumentProps> = ({ handout, titlePageRef, contentRef }) => (
+  <div dir="rtl" className="font-sans">
+    <div ref={titlePageRef}><TitlePage handout={handout} /></div>
+
+    <div ref={contentRef} className="bg-white" style={{ width: CONTENT_WIDTH }}>
+      {handout.exchanges.map(({ id, question, answer }, i) => (
+        <section key={id} className="pb-6">
+          <div data-handout-break className="mb-4 rounded-2xl bg-indigo-50 border border-indigo-100 px-5 py-3">
+            <p className="text-xs font-bold text-indigo-600 mb-1">السؤال {i + 1}</p>
+            {question.text.trim() && <p className="whitespace-pre-wrap font-bold text-slate-800 leading-relaxed">{question.text}</p>}
+            {question.attachment?.type === 'image' && (
+              <img src={`data:${question.attachment.mimeType};base64,${question.attachment.data}`} className="mt-2 max-h-64 rounded-xl border border-indigo-100" />
+            )}
+          </div>
+          <HandoutAnswer text={answer.text} />
+        </section>
+      ))}
+    </div>
+  </div>
+);
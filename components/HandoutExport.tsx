@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { GradeLevel, Subject, Track, Message } from '../types';
+import { CurriculumLesson } from '../curriculum';
+import {
+  Handout, HandoutFormat, HANDOUT_FORMAT_LABELS, groupExchanges, defaultHandoutTitle, handoutSubtitle, handoutFileName,
+  buildHandoutMarkdown, exportHandoutPdf,
+} from '../services/handout';
+import { downloadFile } from '../services/fileTransfer';
+import { loadProfile } from '../services/profile';
+import { HandoutDocument } from './HandoutDocument';
+import { X, FileDown, FileText, FileCode, Loader2 } from 'lucide-react';
+
+interface HandoutExportProps {
+  isOpen: boolean;
+  grade: GradeLevel;
+  subject: Subject;
+  track?: Track;
+  lesson?: CurriculumLesson;
+  messages: Message[];
+  onClose: () => void;
+}
+
+const FORMAT_ICONS: Record<HandoutFormat, React.ElementType> = {
+  pdf: FileText,
+  markdown: FileCode,
+};
+
+export const HandoutExport: React.FC<HandoutExportProps> = ({ isOpen, grade, subject, track, lesson, messages, onClose }) => {
+  const exchanges = useMemo(() => groupExchanges(messages), [messages]);
+  const [title, setTitle] = useState('');
+  const [format, setFormat] = useState<HandoutFormat>('pdf');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [pendingHandout, setPendingHandout] = useState<Handout | null>(null); // rendered off screen while the PDF is drawn
+  const [progress, setProgress] = useState('');
+  const titlePageRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTitle(defaultHandoutTitle(subject, lesson));
+    setSelectedIds(new Set(exchanges.map(e => e.id)));
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!pendingHandout) return;
+    let isCancelled = false;
+    (async () => {
+      try {
+        const blob = await exportHandoutPdf(
+          { titlePage: titlePageRef.current!, content: contentRef.current! },
+          pendingHandout,
+          (page, total) => !isCancelled && setProgress(`جاري تجهيز الصفحة ${page} من ${total}...`)
+        );
+        if (isCancelled) return;
+        downloadFile(handoutFileName(pendingHandout, 'pdf'), blob, 'application/pdf');
+        onClose();
+      } catch (e) {
+        console.error("Handout Export Error:", e);
+        if (!isCancelled) alert('تعذر تجهيز ملف PDF، حاول مرة أخرى أو اختر صيغة Markdown');
+      } finally {
+        if (!isCancelled) {
+          setPendingHandout(null);
+          setProgress('');
+        }
+      }
+    })();
+    return () => { isCancelled = true; };
+  }, [pendingHandout]);
+
+  if (!isOpen) return null;
+
+  const isExporting = pendingHandout !== null;
+  const allSelected = exchanges.length > 0 && selectedIds.size === exchanges.length;
+
+  const toggleExchange = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+
+  // A lesson handout is useful even before any question: its title page carries the goals, terms and formulas
+  const canExport = selectedIds.size > 0 || Boolean(lesson);
+
+  const handleExport = () => {
+    const handout: Handout = {
+      title: title.trim() || defaultHandoutTitle(subject, lesson),
+      grade,
+      subject,
+      track,
+      lesson,
+      studentName: loadProfile().name?.trim() || undefined,
+      createdAt: new Date(),
+      exchanges: exchanges.filter(e => selectedIds.has(e.id)),
+    };
+    if (format === 'markdown') {
+      downloadFile(handoutFileName(handout, 'markdown'), buildHandoutMarkdown(handout), 'text/markdown;charset=utf-8');
+      onClose();
+      return;
+    }
+    setProgress('جاري تجهيز المذكرة...');
+    setPendingHandout(handout);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-900/60 flex items-center justify-center p-2 md:p-6 no-print" dir="rtl">
+      <div className="w-full max-w-2xl max-h-full bg-white rounded-3xl shadow-2xl flex flex-col pop-in overflow-hidden">
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="min-w-0">
+            <h2 className="font-bold text-slate-800 flex items-center gap-2"><FileDown size={20} className="text-indigo-600" />تصدير مذكرة للطباعة</h2>
+            <p className="text-xs text-slate-500">{handoutSubtitle({ grade, subject, track })}{lesson && ` • ${lesson.title}`}</p>
+          </div>
+          <button onClick={onClose} disabled={isExporting} className="p-2 hover:bg-slate-100 rounded-full text-slate-500 disabled:opacity-40"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <label className="block">
+            <span className="text-sm font-bold text-slate-700">عنوان المذكرة</span>
+            <input
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              className="mt-1 w-full px-3 py-2 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            />
+          </label>
+
+          <div>
+            <span className="text-sm font-bold text-slate-700">الصيغة</span>
+            <div className="mt-1 grid grid-cols-2 gap-2">
+              {(Object.keys(HANDOUT_FORMAT_LABELS) as HandoutFormat[]).map(option => {
+                const Icon = FORMAT_ICONS[option];
+                return (
+                  <button
+                    key={option}
+                    onClick={() => setFormat(option)}
+                    className={`flex items-center justify-center gap-2 px-3 py-2.5 rounded-xl border text-sm font-bold transition-colors ${
+                      format === option ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-indigo-50'
+                    }`}
+                  >
+                    <Icon size={16} />{HANDOUT_FORMAT_LABELS[option]}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm font-bold text-slate-700">الأسئلة ({selectedIds.size} من {exchanges.length})</span>
+              {exchanges.length > 0 && (
+                <button
+                  onClick={() => setSelectedIds(allSelected ? new Set() : new Set(exchanges.map(e => e.id)))}
+                  className="text-xs font-bold text-indigo-600 hover:underline"
+                >
+                  {allSelected ? 'إلغاء تحديد الكل' : 'تحديد الكل'}
+                </button>
+              )}
+            </div>
+            {exchanges.length === 0 && (
+              <p className="text-center text-sm text-slate-500 py-6">
+                {lesson ? 'لا توجد أسئلة بعد؛ ستضم المذكرة صفحة الدرس بأهدافه ومصطلحاته وقوانينه.' : 'لا توجد أسئلة وإجابات في هذه المحادثة بعد.'}
+              </p>
+            )}
+            <div className="space-y-1.5">
+              {exchanges.map(({ id, question }) => (
+                <label key={id} className="flex items-start gap-2 rounded-xl border border-slate-200 px-3 py-2 cursor-pointer hover:bg-slate-50">
+                  <input type="checkbox" checked={selectedIds.has(id)} onChange={() => toggleExchange(id)} className="mt-1 accent-indigo-600" />
+                  <span className="text-sm text-slate-700 line-clamp-2">{question.text.trim() || question.attachment?.name || 'سؤال بمرفق'}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex items-center justify-between gap-3">
+          <span className="text-xs text-slate-500 flex items-center gap-1.5">
+            {isExporting && <Loader2 size={14} className="animate-spin" />}{progress}
+          </span>
+          <button
+            onClick={handleExport}
+            disabled={!canExport || isExporting}
+            className="flex items-center gap-2 px-5 py-2.5 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileDown size={18} />تنزيل
+          </button>
+        </div>
+      </div>
+
+      {pendingHandout && (
+        <div className="absolute top-0 left-[-10000px]" aria-hidden="true">
+          <HandoutDocument handout={pendingHandout} titlePageRef={titlePageRef} contentRef={contentRef} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useState, useEffect } from 'react';
+import { GradeLevel, Subject, Track } from '../types';
+import { HomeworkProblem, HomeworkStatus, HOMEWORK_STATUS_LABELS, MAX_HINT_LEVEL, listHomework } from '../services/homework';
+import { X, NotebookPen, Image as ImageIcon } from 'lucide-react';
+
+interface HomeworkLogProps {
+  isOpen: boolean;
+  grade: GradeLevel;
+  subject: Subject;
+  track?: Track;
+  refreshKey?: number;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<HomeworkStatus, string> = {
+  in_progress: 'bg-slate-100 text-slate-600',
+  solved: 'bg-emerald-100 text-emerald-700',
+  revealed: 'bg-amber-100 text-amber-700',
+};
+
+export const HomeworkLog: React.FC<HomeworkLogProps> = ({ isOpen, grade, subject, track, refreshKey, onClose }) => {
+  const [problems, setProblems] = useState<HomeworkProblem[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    listHomework(grade, subject, track)
+      .then(setProblems)
+      .catch(e => console.error("Homework Load Error:", e));
+  }, [isOpen, grade, subject, track, refreshKey]);
+
+  if (!isOpen) return null;
+
+  const solvedAlone = problems.filter(p => p.status === 'solved' && p.hintsUsed === 0).length;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-900/60 flex items-center justify-center p-2 md:p-6 no-print" dir="rtl">
+      <div className="w-full max-w-2xl max-h-full bg-white rounded-3xl shadow-2xl flex flex-col pop-in overflow-hidden">
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="min-w-0">
+            <h2 className="font-bold text-slate-800 flex items-center gap-2"><NotebookPen size={20} className="text-rose-600" />سجل الواجبات: {subject}</h2>
+            <p className="text-xs text-slate-500">{grade}{track && ` • ${track}`} • {problems.length} مسألة، {solvedAlone} منها بدون أي تلميح</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {problems.length === 0 && <p className="text-center text-sm text-slate-500 py-8">لم تُحل أي مسألة في وضع الواجب بعد.</p>}
+          {problems.map(problem => (
+            <div key={problem.id} className="rounded-xl border border-slate-200 px-3 py-2.5">
+              <div className="flex items-start justify-between gap-2">
+                <p className="font-medium text-slate-800 leading-snug flex items-center gap-1.5 min-w-0">
+                  {problem.hasImage && <ImageIcon size={14} className="text-slate-400 shrink-0" />}
+                  <span className="truncate">{problem.title}</span>
+                </p>
+                <span className={`text-[11px] font-bold px-2 py-0.5 rounded-full shrink-0 ${STATUS_STYLES[problem.status]}`}>
+                  {HOMEWORK_STATUS_LABELS[problem.status]}
+                </span>
+              </div>
+              <p className="text-[11px] text-slate-500 mt-1">
+                {problem.startedAt.toLocaleDateString('ar-EG')} • تلميحات {problem.hintsUsed} من {MAX_HINT_LEVEL} • خطوات راجعها المعلم {problem.stepsChecked}
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
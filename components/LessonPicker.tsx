@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { GradeLevel, Subject, Track } from '../types';
+import { getCurriculumFor, CurriculumLesson } from '../curriculum';
+import { X, List, ChevronDown, ChevronLeft, BookOpen, Check } from 'lucide-react';
+
+interface LessonPickerProps {
+  isOpen: boolean;
+  grade: GradeLevel;
+  subject: Subject;
+  track?: Track;
+  activeLessonId?: string;
+  onClose: () => void;
+  onPick: (lesson: CurriculumLesson) => void;
+}
+
+export const LessonPicker: React.FC<LessonPickerProps> = ({ isOpen, grade, subject, track, activeLessonId, onClose, onPick }) => {
+  const units = getCurriculumFor(grade, subject, track);
+  const [openUnit, setOpenUnit] = useState(0);
+
+  // Open on the unit of the current lesson, or the first unit
+  useEffect(() => {
+    if (!isOpen) return;
+    const activeUnit = units.findIndex(unit => unit.lessons.some(lesson => lesson.id === activeLessonId));
+    setOpenUnit(Math.max(0, activeUnit));
+  }, [isOpen, grade, subject, track]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-900/60 flex items-center justify-center p-2 md:p-6 no-print" dir="rtl">
+      <div className="w-full max-w-2xl max-h-full bg-white rounded-3xl shadow-2xl flex flex-col pop-in overflow-hidden">
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="min-w-0">
+            <h2 className="font-bold text-slate-800 flex items-center gap-2"><List size={20} className="text-indigo-600" />اختر درساً للشرح</h2>
+            <p className="text-xs text-slate-500 truncate">{subject} • {grade}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {units.length === 0 && <p className="text-center text-sm text-slate-500 py-8">لا توجد دروس مسجلة لهذه المادة بعد.</p>}
+          {units.map((unit, index) => {
+            const isExpanded = units.length === 1 || openUnit === index;
+            return (
+              <div key={unit.id} className="border border-slate-200 rounded-2xl overflow-hidden">
+                {units.length > 1 && (
+                  <button
+                    onClick={() => setOpenUnit(isExpanded ? -1 : index)}
+                    className="w-full px-4 py-3 bg-slate-50 hover:bg-slate-100 flex items-center justify-between text-right font-bold text-slate-800"
+                  >
+                    <span>{unit.title}</span>
+                    <span className="flex items-center gap-2 text-xs font-medium text-slate-500 shrink-0">
+                      {unit.lessons.length} دروس
+                      {isExpanded ? <ChevronDown size={18} /> : <ChevronLeft size={18} />}
+                    </span>
+                  </button>
+                )}
+                {isExpanded && (
+                  <div className="p-2 space-y-1">
+                    {unit.lessons.map(lesson => (
+                      <button
+                        key={lesson.id}
+                        onClick={() => onPick(lesson)}
+                        className={`w-full px-3 py-2.5 rounded-xl flex items-center gap-2 text-right text-sm transition-colors ${lesson.id === activeLessonId ? 'bg-indigo-600 text-white font-bold' : 'text-slate-700 hover:bg-indigo-50 hover:text-indigo-700'}`}
+                      >
+                        {lesson.id === activeLessonId ? <Check size={16} className="shrink-0" /> : <BookOpen size={16} className="shrink-0 opacity-60" />}
+                        <span>{lesson.title}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
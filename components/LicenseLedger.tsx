@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BookUser, Search, Download, Upload, Ban, Trash2, DatabaseBackup, FileSpreadsheet, Phone } from 'lucide-react';
+import {
+  LedgerEntry, LedgerStatus, listLedger, revokeLedgerEntry, deleteLedgerEntry, getLedgerStatus, totalsByPlan,
+  LedgerImportResult, ledgerToCsv, importLedgerCsv, ledgerToBackup, restoreLedgerBackup,
+} from '../services/ledger';
+import { PLANS, PlanId } from '../services/subscription';
+import { downloadFile, readFileAsText, dateStamp } from '../services/fileTransfer';
+
+interface LicenseLedgerProps {
+  refreshKey: number;
+}
+
+const STATUS_STYLES: Record<LedgerStatus, { label: string; className: string }> = {
+  active: { label: 'ساري', className: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30' },
+  expired: { label: 'منتهي', className: 'bg-amber-500/10 text-amber-400 border-amber-500/30' },
+  revoked: { label: 'ملغي', className: 'bg-red-500/10 text-red-400 border-red-500/30' },
+};
+
+export const LicenseLedger: React.FC<LicenseLedgerProps> = ({ refreshKey }) => {
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [planFilter, setPlanFilter] = useState<PlanId | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<LedgerStatus | 'all'>('all');
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+
+  const loadEntries = async () => {
+    try {
+      setEntries(await listLedger());
+    } catch (e) {
+      console.error("Ledger Load Error:", e);
+    }
+  };
+
+  useEffect(() => { loadEntries(); }, [refreshKey]);
+
+  const handleRevoke = async (entry: LedgerEntry) => {
+    if (!confirm(`إلغاء اشتراك ${entry.studentName || entry.deviceId}؟`)) return;
+    await revokeLedgerEntry(entry);
+    loadEntries();
+  };
+
+  const handleDelete = async (entry: LedgerEntry) => {
+    if (!confirm(`حذف السجل نهائياً من الدفتر؟`)) return;
+    await deleteLedgerEntry(entry.id);
+    loadEntries();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>, importer: (text: string) => Promise<LedgerImportResult>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { imported, skipped } = await importer(await readFileAsText(file));
+      alert(`تم استيراد ${imported} سجل.` + (skipped ? `\nتم تخطي ${skipped} سجل بدون معرّف جهاز.` : ''));
+      loadEntries();
+    } catch (err) {
+      console.error("Ledger Import Error:", err);
+      alert("الملف غير صالح.");
+    }
+  };
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const filtered = entries.filter(entry => {
+    if (planFilter !== 'all' && entry.planId !== planFilter) return false;
+    if (statusFilter !== 'all' && getLedgerStatus(entry) !== statusFilter) return false;
+    if (!normalizedQuery) return true;
+    return [entry.studentName, entry.phone, entry.deviceId].some(v => v.toLowerCase().includes(normalizedQuery));
+  });
+
+  const totals = totalsByPlan(entries);
+  const totalRevenue = totals.reduce((sum, t) => sum + t.revenue, 0);
+
+  return (
+    <div className="bg-slate-800 rounded-2xl shadow-xl border border-slate-700 p-6">
+      <input type="file" ref={csvInputRef} onChange={e => handleImport(e, importLedgerCsv)} className="hidden" accept=".csv,text/csv" />
+      <input type="file" ref={backupInputRef} onChange={e => handleImport(e, restoreLedgerBackup)} className="hidden" accept=".json,application/json" />
+
+      <div className="flex items-center justify-between mb-4 gap-2 flex-wrap">
+        <h3 className="text-emerald-400 font-bold flex items-center gap-2 text-sm uppercase tracking-wider">
+          <BookUser size={16} />
+          دفتر الاشتراكات ({entries.length})
+        </h3>
+        <div className="flex gap-1.5 flex-wrap">
+          <button onClick={() => downloadFile(`ledger-${dateStamp()}.csv`, ledgerToCsv(entries), 'text/csv;charset=utf-8')} className="text-xs bg-slate-700 hover:bg-slate-600 px-2.5 py-1.5 rounded flex items-center gap-1" title="تصدير CSV"><FileSpreadsheet size={14} />CSV</button>
+          <button onClick={() => csvInputRef.current?.click()} className="text-xs bg-slate-700 hover:bg-slate-600 px-2.5 py-1.5 rounded flex items-center gap-1" title="استيراد CSV"><Upload size={14} />CSV</button>
+          <button onClick={() => downloadFile(`ledger-backup-${dateStamp()}.json`, ledgerToBackup(entries), 'application/json')} className="text-xs bg-slate-700 hover:bg-slate-600 px-2.5 py-1.5 rounded flex items-center gap-1" title="نسخة احتياطية"><Download size={14} />نسخة احتياطية</button>
+          <button onClick={() => backupInputRef.current?.click()} className="text-xs bg-slate-700 hover:bg-slate-600 px-2.5 py-1.5 rounded flex items-center gap-1" title="استرجاع نسخة احتياطية"><DatabaseBackup size={14} />استرجاع</button>
+        </div>
+      </div>
+
+      {/* Revenue */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+        {totals.map(total => (
+          <div key={total.planId} className="bg-slate-900 p-3 rounded-lg border border-slate-700">
+            <p className="text-[11px] text-slate-500">{PLANS[total.planId].name}</p>
+            <p className="font-bold text-white">{total.revenue.toLocaleString('ar-EG')} ج</p>
+            <p className="text-[10px] text-slate-500">{total.count} اشتراك</p>
+          </div>
+        ))}
+        <div className="bg-emerald-900/30 p-3 rounded-lg border border-emerald-700/50">
+          <p className="text-[11px] text-emerald-400">الإجمالي</p>
+          <p className="font-bold text-white">{totalRevenue.toLocaleString('ar-EG')} ج</p>
+          <p className="text-[10px] text-slate-500">بدون الملغي</p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex gap-2 mb-3 flex-wrap">
+        <div className="relative flex-1 min-w-[160px]">
+          <Search size={14} className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="اسم، تليفون، أو رقم جهاز"
+            className="w-full bg-slate-900 border border-slate-600 rounded-lg pr-8 pl-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <select value={planFilter} onChange={e => setPlanFilter(e.target.value as PlanId | 'all')} className="bg-slate-900 border border-slate-600 rounded-lg px-2 py-2 text-sm text-white">
+          <option value="all">كل الباقات</option>
+          {Object.values(PLANS).map(plan => <option key={plan.id} value={plan.id}>{plan.name}</option>)}
+        </select>
+        <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as LedgerStatus | 'all')} className="bg-slate-900 border border-slate-600 rounded-lg px-2 py-2 text-sm text-white">
+          <option value="all">كل الحالات</option>
+          {(Object.keys(STATUS_STYLES) as LedgerStatus[]).map(status => <option key={status} value={status}>{STATUS_STYLES[status].label}</option>)}
+        </select>
+      </div>
+
+      {/* Roster */}
+      <div className="space-y-2 max-h-[420px] overflow-y-auto">
+        {filtered.length === 0 && <p className="text-center text-sm text-slate-500 py-6">لا توجد سجلات</p>}
+        {filtered.map(entry => {
+          const status = STATUS_STYLES[getLedgerStatus(entry)];
+          return (
+            <div key={entry.id} className="bg-slate-900 p-3 rounded-lg border border-slate-700 flex items-start justify-between gap-3">
+              <div className="min-w-0 space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <p className="font-bold text-white truncate">{entry.studentName || 'بدون اسم'}</p>
+                  <span className={`text-[10px] px-1.5 py-0.5 rounded border ${status.className}`}>{status.label}</span>
+                </div>
+                <p className="text-xs text-slate-400 flex items-center gap-2 flex-wrap">
+                  {entry.phone && <span className="flex items-center gap-1" dir="ltr"><Phone size={10} />{entry.phone}</span>}
+                  <span className="font-mono" dir="ltr">{entry.deviceId}</span>
+                </p>
+                <p className="text-[11px] text-slate-500">
+                  {PLANS[entry.planId].name} • {entry.price} ج • {new Date(entry.issuedAt).toLocaleDateString('ar-EG')} ← {new Date(entry.expiresAt).toLocaleDateString('ar-EG')}
+                </p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                {!entry.revokedAt && (
+                  <button onClick={() => handleRevoke(entry)} className="p-1.5 text-slate-500 hover:text-amber-400 hover:bg-slate-800 rounded" title="إلغاء الاشتراك"><Ban size={14} /></button>
+                )}
+                <button onClick={() => handleDelete(entry)} className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-slate-800 rounded" title="حذف"><Trash2 size={14} /></button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[10px] text-slate-600 mt-3">الإلغاء يُسجَّل في الدفتر ويُستبعد من الإيرادات؛ الكود المُرسل يظل يعمل على جهاز الطالب حتى تاريخ انتهائه.</p>
+    </div>
+  );
+};
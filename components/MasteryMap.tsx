@@ -0,0 +1,89 @@
+import React from 'react';
+import { GradeLevel, Subject } from '../types';
+import { SubjectMastery, LessonStatus, LESSON_STATUS_LABELS } from '../services/progress';
+import { X, MapIcon, Target, ChevronLeft } from 'lucide-react';
+
+interface MasteryMapProps {
+  grade: GradeLevel;
+  subject: Subject;
+  mastery: SubjectMastery;
+  onClose: () => void;
+  onStudy: (subject: Subject, lessonId?: string) => void;
+}
+
+const STATUS_STYLES: Record<LessonStatus, string> = {
+  not_started: 'bg-slate-50 border-slate-200 text-slate-500',
+  explained: 'bg-sky-50 border-sky-300 text-sky-800',
+  practiced: 'bg-amber-50 border-amber-300 text-amber-800',
+  mastered: 'bg-emerald-50 border-emerald-400 text-emerald-800',
+};
+
+export const MasteryMap: React.FC<MasteryMapProps> = ({ grade, subject, mastery, onClose, onStudy }) => (
+  <div className="fixed inset-0 z-40 bg-slate-900/60 flex items-center justify-center p-2 md:p-6 no-print" dir="rtl">
+    <div className="w-full max-w-3xl max-h-full bg-white rounded-3xl shadow-2xl flex flex-col pop-in overflow-hidden">
+      <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+        <div className="min-w-0">
+          <h2 className="font-bold text-slate-800 flex items-center gap-2"><MapIcon size={20} className="text-indigo-600" />خريطة الإتقان: {subject}</h2>
+          <p className="text-xs text-slate-500">{grade} • أتقنت {mastery.masteredCount} من {mastery.lessons.length} درس</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500"><X size={20} /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5">
+        <div>
+          <div className="flex justify-between text-sm font-bold text-slate-700 mb-1">
+            <span>نسبة الإنجاز</span>
+            <span>{mastery.percent}%</span>
+          </div>
+          <div className="h-3 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-600 rounded-full transition-all" style={{ width: `${mastery.percent}%` }} />
+          </div>
+        </div>
+
+        {mastery.recommendations.length > 0 && (
+          <div className="bg-indigo-50 border border-indigo-100 rounded-2xl p-4">
+            <h3 className="font-bold text-indigo-800 flex items-center gap-2 mb-2"><Target size={18} />ماذا تذاكر الآن؟</h3>
+            <div className="space-y-2">
+              {mastery.recommendations.map(item => (
+                <button
+                  key={item.lesson.id}
+                  onClick={() => onStudy(subject, item.lesson.id)}
+                  className="w-full bg-white rounded-xl px-3 py-2 text-right flex items-center justify-between gap-2 hover:ring-2 hover:ring-indigo-300"
+                >
+                  <span className="min-w-0">
+                    <span className="block font-medium text-slate-800 truncate">{item.lesson.title}</span>
+                    <span className="text-xs text-slate-500">
+                      {item.status === 'practiced' ? `راجع الدرس وأعد الاختبار (أفضل نتيجة ${Math.round((item.bestQuizScore ?? 0) * 100)}%)`
+                        : item.status === 'explained' ? 'اختبر نفسك في هذا الدرس'
+                        : 'ابدأ شرح هذا الدرس'}
+                    </span>
+                  </span>
+                  <ChevronLeft size={18} className="text-indigo-500 shrink-0" />
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3 flex-wrap text-xs">
+          {(Object.keys(LESSON_STATUS_LABELS) as LessonStatus[]).map(status => (
+            <span key={status} className={`px-2 py-0.5 rounded-full border ${STATUS_STYLES[status]}`}>{LESSON_STATUS_LABELS[status]}</span>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {mastery.lessons.map(item => (
+            <div key={item.lesson.id} className={`rounded-xl border-2 px-3 py-2 text-sm ${STATUS_STYLES[item.status]}`}>
+              <p className="font-medium leading-snug">{item.lesson.title}</p>
+              <p className="text-[11px] opacity-80 mt-0.5">
+                {LESSON_STATUS_LABELS[item.status]}
+                {item.bestQuizScore !== undefined && ` • ${Math.round(item.bestQuizScore * 100)}%`}
+              </p>
+            </div>
+          ))}
+          {mastery.lessons.length === 0 && <p className="text-sm text-slate-500">لا توجد دروس مسجلة لهذه المادة بعد.</p>}
+        </div>
+      </div>
+    </div>
+  </div>
+);
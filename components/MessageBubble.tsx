@@ -1,19 +1,21 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Message, Sender, Subject } from '../types';
 import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
-import { Bot, User, Copy, Search, Check, HelpCircle, Volume2, StopCircle, Loader2 } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, BarChart, Bar, AreaChart, Area, Label } from 'recharts';
+import { Bot, User, Copy, Search, Check, HelpCircle, Volume2, StopCircle, Loader2, BookmarkPlus } from 'lucide-react';
 import { streamSpeech } from '../services/geminiService';
+import { FlashcardSource } from '../services/flashcards';
+import { ANSWER_REMARK_PLUGINS, ANSWER_REHYPE_PLUGINS, renderAnswerBlock } from './AnswerBlocks';
+import { normalizeMathDelimiters } from '../services/math';
 
 interface MessageBubbleProps {
   message: Message;
   subject?: Subject;
   onTermClick?: (term: string) => void;
   onQuote?: (text: string) => void;
+  onSaveFlashcard?: (source: Exclude<FlashcardSource, 'lesson'>, text: string) => void;
 }
 
-export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject, onTermClick, onQuote }) => {
+export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject, onTermClick, onQuote, onSaveFlashcard }) => {
   const isUser = message.sender === Sender.USER;
   const [isCopied, setIsCopied] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -38,6 +40,10 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
     if (!children) return '';
     if (typeof children === 'string') return children;
     if (Array.isArray(children)) return children.map(extractText).join('');
+    // Rendered formulas: keep the TeX source, not the glyphs
+    if (children?.props?.className === 'katex-html') return '';
+    if (children?.type === 'annotation') return `$${extractText(children.props.children)}$`;
+    if (children?.type === 'semantics') return extractText([].concat(children.props.children).filter((c: any) => c?.type === 'annotation'));
     if (children?.props?.children) return extractText(children.props.children);
     return '';
   };
@@ -75,6 +81,8 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
         // Clean text: Remove markdown, URLs, charts, etc.
         const cleanText = message.text
             .replace(/```[\s\S]*?```/g, '') // Remove code/chart blocks
+            .replace(/\$\$[\s\S]*?\$\$/g, '') // Display formulas are not read aloud
+            .replace(/\\[a-zA-Z]+|[${}^]/g, ' ')
             .replace(/[*#`_\-]/g, ' ')
             .replace(/https?:\/\/\S+/g, 'رابط')
             .trim()
@@ -168,17 +176,16 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
       }
   };
 
-  // ROBUST JSON CLEANER
-  const cleanJsonString = (str: string): string => {
-      let clean = str;
-      clean = clean.replace(/\/\/.*$/gm, "").replace(/\/\*[\s\S]*?\*\//g, "");
-      clean = clean.replace(/[\n\r\t]/g, " ");
-      clean = clean.replace(/}\s*{/g, '}, {');
-      clean = clean.replace(/,(\s*[}\]])/g, "$1");
-      clean = clean.replace(/([{,]\s*)([a-zA-Z0-9_]+)\s*:/g, '$1"$2":');
-      clean = clean.replace(/(\d+)\.\s*([,}\]])/g, "$1.0$2");
-      return clean;
-  };
+  // Hover action on an answer line; must not trigger the line's own quote click
+  const renderSaveLine = (text: string) => onSaveFlashcard && text.trim() && (
+    <button
+      onClick={(e) => { e.stopPropagation(); onSaveFlashcard('quote', text); }}
+      className="absolute left-1 top-1 p-1 rounded-md bg-white/90 border border-slate-200 text-slate-400 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity no-print"
+      title="حفظ كبطاقة مراجعة"
+    >
+      <BookmarkPlus size={14} />
+    </button>
+  );
 
   return (
     <div className={`flex w-full mb-3 md:mb-5 pop-in ${isUser ? 'justify-end' : 'justify-start'} print:block print:mb-4 print:w-full`}>
@@ -234,6 +241,18 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
                   {isCopied ? <Check size={14} /> : <Copy size={14} />}
                   {isCopied ? 'تم النسخ' : 'نسخ'}
                 </button>
+
+                {/* Save as flashcard */}
+                {onSaveFlashcard && !message.isStreaming && (
+                  <button
+                    onClick={() => onSaveFlashcard('answer', message.text)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs md:text-sm font-bold border transition-all active:scale-95 bg-slate-50 text-slate-600 border-slate-200 hover:bg-indigo-50 hover:text-indigo-600"
+                    title="حفظ الإجابة كبطاقة مراجعة"
+                  >
+                    <BookmarkPlus size={14} />
+                    بطاقة
+                  </button>
+                )}
               </div>
             )}
 
@@ -242,7 +261,8 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
               <p className="whitespace-pre-wrap">{message.text}</p>
             ) : (
               <ReactMarkdown 
-                remarkPlugins={[remarkGfm]}
+                remarkPlugins={ANSWER_REMARK_PLUGINS}
+                rehypePlugins={ANSWER_REHYPE_PLUGINS}
                 components={{
                   
                   p: ({node, children, ...props}) => {
@@ -252,6 +272,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
                             <div onClick={() => onQuote && onQuote(text)}>
                                 <p className="inline" {...props}>{children}</p>
                             </div>
+                            {renderSaveLine(text)}
                         </div>
                     );
                   },
@@ -265,6 +286,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
                             {...props}
                         >
                             <span>{children}</span>
+                            {renderSaveLine(text)}
                         </li>
                     );
                   },
@@ -273,67 +295,32 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
                     <a className="text-blue-600 underline" {...props} />
                   ),
 
-                  // CHARTS
+                  // CHARTS, PLOTS AND DIAGRAMS
                   code: ({node, inline, className, children, ...props}: any) => {
                     const match = /language-(\w+)/.exec(className || '');
-                    const isChart = match && match[1] === 'chart';
-
-                    if (!inline && isChart) {
-                        try {
-                           const raw = String(children);
-                           const cleaned = cleanJsonString(raw);
-                           const chartData = JSON.parse(cleaned);
-
-                           return (
-                              <div className="my-6 w-full h-72 bg-white p-4 rounded-xl border shadow-sm" dir="ltr">
-                                  <h4 className="text-center font-bold mb-3">{chartData.title}</h4>
-                                  <ResponsiveContainer width="100%" height="100%">
-                                      {chartData.type === 'bar' ? (
-                                           <BarChart data={chartData.data}>
-                                               <CartesianGrid strokeDasharray="3 3" />
-                                               <XAxis dataKey="x" />
-                                               <YAxis />
-                                               <RechartsTooltip />
-                                               <Bar dataKey="y" fill="#4f46e5" />
-                                           </BarChart>
-                                      ) : chartData.type === 'area' ? (
-                                           <AreaChart data={chartData.data}>
-                                               <CartesianGrid strokeDasharray="3 3" />
-                                               <XAxis dataKey="x" />
-                                               <YAxis />
-                                               <RechartsTooltip />
-                                               <Area type="monotone" dataKey="y" stroke="#059669" fill="#10b981" fillOpacity={0.3} />
-                                           </AreaChart>
-                                      ) : (
-                                           <LineChart data={chartData.data}>
-                                               <CartesianGrid strokeDasharray="3 3" />
-                                               <XAxis dataKey="x" />
-                                               <YAxis />
-                                               <RechartsTooltip />
-                                               <Line type="monotone" dataKey="y" stroke="#059669" strokeWidth={3} />
-                                           </LineChart>
-                                      )}
-                                  </ResponsiveContainer>
-                              </div>
-                           );
-                        } catch {
-                           return (
-                             <div className="text-red-500 text-sm p-3 bg-red-50 border rounded">
-                               ⚠️ تعذر عرض الرسم البياني
-                             </div>
-                           );
-                        }
-                    }
+                    const block = !inline && renderAnswerBlock(match?.[1], String(children), { isStreaming: message.isStreaming });
+                    if (block) return block;
 
                     if (inline) {
                       return (
-                        <button 
-                          onClick={() => onTermClick && onTermClick(String(children))}
-                          className="inline-flex items-center mx-1 px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 border"
-                        >
-                          <Search size={12} />
-                          <span className="font-bold ml-1">{children}</span>
-                        </button>
+                        <span className="inline-flex items-center mx-1 rounded-full bg-indigo-50 text-indigo-700 border">
+                          <button 
+                            onClick={() => onTermClick && onTermClick(String(children))}
+                            className="inline-flex items-center px-2 py-0.5"
+                          >
+                            <Search size={12} />
+                            <span className="font-bold ml-1">{children}</span>
+                          </button>
+                          {onSaveFlashcard && (
+                            <button
+                              onClick={() => onSaveFlashcard('term', String(children))}
+                              className="pl-2 pr-1 py-0.5 border-r border-indigo-100 hover:text-indigo-900 no-print"
+                              title="حفظ المصطلح كبطاقة"
+                            >
+                              <BookmarkPlus size={12} />
+                            </button>
+                          )}
+                        </span>
                       );
                     }
 
@@ -345,7 +332,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, subject,
                   }
                 }}
               >
-                {message.text}
+                {normalizeMathDelimiters(message.text)}
               </ReactMarkdown>
             )}
           </div>
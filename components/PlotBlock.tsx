@@ -0,0 +1,188 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Legend, Label, ReferenceDot, Tooltip as RechartsTooltip, ResponsiveContainer } from 'recharts';
+import { PlotSpec, PlotParameter, parsePlotSpec, initialPlotValues, samplePlot } from '../services/plot';
+import { formatAxisTitle } from '../services/chart';
+import { SquareFunction, RotateCcw, Play, Pause } from 'lucide-react';
+import { BlockPlaceholder, BlockFallback } from './BlockStatus';
+
+interface PlotBlockProps {
+  source: string; // body of the ```plot block
+  isStreaming?: boolean;
+  isStatic?: boolean; // printed copy: the starting values are listed instead of sliders
+}
+
+type PlotParseState = { spec: PlotSpec; error?: undefined } | { spec?: undefined; error: string };
+
+const ANIMATION_MS = 3000;
+
+// Enough decimals to show one slider step
+const formatValue = (value: number, step: number) =>
+  value.toFixed(step >= 1 ? 0 : Math.min(4, Math.ceil(-Math.log10(step))));
+
+interface ParameterSliderProps {
+  parameter: PlotParameter;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+const ParameterValue: React.FC<{ parameter: PlotParameter; value: number }> = ({ parameter, value }) => (
+  <span className="font-mono text-indigo-700 bg-indigo-50 px-2 rounded-md" dir="ltr">
+    {parameter.name} = {formatValue(value, parameter.step)}{parameter.unit ? ` ${parameter.unit}` : ''}
+  </span>
+);
+
+const ParameterSlider: React.FC<ParameterSliderProps> = ({ parameter, value, onChange }) => (
+  <label className="block text-sm">
+    <span className="flex items-center justify-between gap-2 mb-1">
+      <span className="font-bold text-slate-700">{parameter.label}</span>
+      <ParameterValue parameter={parameter} value={value} />
+    </span>
+    <input
+      type="range"
+      min={parameter.min}
+      max={parameter.max}
+      step={parameter.step}
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      className="w-full accent-indigo-600"
+      dir="ltr"
+    />
+  </label>
+);
+
+export const PlotBlock: React.FC<PlotBlockProps> = ({ source, isStreaming, isStatic }) => {
+  const parsed = useMemo<PlotParseState>(() => {
+    try {
+      return { spec: parsePlotSpec(source) };
+    } catch (e: any) {
+      return { error: e.message };
+    }
+  }, [source]);
+
+  const [values, setValues] = useState<Record<string, number>>({});
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null); // 0..1 along the domain, null hides the marker
+
+  useEffect(() => {
+    if (parsed.spec) setValues(initialPlotValues(parsed.spec));
+  }, [parsed]);
+
+  const curvePoints = useMemo(
+    () => (parsed.spec ? samplePlot(parsed.spec, { ...initialPlotValues(parsed.spec), ...values }) : null),
+    [parsed, values]
+  );
+
+  // Moves a marker along the curves from the start of the domain to its end; pausing keeps it where it is
+  useEffect(() => {
+    if (!isPlaying) return;
+    const from = progress !== null && progress < 1 ? progress : 0;
+    const startedAt = performance.now() - from * ANIMATION_MS;
+    let frame = requestAnimationFrame(function tick(now) {
+      const next = Math.min(1, (now - startedAt) / ANIMATION_MS);
+      setProgress(next);
+      if (next < 1) frame = requestAnimationFrame(tick);
+      else setIsPlaying(false);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  if (isStreaming) return <BlockPlaceholder label="جاري تجهيز الرسم التفاعلي..." />;
+  if (parsed.error !== undefined) return <BlockFallback title="تعذر عرض الرسم التفاعلي" reason={parsed.error} source={source} />;
+
+  const { spec } = parsed;
+  const hasMotion = spec.curves.some(curve => curve.kind === 'parametric');
+  const xTitle = formatAxisTitle(spec.xAxis);
+  const yTitle = formatAxisTitle(spec.yAxis);
+
+  const markers = progress === null || !curvePoints ? [] : curvePoints.flatMap((points, i) => {
+    const point = points[Math.min(points.length - 1, Math.round(progress * (points.length - 1)))];
+    return point && point.y !== null ? [{ ...point, color: spec.curves[i].color }] : [];
+  });
+
+  return (
+    <div className="my-6 w-full bg-white p-4 rounded-xl border shadow-sm">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h4 className="font-bold flex items-center gap-2"><SquareFunction size={18} className="text-indigo-500" />{spec.title || 'رسم تفاعلي'}</h4>
+        {!isStatic && <div className="flex items-center gap-1 shrink-0">
+          {hasMotion && (
+            <button
+              onClick={() => setIsPlaying(!isPlaying)}
+              className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-bold bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+            >
+              {isPlaying ? <Pause size={14} /> : <Play size={14} />}{isPlaying ? 'إيقاف' : 'تشغيل الحركة'}
+            </button>
+          )}
+          {spec.parameters.length > 0 && (
+            <button
+              onClick={() => { setValues(initialPlotValues(spec)); setIsPlaying(false); setProgress(null); }}
+              className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100"
+              title="إرجاع القيم الأصلية"
+            >
+              <RotateCcw size={14} />
+            </button>
+          )}
+        </div>}
+      </div>
+
+      <div className="w-full h-72" dir="ltr">
+        {curvePoints ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart margin={{ top: 10, right: 20, bottom: xTitle ? 20 : 5, left: yTitle ? 10 : 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="x" type="number" domain={['dataMin', 'dataMax']} allowDuplicatedCategory={false} tickFormatter={v => String(Number(v.toFixed(2)))}>
+                {xTitle && <Label value={xTitle} position="insideBottom" offset={-10} />}
+              </XAxis>
+              <YAxis type="number" domain={spec.range || ['auto', 'auto']} allowDataOverflow={Boolean(spec.range)} tickFormatter={v => String(Number(v.toFixed(2)))}>
+                {yTitle && <Label value={yTitle} angle={-90} position="insideLeft" style={{ textAnchor: 'middle' }} />}
+              </YAxis>
+              <RechartsTooltip formatter={(value: any) => (typeof value === 'number' ? Number(value.toFixed(3)) : value)} labelFormatter={(value: any) => `x = ${Number(Number(value).toFixed(3))}`} />
+              {spec.curves.length > 1 && <Legend verticalAlign="top" />}
+              {spec.curves.map((curve, i) => (
+                <Line
+                  key={i}
+                  data={curvePoints[i]}
+                  dataKey="y"
+                  name={curve.label}
+                  stroke={curve.color}
+                  strokeWidth={3}
+                  dot={false}
+                  isAnimationActive={false}
+                  type="linear"
+                />
+              ))}
+              {markers.map((marker, i) => (
+                <ReferenceDot key={i} x={marker.x} y={marker.y} r={7} fill={marker.color} stroke="#fff" strokeWidth={2} ifOverflow="extendDomain" />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-full flex items-center justify-center text-sm text-slate-500" dir="rtl">لا يمكن الرسم بهذه القيم، جرّب تحريك المؤشرات.</div>
+        )}
+      </div>
+
+      {spec.parameters.length > 0 && isStatic && (
+        <div className="mt-3 flex flex-wrap gap-x-4 gap-y-2 justify-center text-sm" dir="rtl">
+          {spec.parameters.map(parameter => (
+            <span key={parameter.name} className="flex items-center gap-1.5">
+              <span className="font-bold text-slate-700">{parameter.label}:</span>
+              <ParameterValue parameter={parameter} value={parameter.value} />
+            </span>
+          ))}
+        </div>
+      )}
+
+      {spec.parameters.length > 0 && !isStatic && (
+        <div className="mt-4 grid gap-3 md:grid-cols-2 bg-slate-50 rounded-xl p-3" dir="rtl">
+          {spec.parameters.map(parameter => (
+            <ParameterSlider
+              key={parameter.name}
+              parameter={parameter}
+              value={values[parameter.name] ?? parameter.value}
+              onChange={value => setValues(current => ({ ...current, [parameter.name]: value }))}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { GradeLevel, Track } from '../types';
+import { TRACKS_BY_GRADE } from '../curriculum';
+import {
+  StudentProfile, SchoolType, ExplanationStyle, SCHOOL_TYPE_LABELS, EXPLANATION_STYLE_LABELS, TARGET_SCORE_RANGE,
+} from '../services/profile';
+import { UserRound, ChevronRight, ChevronLeft, Check } from 'lucide-react';
+
+interface ProfileOnboardingProps {
+  initial: StudentProfile;
+  onComplete: (profile: StudentProfile) => void;
+  onCancel?: () => void; // only when editing an existing profile
+}
+
+type OnboardingStep = 'name' | 'grade' | 'track' | 'school' | 'target' | 'style';
+
+const STEP_TITLES: Record<OnboardingStep, string> = {
+  name: 'ما اسمك؟',
+  grade: 'في أي صف أنت؟',
+  track: 'ما شعبتك؟',
+  school: 'نوع مدرستك',
+  target: 'كم مجموعك المستهدف؟',
+  style: 'كيف تحب أن أشرح لك؟',
+};
+
+const TARGET_PRESETS = [70, 85, 95, 99];
+
+interface ChoiceButtonProps {
+  isSelected: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+const ChoiceButton: React.FC<ChoiceButtonProps> = ({ isSelected, onClick, children }) => (
+  <button
+    onClick={onClick}
+    className={`w-full p-4 rounded-2xl border-2 flex items-center justify-between text-right font-bold transition-all ${isSelected ? 'border-indigo-500 bg-indigo-50 text-indigo-800' : 'border-slate-100 bg-white text-slate-800 hover:border-indigo-300'}`}
+  >
+    <span>{children}</span>
+    {isSelected && <Check size={20} className="text-indigo-600 shrink-0" />}
+  </button>
+);
+
+export const ProfileOnboarding: React.FC<ProfileOnboardingProps> = ({ initial, onComplete, onCancel }) => {
+  const [profile, setProfile] = useState<StudentProfile>({
+    schoolType: 'public',
+    targetScore: 90,
+    explanationStyle: 'concise',
+    ...initial,
+  });
+  const [stepIndex, setStepIndex] = useState(0);
+
+  const hasTracks = profile.grade ? TRACKS_BY_GRADE[profile.grade].length > 0 : false;
+  const steps: OnboardingStep[] = ['name', 'grade', ...(hasTracks ? ['track' as const] : []), 'school', 'target', 'style'];
+  const step = steps[stepIndex];
+  const isLastStep = stepIndex === steps.length - 1;
+
+  const update = (changes: Partial<StudentProfile>) => setProfile(current => ({ ...current, ...changes }));
+
+  // A track chosen for another grade does not carry over
+  const selectGrade = (grade: GradeLevel) =>
+    update({ grade, track: profile.track && TRACKS_BY_GRADE[grade].includes(profile.track) ? profile.track : undefined });
+
+  const canContinue =
+    (step === 'name' && Boolean(profile.name?.trim())) ||
+    (step === 'grade' && Boolean(profile.grade)) ||
+    (step === 'track' && Boolean(profile.track)) ||
+    (step === 'target' && (profile.targetScore ?? 0) >= TARGET_SCORE_RANGE.min && (profile.targetScore ?? 0) <= TARGET_SCORE_RANGE.max) ||
+    step === 'school' || step === 'style';
+
+  const goNext = () => {
+    if (!canContinue) return;
+    if (isLastStep) onComplete({ ...profile, name: profile.name?.trim() });
+    else setStepIndex(stepIndex + 1);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-indigo-50 flex flex-col items-center justify-center p-4" dir="rtl">
+      <div className="max-w-md w-full bg-white rounded-3xl shadow-2xl overflow-hidden">
+        <div className="bg-indigo-600 p-8 text-center text-white">
+          <div className="mx-auto bg-white/20 w-16 h-16 rounded-full flex items-center justify-center mb-4">
+            <UserRound size={32} />
+          </div>
+          <h1 className="text-2xl font-black mb-2">{STEP_TITLES[step]}</h1>
+          <p className="text-indigo-100 text-sm">حتى يشرح لك المعلم الذكي على مستواك وباسمك</p>
+          <div className="flex justify-center gap-1.5 mt-5">
+            {steps.map((s, i) => (
+              <div key={s} className={`h-1.5 rounded-full transition-all ${i === stepIndex ? 'w-8 bg-white' : i < stepIndex ? 'w-3 bg-white/80' : 'w-3 bg-white/30'}`} />
+            ))}
+          </div>
+        </div>
+
+        <div className="p-6 space-y-3 min-h-[280px]">
+          {step === 'name' && (
+            <input
+              autoFocus
+              value={profile.name || ''}
+              onChange={e => update({ name: e.target.value })}
+              onKeyDown={e => e.key === 'Enter' && goNext()}
+              maxLength={30}
+              placeholder="اكتب اسمك الأول"
+              className="w-full p-4 rounded-2xl border-2 border-slate-200 focus:border-indigo-500 outline-none text-lg font-bold"
+            />
+          )}
+
+          {step === 'grade' && Object.values(GradeLevel).map(grade => (
+            <ChoiceButton key={grade} isSelected={profile.grade === grade} onClick={() => selectGrade(grade)}>{grade}</ChoiceButton>
+          ))}
+
+          {step === 'track' && profile.grade && TRACKS_BY_GRADE[profile.grade].map((track: Track) => (
+            <ChoiceButton key={track} isSelected={profile.track === track} onClick={() => update({ track })}>{track}</ChoiceButton>
+          ))}
+
+          {step === 'school' && (Object.keys(SCHOOL_TYPE_LABELS) as SchoolType[]).map(type => (
+            <ChoiceButton key={type} isSelected={profile.schoolType === type} onClick={() => update({ schoolType: type })}>{SCHOOL_TYPE_LABELS[type]}</ChoiceButton>
+          ))}
+
+          {step === 'target' && (
+            <>
+              <div className="flex items-center justify-center gap-2 py-2">
+                <input
+                  type="number"
+                  min={TARGET_SCORE_RANGE.min}
+                  max={TARGET_SCORE_RANGE.max}
+                  value={profile.targetScore ?? ''}
+                  onChange={e => update({ targetScore: e.target.value ? Number(e.target.value) : undefined })}
+                  className="w-28 p-3 rounded-2xl border-2 border-slate-200 focus:border-indigo-500 outline-none text-3xl font-black text-center"
+                  dir="ltr"
+                />
+                <span className="text-3xl font-black text-slate-400">%</span>
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                {TARGET_PRESETS.map(score => (
+                  <button
+                    key={score}
+                    onClick={() => update({ targetScore: score })}
+                    className={`py-2 rounded-xl border-2 font-bold ${profile.targetScore === score ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-100 text-slate-600 hover:border-indigo-300'}`}
+                  >
+                    {score}%
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-slate-400 text-center">بين {TARGET_SCORE_RANGE.min}% و {TARGET_SCORE_RANGE.max}%</p>
+            </>
+          )}
+
+          {step === 'style' && (Object.keys(EXPLANATION_STYLE_LABELS) as ExplanationStyle[]).map(style => (
+            <ChoiceButton key={style} isSelected={profile.explanationStyle === style} onClick={() => update({ explanationStyle: style })}>{EXPLANATION_STYLE_LABELS[style]}</ChoiceButton>
+          ))}
+        </div>
+
+        <div className="p-5 border-t border-slate-100 flex items-center gap-3">
+          {stepIndex > 0 ? (
+            <button onClick={() => setStepIndex(stepIndex - 1)} className="px-4 py-3 rounded-xl text-slate-600 font-bold hover:bg-slate-50 flex items-center gap-1">
+              <ChevronRight size={18} />رجوع
+            </button>
+          ) : onCancel && (
+            <button onClick={onCancel} className="px-4 py-3 rounded-xl text-slate-600 font-bold hover:bg-slate-50">إلغاء</button>
+          )}
+          <button
+            onClick={goNext}
+            disabled={!canContinue}
+            className="flex-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-400 text-white font-bold py-3 rounded-xl flex items-center justify-center gap-1 transition-colors"
+          >
+            {isLastStep ? 'ابدأ المذاكرة' : 'التالي'}
+            {!isLastStep && <ChevronLeft size={18} />}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
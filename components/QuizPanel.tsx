@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GradeLevel, Subject, Track } from '../types';
+import { getCurriculumFor, findLesson } from '../curriculum';
+import { generateQuiz } from '../services/geminiService';
+import { recordQuizResult } from '../services/progress';
+import { Quiz, QuizQuestion, QuizAnswer, QUESTION_KIND_LABELS, isCorrectAnswer, getCorrectAnswerText, scoreQuiz } from '../services/quiz';
+import { X, ListChecks, CheckCircle2, XCircle, Loader2, RotateCcw, Lightbulb } from 'lucide-react';
+
+interface QuizPanelProps {
+  isOpen: boolean;
+  grade: GradeLevel;
+  subject: Subject;
+  track?: Track;
+  onClose: () => void;
+}
+
+const QUESTION_COUNTS = [4, 6, 10];
+
+interface QuestionCardProps {
+  question: QuizQuestion;
+  index: number;
+  answer: QuizAnswer | undefined;
+  onAnswer: (answer: QuizAnswer) => void;
+}
+
+const QuestionCard: React.FC<QuestionCardProps> = ({ question, index, answer, onAnswer }) => {
+  const [typed, setTyped] = useState('');
+  const isAnswered = answer !== undefined;
+  const isCorrect = isCorrectAnswer(question, answer);
+
+  const optionClass = (i: number) => {
+    if (!isAnswered) return 'bg-white border-slate-200 hover:border-indigo-400 hover:bg-indigo-50';
+    if (i === question.correctIndex) return 'bg-emerald-50 border-emerald-400 text-emerald-800';
+    if (i === answer) return 'bg-red-50 border-red-400 text-red-700';
+    return 'bg-white border-slate-200 opacity-60';
+  };
+
+  return (
+    <div className={`rounded-2xl border-2 p-4 md:p-5 bg-slate-50 transition-colors ${isAnswered ? (isCorrect ? 'border-emerald-300' : 'border-red-300') : 'border-slate-200'}`}>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-bold text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded-full">{QUESTION_KIND_LABELS[question.kind]}</span>
+        {isAnswered && (isCorrect
+          ? <CheckCircle2 size={20} className="text-emerald-500" />
+          : <XCircle size={20} className="text-red-500" />)}
+      </div>
+      <p className="font-bold text-slate-800 mb-3 leading-relaxed">{index + 1}. {question.question}</p>
+
+      {question.kind === 'complete' ? (
+        <form
+          className="flex gap-2"
+          onSubmit={e => { e.preventDefault(); if (typed.trim()) onAnswer(typed); }}
+        >
+          <input
+            value={isAnswered ? String(answer) : typed}
+            onChange={e => setTyped(e.target.value)}
+            disabled={isAnswered}
+            placeholder="اكتب الإجابة..."
+            className="flex-1 bg-white border border-slate-300 rounded-xl px-3 py-2 text-slate-900 outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-80"
+          />
+          {!isAnswered && (
+            <button type="submit" disabled={!typed.trim()} className="px-4 py-2 rounded-xl bg-indigo-600 text-white font-bold disabled:bg-slate-300">تحقق</button>
+          )}
+        </form>
+      ) : (
+        <div className={`grid gap-2 ${question.kind === 'true_false' ? 'grid-cols-2' : 'grid-cols-1 md:grid-cols-2'}`}>
+          {question.options.map((option, i) => (
+            <button
+              key={i}
+              onClick={() => onAnswer(i)}
+              disabled={isAnswered}
+              className={`text-right px-3 py-2.5 rounded-xl border-2 font-medium transition-all ${optionClass(i)}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isAnswered && !isCorrect && (
+        <div className="mt-3 bg-amber-50 border border-amber-200 rounded-xl p-3 text-sm text-amber-900 flex gap-2">
+          <Lightbulb size={18} className="shrink-0 text-amber-500" />
+          <div>
+            <p className="font-bold">الإجابة الصحيحة: {getCorrectAnswerText(question)}</p>
+            {question.explanation && <p className="mt-1 leading-relaxed">{question.explanation}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const QuizPanel: React.FC<QuizPanelProps> = ({ isOpen, grade, subject, track, onClose }) => {
+  const units = getCurriculumFor(grade, subject, track);
+  // A lesson id when the subject has a curriculum, otherwise the topic the student typed
+  const [lesson, setLesson] = useState('');
+  const [count, setCount] = useState(QUESTION_COUNTS[1]);
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [quizVersion, setQuizVersion] = useState(0);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState('');
+  const recordedVersionRef = useRef(0);
+
+  // A new subject starts from the lesson picker
+  useEffect(() => {
+    setQuiz(null);
+    setAnswers({});
+    setLesson(units[0]?.lessons[0]?.id || '');
+  }, [grade, subject, track]);
+
+  const startQuiz = async () => {
+    if (!lesson.trim()) return;
+    setIsGenerating(true);
+    setError('');
+    const picked = findLesson(grade, subject, lesson);
+    const result = await generateQuiz(grade, subject, picked?.title || lesson.trim(), count);
+    setIsGenerating(false);
+    if (!result) {
+      setError('تعذر إنشاء الاختبار، حاول مرة أخرى.');
+      return;
+    }
+    setAnswers({});
+    setQuiz({ ...result, lessonId: picked?.id });
+    setQuizVersion(v => v + 1);
+  };
+
+  const score = quiz ? scoreQuiz(quiz, answers) : null;
+  const isFinished = quiz !== null && Object.keys(answers).length === quiz.questions.length;
+
+  // Each finished quiz on a curriculum lesson is recorded once in that lesson's progress
+  useEffect(() => {
+    if (!isFinished || !quiz || !score || recordedVersionRef.current === quizVersion) return;
+    recordedVersionRef.current = quizVersion;
+    const quizLesson = quiz.lessonId && findLesson(grade, subject, quiz.lessonId);
+    if (!quizLesson) return;
+    recordQuizResult(grade, subject, quizLesson, score.correct, score.total).catch(e => console.error("Progress Error:", e));
+  }, [isFinished, quizVersion]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-900/60 flex items-center justify-center p-2 md:p-6 no-print" dir="rtl">
+      <div className="w-full max-w-2xl max-h-full bg-white rounded-3xl shadow-2xl flex flex-col pop-in overflow-hidden">
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+          <div className="min-w-0">
+            <h2 className="font-bold text-slate-800 flex items-center gap-2"><ListChecks size={20} className="text-indigo-600" />اختبار قصير</h2>
+            <p className="text-xs text-slate-500 truncate">{quiz ? quiz.lesson : `${subject} • ${grade}`}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {score && (
+              <span className="text-sm font-bold bg-indigo-50 text-indigo-700 px-3 py-1 rounded-full">{score.correct} / {score.total}</span>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500"><X size={20} /></button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {!quiz ? (
+            <div className="space-y-4">
+              <label className="block">
+                <span className="text-sm font-bold text-slate-700">الدرس</span>
+                {units.length > 0 ? (
+                  <select
+                    value={lesson}
+                    onChange={e => setLesson(e.target.value)}
+                    className="mt-1 w-full bg-slate-50 border border-slate-300 rounded-xl px-3 py-2.5 text-slate-900 outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    {units.map(unit => (
+                      <optgroup key={unit.id} label={unit.title}>
+                        {unit.lessons.map(l => <option key={l.id} value={l.id}>{l.title}</option>)}
+                      </optgroup>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    value={lesson}
+                    onChange={e => setLesson(e.target.value)}
+                    placeholder="اكتب اسم الدرس"
+                    className="mt-1 w-full bg-slate-50 border border-slate-300 rounded-xl px-3 py-2.5 text-slate-900 outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                )}
+              </label>
+
+              <div>
+                <span className="text-sm font-bold text-slate-700">عدد الأسئلة</span>
+                <div className="mt-1 flex gap-2">
+                  {QUESTION_COUNTS.map(n => (
+                    <button
+                      key={n}
+                      onClick={() => setCount(n)}
+                      className={`flex-1 py-2 rounded-xl border-2 font-bold ${count === n ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600'}`}
+                    >
+                      {n}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {error && <p className="text-sm text-red-500 font-bold">{error}</p>}
+
+              <button
+                onClick={startQuiz}
+                disabled={!lesson.trim() || isGenerating}
+                className="w-full py-3 rounded-2xl bg-indigo-600 hover:bg-indigo-700 text-white font-bold flex items-center justify-center gap-2 disabled:bg-slate-300"
+              >
+                {isGenerating ? <><Loader2 size={20} className="animate-spin" />جاري إعداد الأسئلة...</> : 'ابدأ الاختبار'}
+              </button>
+            </div>
+          ) : (
+            <>
+              {quiz.questions.map((question, i) => (
+                <QuestionCard
+                  key={`${quizVersion}-${question.id}`}
+                  question={question}
+                  index={i}
+                  answer={answers[question.id]}
+                  onAnswer={answer => setAnswers(prev => ({ ...prev, [question.id]: answer }))}
+                />
+              ))}
+
+              {isFinished && score && (
+                <div className="rounded-2xl bg-indigo-600 text-white p-5 text-center pop-in">
+                  <p className="text-3xl font-black">{score.correct} / {score.total}</p>
+                  <p className="mt-1 font-medium">
+                    {score.correct === score.total ? 'ممتاز! إجابات كاملة 🎉' : score.correct / score.total >= 0.5 ? 'أداء جيد، راجع الأسئلة التي أخطأت فيها.' : 'تحتاج لمراجعة الدرس مرة أخرى.'}
+                  </p>
+                </div>
+              )}
+
+              {error && <p className="text-sm text-red-500 font-bold">{error}</p>}
+
+              <div className="flex gap-2">
+                <button onClick={startQuiz} disabled={isGenerating} className="flex-1 py-2.5 rounded-xl bg-slate-100 hover:bg-slate-200 text-slate-700 font-bold flex items-center justify-center gap-2">
+                  {isGenerating ? <Loader2 size={18} className="animate-spin" /> : <RotateCcw size={18} />}
+                  أسئلة جديدة
+                </button>
+                <button onClick={() => setQuiz(null)} className="flex-1 py-2.5 rounded-xl bg-slate-100 hover:bg-slate-200 text-slate-700 font-bold">
+                  درس آخر
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
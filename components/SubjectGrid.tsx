@@ -1,5 +1,10 @@
-import React from 'react';
-import { Subject, GradeLevel } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Subject, GradeLevel, Track } from '../types';
+import { getSubjectMastery, SubjectMastery } from '../services/progress';
+import { listFlashcards, isDue } from '../services/flashcards';
+import { getSubjectsFor } from '../curriculum';
+import { MasteryMap } from './MasteryMap';
+import { FlashcardDeck } from './FlashcardDeck';
 import { 
   BookOpen, 
   Calculator, 
@@ -14,12 +19,15 @@ import {
   BookType,
   Dna,
   ScrollText,
-  Flag
+  Flag,
+  MapIcon,
+  Layers
 } from 'lucide-react';
 
 interface SubjectGridProps {
   grade: GradeLevel;
-  onSelect: (subject: Subject) => void;
+  track?: Track;
+  onSelect: (subject: Subject, lessonId?: string) => void; // a lesson starts a conversation scoped to it
 }
 
 const subjectIcons: Partial<Record<Subject, React.ReactNode>> = {
@@ -41,69 +49,90 @@ const subjectIcons: Partial<Record<Subject, React.ReactNode>> = {
   [Subject.NATIONAL_EDUCATION]: <Flag className="w-10 h-10 text-red-800" />,
 };
 
-const SUBJECTS_BY_GRADE: Record<GradeLevel, Subject[]> = {
-  [GradeLevel.GRADE_10]: [
-    Subject.ARABIC,
-    Subject.ENGLISH,
-    Subject.MATH,
-    Subject.INTEGRATED_SCIENCES,
-    Subject.HISTORY,
-    Subject.PHILOSOPHY,
-    Subject.FRENCH,
-    Subject.GERMAN,
-    Subject.RELIGION,
-    Subject.NATIONAL_EDUCATION
-  ],
-  [GradeLevel.GRADE_11]: [
-    Subject.ARABIC,
-    Subject.ENGLISH,
-    Subject.MATH,
-    Subject.PHYSICS,
-    Subject.CHEMISTRY,
-    Subject.BIOLOGY,
-    Subject.HISTORY,
-    Subject.GEOGRAPHY,
-    Subject.PHILOSOPHY,
-    Subject.PSYCHOLOGY,
-    Subject.FRENCH,
-    Subject.GERMAN
-  ],
-  [GradeLevel.GRADE_12]: [
-    Subject.ARABIC,
-    Subject.ENGLISH,
-    Subject.MATH,
-    Subject.PHYSICS,
-    Subject.CHEMISTRY,
-    Subject.BIOLOGY,
-    Subject.GEOLOGY,
-    Subject.HISTORY,
-    Subject.GEOGRAPHY,
-    Subject.PHILOSOPHY,
-    Subject.PSYCHOLOGY,
-    Subject.FRENCH,
-    Subject.GERMAN
-  ]
-};
+export const SubjectGrid: React.FC<SubjectGridProps> = ({ grade, track, onSelect }) => {
+  const displayedSubjects = getSubjectsFor(grade, track);
+  const [mastery, setMastery] = useState<Partial<Record<Subject, SubjectMastery>>>({});
+  const [mapSubject, setMapSubject] = useState<Subject | null>(null);
+  const [deckSize, setDeckSize] = useState(0);
+  const [dueCount, setDueCount] = useState(0);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+
+  const loadDueCount = () => {
+    listFlashcards(grade)
+      .then(cards => { setDeckSize(cards.length); setDueCount(cards.filter(card => isDue(card)).length); })
+      .catch(e => console.error("Flashcards Load Error:", e));
+  };
+
+  useEffect(() => {
+    let isCancelled = false;
+    Promise.all(displayedSubjects.map(async subject => [subject, await getSubjectMastery(grade, subject, track)] as const))
+      .then(entries => { if (!isCancelled) setMastery(Object.fromEntries(entries)); })
+      .catch(e => console.error("Mastery Load Error:", e));
+    return () => { isCancelled = true; };
+  }, [grade, track]);
+
+  useEffect(loadDueCount, [grade]);
 
-export const SubjectGrid: React.FC<SubjectGridProps> = ({ grade, onSelect }) => {
-  const displayedSubjects = SUBJECTS_BY_GRADE[grade] || [];
+  const mapMastery = mapSubject ? mastery[mapSubject] : undefined;
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 p-4">
-      {displayedSubjects.map((subject) => (
-        <button
-          key={subject}
-          onClick={() => onSelect(subject)}
-          className="flex flex-row sm:flex-col items-center justify-start sm:justify-center p-5 sm:p-6 bg-white rounded-xl shadow-sm hover:shadow-md border border-slate-100 hover:border-indigo-200 transition-all duration-200 group"
-        >
-          <div className="mr-4 sm:mr-0 sm:mb-4 p-3 bg-slate-50 rounded-full group-hover:bg-indigo-50 transition-colors">
-            {subjectIcons[subject]}
-          </div>
-          <span className="text-lg font-bold text-slate-800 text-center group-hover:text-indigo-700">
-            {subject}
-          </span>
-        </button>
-      ))}
-    </div>
+    <>
+      {mapSubject && mapMastery && (
+        <MasteryMap grade={grade} subject={mapSubject} mastery={mapMastery} onClose={() => setMapSubject(null)} onStudy={onSelect} />
+      )}
+      <FlashcardDeck isOpen={isReviewOpen} grade={grade} onClose={() => setIsReviewOpen(false)} onChanged={loadDueCount} />
+      {deckSize > 0 && (
+        <div className="px-4 pt-4">
+          <button
+            onClick={() => setIsReviewOpen(true)}
+            className="w-full bg-indigo-50 hover:bg-indigo-100 border border-indigo-100 rounded-xl px-4 py-3 flex items-center justify-between text-right transition-colors"
+          >
+            <span className="flex items-center gap-2 font-bold text-indigo-800"><Layers size={20} />مراجعة اليوم</span>
+            <span className={`text-sm font-bold px-3 py-1 rounded-full ${dueCount > 0 ? 'bg-indigo-600 text-white' : 'bg-white text-slate-500'}`}>
+              {dueCount > 0 ? `${dueCount} بطاقة مستحقة` : 'لا شيء مستحق الآن'}
+            </span>
+          </button>
+        </div>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 p-4">
+        {displayedSubjects.map((subject) => {
+          const subjectMastery = mastery[subject];
+          const hasLessons = (subjectMastery?.lessons.length ?? 0) > 0;
+          return (
+            <div
+              key={subject}
+              className="bg-white rounded-xl shadow-sm hover:shadow-md border border-slate-100 hover:border-indigo-200 transition-all duration-200 flex flex-col overflow-hidden"
+            >
+              <button
+                onClick={() => onSelect(subject)}
+                className="flex flex-row sm:flex-col items-center justify-start sm:justify-center p-5 sm:p-6 group flex-1"
+              >
+                <div className="mr-4 sm:mr-0 sm:mb-4 p-3 bg-slate-50 rounded-full group-hover:bg-indigo-50 transition-colors">
+                  {subjectIcons[subject]}
+                </div>
+                <span className="text-lg font-bold text-slate-800 text-center group-hover:text-indigo-700">
+                  {subject}
+                </span>
+              </button>
+              {hasLessons && subjectMastery && (
+                <button
+                  onClick={() => setMapSubject(subject)}
+                  className="px-4 pb-3 pt-1 text-right group/map"
+                  title="خريطة الإتقان"
+                >
+                  <div className="flex items-center justify-between text-xs text-slate-500 mb-1 group-hover/map:text-indigo-600">
+                    <span className="flex items-center gap-1"><MapIcon size={12} />الإنجاز</span>
+                    <span className="font-bold">{subjectMastery.percent}%</span>
+                  </div>
+                  <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${subjectMastery.percent}%` }} />
+                  </div>
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </>
   );
 };
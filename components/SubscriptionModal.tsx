@@ -1,22 +1,27 @@
 import React, { useState, useEffect } from 'react';
-import { Lock, Key, Copy, CheckCircle, Smartphone, Send, AlertTriangle, Unlock, Sparkles, Package, BadgePercent } from 'lucide-react';
+import { Lock, Key, Copy, CheckCircle, Smartphone, Send, AlertTriangle, Unlock, Sparkles, Package, BadgePercent, Loader2, X, RefreshCw } from 'lucide-react';
+import { LICENSE_ERROR_MESSAGES } from '../services/license';
+import { activateLicense, Plan, PLANS } from '../services/subscription';
+import { useEntitlement } from '../hooks/useEntitlement';
 
 // --- إعدادات المدير ---
-const SALT = "SMART_EDU_EGYPT_2026"; 
-const MASTER_KEY = "ajmmaqled"; 
 const PHONE_NUMBER = "201221746554"; // رقمك مع كود مصر
 
-export const SubscriptionModal: React.FC = () => {
-  const [status, setStatus] = useState<'loading' | 'trial' | 'expired' | 'activated'>('loading');
-  const [daysLeft, setDaysLeft] = useState(0);
-  const [deviceId, setDeviceId] = useState('');
+interface SubscriptionModalProps {
+  // Opened from the renewal banners while the app is still usable
+  isRenewalOpen?: boolean;
+  onCloseRenewal?: () => void;
+}
+
+export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ isRenewalOpen = false, onCloseRenewal }) => {
+  const { entitlement } = useEntitlement();
   const [inputCode, setInputCode] = useState('');
   const [error, setError] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
 
-  useEffect(() => {
-    // Force redraw
-    checkSubscription();
-  }, []);
+  const status = entitlement?.status || 'loading';
+  const deviceId = entitlement?.deviceId || '';
+  const isRenewal = entitlement?.source === 'subscription';
 
   useEffect(() => {
      // LOCK BODY SCROLL IF EXPIRED
@@ -28,92 +33,68 @@ export const SubscriptionModal: React.FC = () => {
      return () => { document.body.style.overflow = 'unset'; }
   }, [status]);
 
-  const checkSubscription = () => {
-    const isActivated = localStorage.getItem('app_activated') === 'true';
-    if (isActivated) {
-      setStatus('activated');
-      return;
-    }
-
-    let storedId = localStorage.getItem('device_id');
-    if (!storedId) {
-      storedId = 'ID-' + Math.random().toString(36).substring(2, 8).toUpperCase();
-      localStorage.setItem('device_id', storedId);
-    }
-    setDeviceId(storedId);
-
-    const startDateStr = localStorage.getItem('trial_start_date');
-    let startDate = new Date();
-    if (!startDateStr) {
-      localStorage.setItem('trial_start_date', startDate.toISOString());
-    } else {
-      startDate = new Date(startDateStr);
-    }
-
-    const now = new Date();
-    const diffTime = Math.abs(now.getTime() - startDate.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
-    const remaining = 7 - diffDays;
-
-    if (remaining <= 0) {
-      setStatus('expired');
-      setDaysLeft(0);
-    } else {
-      setStatus('trial');
-      setDaysLeft(remaining);
-    }
-  };
-
-  const handleActivate = () => {
+  const handleActivate = async () => {
     const code = inputCode.trim();
-    const expectedCode = btoa(deviceId + SALT).substring(0, 12);
+    if (!code || isVerifying) return;
 
-    if (code === MASTER_KEY || code.toLowerCase() === MASTER_KEY.toLowerCase()) {
-      localStorage.setItem('app_activated', 'true');
-      setStatus('activated');
-      alert("مرحباً بك يا بطل! تم تفعيل نسختك الخاصة 🚀");
-      window.location.reload(); 
-    } else if (code === expectedCode) {
-      localStorage.setItem('app_activated', 'true');
-      setStatus('activated');
-      alert("تم التفعيل بنجاح! 🚀");
+    setIsVerifying(true);
+    setError('');
+    const result = await activateLicense(code);
+    setIsVerifying(false);
+
+    if (result.valid) {
+      alert(isRenewal ? "تم تجديد اشتراكك بنجاح! 🚀" : "تم التفعيل بنجاح! 🚀");
       window.location.reload(); 
     } else {
-      setError("كود التفعيل غير صحيح.");
+      setError(LICENSE_ERROR_MESSAGES[result.error || 'malformed']);
     }
   };
-  
-  const devUnlock = () => {
-      localStorage.setItem('app_activated', 'true');
-      window.location.reload();
+
+  const buildWhatsAppIntro = () => {
+    const action = isRenewal ? 'تجديد' : 'تفعيل';
+    const current = isRenewal && entitlement?.expiresAt
+      ? `%0aاشتراكي الحالي: ${entitlement.planName} (ينتهي ${entitlement.expiresAt.toLocaleDateString('ar-EG')}).`
+      : '';
+    return `مرحباً مستر، أريد ${action} اشتراك تطبيق 'المعلم الذكي'.%0aرقم جهازي هو: ${deviceId}${current}`;
   };
 
-  const handlePlanClick = (planName: string, price: string) => {
-    const message = `مرحباً مستر، أريد تفعيل اشتراك تطبيق 'المعلم الذكي'.%0aرقم جهازي هو: ${deviceId}%0aلقد اخترت: ${planName} (${price}).`;
+  const handlePlanClick = (plan: Plan) => {
+    const message = `${buildWhatsAppIntro()}%0aلقد اخترت: ${plan.name} (${plan.price}ج).`;
     window.open(`https://wa.me/${PHONE_NUMBER}?text=${message}`, '_blank');
   };
 
   const handleWhatsAppClick = () => {
-    const message = `مرحباً مستر، أريد تفعيل اشتراك تطبيق 'المعلم الذكي'.%0aرقم جهازي هو: ${deviceId}%0aلقد قمت بتحويل مبلغ الاشتراك (حدد: مادة 100ج / باقة 500ج).`;
+    const prices = Object.values(PLANS).map(p => `${p.name} ${p.price}ج`).join(' / ');
+    const message = `${buildWhatsAppIntro()}%0aلقد قمت بتحويل مبلغ الاشتراك (حدد: ${prices}).`;
     window.open(`https://wa.me/${PHONE_NUMBER}?text=${message}`, '_blank');
   };
 
-  if (status !== 'expired') return null;
+  const isLocked = status === 'expired';
+  if (!isLocked && !isRenewalOpen) return null;
 
   return (
     <div className="fixed inset-0 z-[9999] bg-slate-900/95 backdrop-blur-xl flex items-center justify-center p-4 font-sans dir-rtl text-right overflow-hidden" dir="rtl">
-      <div className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden border border-slate-200 animate-in zoom-in-95 duration-300 relative">
+      <div className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden border border-slate-200 animate-in zoom-in-95 duration-300 relative max-h-full overflow-y-auto">
         
-        {/* Hidden Dev Button */}
-        <button onClick={devUnlock} className="absolute top-2 left-2 opacity-0 w-10 h-10 z-50"></button>
+        {!isLocked && (
+          <button onClick={onCloseRenewal} className="absolute top-3 left-3 p-2 rounded-full text-slate-400 hover:bg-slate-100 hover:text-slate-600 z-10">
+            <X size={20} />
+          </button>
+        )}
 
         {/* Header */}
         <div className="bg-gradient-to-r from-red-50 to-white p-5 text-center border-b border-red-100">
-           <div className="mx-auto w-14 h-14 bg-red-100 rounded-full flex items-center justify-center mb-3 shadow-sm animate-bounce">
-             <Lock className="text-red-600 w-7 h-7" />
+           <div className={`mx-auto w-14 h-14 bg-red-100 rounded-full flex items-center justify-center mb-3 shadow-sm ${isLocked ? 'animate-bounce' : ''}`}>
+             {isLocked ? <Lock className="text-red-600 w-7 h-7" /> : <RefreshCw className="text-red-600 w-7 h-7" />}
            </div>
-           <h2 className="text-xl font-black text-slate-800">انتهت الفترة التجريبية</h2>
-           <p className="text-sm text-slate-600 font-medium mt-1">استثمر في مستقبلك واشترك الآن لمتابعة الدروس</p>
+           <h2 className="text-xl font-black text-slate-800">
+             {!isLocked ? (isRenewal ? 'تجديد الاشتراك' : 'اشترك الآن') : isRenewal ? 'انتهى اشتراكك' : 'انتهت الفترة التجريبية'}
+           </h2>
+           <p className="text-sm text-slate-600 font-medium mt-1">
+             {isRenewal && entitlement?.expiresAt
+               ? `${entitlement.planName} — ${isLocked ? 'انتهى' : 'ينتهي'} في ${entitlement.expiresAt.toLocaleDateString('ar-EG')}`
+               : 'استثمر في مستقبلك واشترك الآن لمتابعة الدروس'}
+           </p>
         </div>
 
         {/* Body */}
@@ -126,27 +107,23 @@ export const SubscriptionModal: React.FC = () => {
                  <span className="text-sm font-bold text-indigo-800">باقات الاشتراك المتاحة</span>
               </div>
               
-              <div className="grid grid-cols-2 gap-3">
-                 {/* Single Subject */}
-                 <button 
-                    onClick={() => handlePlanClick('المادة الواحدة', '100ج')}
-                    className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-center hover:border-indigo-500 hover:ring-2 hover:ring-indigo-200 transition-all active:scale-95"
-                 >
-                    <p className="text-xs text-slate-500 font-bold mb-1">المادة الواحدة</p>
-                    <p className="text-2xl font-black text-indigo-600">100<span className="text-xs text-slate-400 font-medium mr-1">ج.م</span></p>
-                    <p className="text-[10px] text-slate-400 mt-1">ترم كامل</p>
-                 </button>
-
-                 {/* Full Bundle */}
-                 <button 
-                    onClick={() => handlePlanClick('باقة الصف كاملة', '500ج')}
-                    className="bg-gradient-to-br from-indigo-600 to-purple-700 p-4 rounded-xl shadow-md text-center text-white relative overflow-hidden transform hover:scale-105 transition-all duration-200 active:scale-95"
-                 >
-                    <div className="absolute top-0 right-0 bg-yellow-400 text-indigo-900 text-[9px] font-bold px-2 py-0.5 rounded-bl-lg">توفير ضخم</div>
-                    <p className="text-xs text-indigo-100 font-bold mb-1">باقة الصف كاملة</p>
-                    <p className="text-2xl font-black text-white">500<span className="text-xs text-indigo-200 font-medium mr-1">ج.م</span></p>
-                    <p className="text-[10px] text-indigo-200 mt-1">كل المواد (ترم كامل)</p>
-                 </button>
+              <div className="grid grid-cols-3 gap-2">
+                 {Object.values(PLANS).map(plan => (
+                   <button 
+                      key={plan.id}
+                      onClick={() => handlePlanClick(plan)}
+                      className={plan.id === 'term'
+                        ? "bg-gradient-to-br from-indigo-600 to-purple-700 p-3 rounded-xl shadow-md text-center text-white relative overflow-hidden transform hover:scale-105 transition-all duration-200 active:scale-95"
+                        : "bg-white p-3 rounded-xl border border-slate-200 shadow-sm text-center hover:border-indigo-500 hover:ring-2 hover:ring-indigo-200 transition-all active:scale-95"}
+                   >
+                      {plan.id === 'term' && (
+                        <div className="absolute top-0 right-0 bg-yellow-400 text-indigo-900 text-[9px] font-bold px-2 py-0.5 rounded-bl-lg">الأكثر طلباً</div>
+                      )}
+                      <p className={`text-xs font-bold mb-1 ${plan.id === 'term' ? 'text-indigo-100' : 'text-slate-500'}`}>{plan.name}</p>
+                      <p className={`text-2xl font-black ${plan.id === 'term' ? 'text-white' : 'text-indigo-600'}`}>{plan.price}<span className={`text-xs font-medium mr-1 ${plan.id === 'term' ? 'text-indigo-200' : 'text-slate-400'}`}>ج.م</span></p>
+                      <p className={`text-[10px] mt-1 ${plan.id === 'term' ? 'text-indigo-200' : 'text-slate-400'}`}>{plan.note}</p>
+                   </button>
+                 ))}
               </div>
            </div>
 
@@ -187,10 +164,11 @@ export const SubscriptionModal: React.FC = () => {
               
               <button 
                 onClick={handleActivate}
-                className="w-full bg-slate-900 hover:bg-slate-800 text-white font-bold py-3.5 rounded-xl shadow-lg transition-all flex items-center justify-center gap-2"
+                disabled={isVerifying}
+                className="w-full bg-slate-900 hover:bg-slate-800 text-white font-bold py-3.5 rounded-xl shadow-lg transition-all flex items-center justify-center gap-2 disabled:opacity-70"
               >
-                <CheckCircle size={18} />
-                تفعيل الاشتراك
+                {isVerifying ? <Loader2 size={18} className="animate-spin" /> : <CheckCircle size={18} />}
+                {isRenewal ? 'تجديد الاشتراك' : 'تفعيل الاشتراك'}
               </button>
            </div>
            
@@ -0,0 +1,38 @@
+import React from 'react';
+import { GradeLevel, Track } from '../types';
+import { TRACKS_BY_GRADE, getSubjectsFor } from '../curriculum';
+import { Atom, FlaskConical, Calculator, BookOpen, Check } from 'lucide-react';
+
+interface TrackSelectorProps {
+  grade: GradeLevel;
+  selected?: Track;
+  onSelect: (track: Track) => void;
+}
+
+const trackStyles: Record<Track, { icon: React.ReactNode; color: string }> = {
+  [Track.SCIENTIFIC]: { icon: <Atom size={28} />, color: 'bg-violet-100 text-violet-600' },
+  [Track.SCIENCE]: { icon: <FlaskConical size={28} />, color: 'bg-emerald-100 text-emerald-600' },
+  [Track.MATH]: { icon: <Calculator size={28} />, color: 'bg-red-100 text-red-600' },
+  [Track.LITERARY]: { icon: <BookOpen size={28} />, color: 'bg-amber-100 text-amber-700' },
+};
+
+export const TrackSelector: React.FC<TrackSelectorProps> = ({ grade, selected, onSelect }) => (
+  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4">
+    {TRACKS_BY_GRADE[grade].map(track => (
+      <button
+        key={track}
+        onClick={() => onSelect(track)}
+        className={`bg-white rounded-2xl border-2 p-6 text-right flex flex-col gap-4 shadow-sm hover:shadow-md hover:border-indigo-500 transition-all ${selected === track ? 'border-indigo-500' : 'border-slate-100'}`}
+      >
+        <div className="flex items-center justify-between">
+          <div className={`w-14 h-14 rounded-full flex items-center justify-center ${trackStyles[track].color}`}>
+            {trackStyles[track].icon}
+          </div>
+          {selected === track && <Check size={22} className="text-indigo-600" />}
+        </div>
+        <h3 className="font-black text-2xl text-slate-900">{track}</h3>
+        <p className="text-sm text-slate-500 leading-relaxed">{getSubjectsFor(grade, track).join('، ')}</p>
+      </button>
+    ))}
+  </div>
+);
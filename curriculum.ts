@@ -1,184 +1,306 @@
-import { GradeLevel, Subject } from "./types";
-
-export const CURRICULUM: Record<string, Record<string, string[]>> = {
-  [GradeLevel.GRADE_10]: {
-    [Subject.ARABIC]: [
-      "الوحدة الأولى: قيم عربية",
-      "القراءة: مكارم الأخلاق (حاتم الطائي)",
-      "النصوص: شباب تسامى للعلا كهول (شعر - السموأل)",
-      "النحو: الأفعال الناقصة والتامة (كان وأخواتها)",
-      "النحو: أفعال المقاربة والرجاء والشروع (كاد وأخواتها)",
-      "البلاغة: التعبير الحقيقي والمجازي - التشبيه وأنواعه",
-      "الأدب: العصر الجاهلي (البيئة والخصائص وشعر المعلقات)",
-      "الوحدة الثانية: التسامح والسلام",
-      "القراءة: قيم إنسانية",
-      "النصوص: قيم الحياة الزوجية (قرآن كريم - سورة الروم)",
-      "النصوص: العفو مأمول (شعر - كعب بن زهير)",
-      "النحو: إعمال اسم الفاعل",
-      "النحو: إعمال صيغ المبالغة",
-      "الأدب: عصر صدر الإسلام (سمات الشعر والنثر)",
-      "البلاغة: الاستعارة المكنية والتصريحية",
-      "الوحدة الثالثة: العلم والأخلاق",
-      "القراءة: تكنولوجيا المعلومات",
-      "النصوص: ابدأ بنفسك (شعر - أبو الأسود الدؤلي)",
-      "النحو: إعمال اسم المفعول",
-      "الأدب: العصر الأموي (الأغراض الشعرية والخطابة)"
-    ],
-    [Subject.INTEGRATED_SCIENCES]: [
-      "الفصل الأول: استدامة الحياة في النظم البيئية",
-      "الدرس 1: الماء (التركيب الكيميائي، الخواص الفيزيائية، الأهمية البيولوجية)",
-      "الدرس 2: الغلاف الجوي (الطبقات، التوازن الحراري، الغازات)",
-      "الدرس 3: التربة (النشأة، المكونات، الخواص، ودورها في النظام البيئي)",
-      "الفصل الثاني: الطاقة والموارد الطبيعية",
-      "الدرس 1: الطاقة (صورها، تحولاتها، وقوانين الديناميكا الحرارية في البيئة)",
-      "الدرس 2: الموارد الطبيعية (المتجددة وغير المتجددة - دورات العناصر)",
-      "الفصل الثالث: الأرض والتغيرات المناخية",
-      "الدرس 1: التغيرات المناخية (الأسباب الكيميائية، التأثيرات الفيزيائية، التبعات البيولوجية)",
-      "الدرس 2: التكنولوجيا الحيوية وتطبيقاتها في الاستدامة"
-    ],
-    [Subject.MATH]: [
-      "الجبر: الأعداد المركبة (مقدمة والعمليات عليها)",
-      "الجبر: بحث نوع جذري المعادلة التربيعية",
-      "الجبر: العلاقة بين جذري المعادلة ومعاملاتها",
-      "الجبر: تكوين المعادلة التربيعية متى عُلم جذراها",
-      "الجبر: إشارة الدالة (الثابتة، الخطية، التربيعية)",
-      "الجبر: متباينات الدرجة الثانية في مجهول واحد",
-      "حساب المثلثات: الزاوية الموجهة والقياس الستيني والدائري",
-      "حساب المثلثات: الدوال المثلثية ومقلوباتها",
-      "حساب المثلثات: الزوايا المنتسبة",
-      "حساب المثلثات: التمثيل البياني للدوال المثلثية",
-      "الهندسة: تشابه المضلعات",
-      "الهندسة: تشابه المثلثات (الحالات الثلاث)",
-      "الهندسة: نظريات التناسب في المثلث",
-      "الهندسة: تطبيقات التناسب في الدائرة (قوة النقطة)"
-    ],
-    [Subject.HISTORY]: [
-      "الوحدة الأولى: مدخل لدراسة الحضارة والتاريخ",
-      "الدرس 1: الحضارة والتاريخ",
-      "الدرس 2: مصادر دراسة الحضارات",
-      "الدرس 3: عوامل قيام الحضارات",
-      "الوحدة الثانية: حضارة مصر القديمة (الفرعونية)",
-      "الدرس 1: ملامح من تاريخ مصر القديمة",
-      "الدرس 2: الحياة الاقتصادية",
-      "الدرس 3: الحياة السياسية والإدارية",
-      "الدرس 4: الحياة الاجتماعية",
-      "الدرس 5: الحياة الدينية",
-      "الدرس 6: الحياة الثقافية والفكرية"
-    ],
-    [Subject.PHILOSOPHY]: [
-      "الوحدة الأولى: مبادئ التفكير الفلسفي",
-      "الدرس 1: التفكير الإنساني (مفهومه، خصائصه، أهميته)",
-      "الدرس 2: نشأة الفلسفة وتعريفها وأهميتها للفرد والمجتمع",
-      "الدرس 3: خصائص التفكير الفلسفي ومهاراته",
-      "الوحدة الثانية: مبادئ التفكير العلمي",
-      "الدرس 1: معنى العلم وأخلاقيات العالم",
-      "الدرس 2: خصائص التفكير العلمي وخطواته"
-    ],
-    [Subject.ENGLISH]: [
-        "Unit 1: Getting away",
-        "Unit 2: Supporting the community",
-        "Unit 3: Improving lives",
-        "Unit 4: Making new friends",
-        "Unit 5: Communication",
-        "Unit 6: Learning from literature"
-    ],
-    [Subject.FRENCH]: [
-        "Unité 1: Le club de ma classe (Se présenter, les nombres, les couleurs)",
-        "Unité 2: Le club des artistes (Les objets de la classe, les jours, les mois)"
-    ],
-    [Subject.GERMAN]: [
-        "Lektion 1: Hallo! (Begrüßung, Alphabet)",
-        "Lektion 2: Das ist meine Familie",
-        "Lektion 3: Essen und Trinken"
-    ],
-     [Subject.RELIGION]: [
-      "الوحدة الأولى: إيمان وعقيدة (دلائل القدرة - الإيمان بالله)",
-      "الوحدة الثانية: قيم وآداب (الرحمة - العفة - صلة الرحم)",
-      "الوحدة الثالثة: سير وشخصيات (الرسول زوجاً - شخصيات إسلامية)"
-    ],
-    [Subject.NATIONAL_EDUCATION]: [
-       "الفصل الأول: شخصية مصر (تأثير الشخصية المصرية في الحضارة)",
-       "الفصل الثاني: المواطنة الصالحة (حقوق وواجبات)",
-       "الفصل الثالث: الشباب وقضايا التغيير"
-    ]
-  },
+import { GradeLevel, Subject, Track } from "./types";
+import curriculumData from "./data/curriculum.json";
+
+// The curriculum as units of lessons, each lesson carrying what the student must learn from it.
+// data/curriculum.json holds the built-in copy, which the admin can override per device. Ids are written once and never
+// regenerated, so progress, flashcards and saved conversations keep pointing at the same lesson when titles are edited.
+
+export const CURRICULUM_FORMAT_VERSION = 1;
+
+export type CurriculumTerm = 'first' | 'second' | 'full_year';
+
+export const CURRICULUM_TERM_LABELS: Record<CurriculumTerm, string> = {
+  first: 'الفصل الدراسي الأول',
+  second: 'الفصل الدراسي الثاني',
+  full_year: 'العام الدراسي كاملاً',
+};
+
+export interface CurriculumLesson {
+  id: string;
+  title: string;
+  term: CurriculumTerm;
+  objectives: string[];
+  keyTerms: string[];
+  formulas: string[]; // laws and formulas as the textbook writes them
+}
+
+export interface CurriculumUnit {
+  id: string;
+  title: string;
+  lessons: CurriculumLesson[];
+}
+
+export interface SubjectCurriculum {
+  grade: GradeLevel;
+  subject: Subject;
+  track?: Track; // set when this curriculum is for one track only; otherwise it serves every track
+  units: CurriculumUnit[];
+}
+
+export interface CurriculumDocument {
+  version: number;
+  subjects: SubjectCurriculum[];
+  retiredIds?: string[]; // deleted units and lessons; their ids still name saved progress, so they are never handed out again
+}
+
+// Subjects offered in each grade across all its tracks; every pair needs curriculum data (npm run check:curriculum)
+export const SUBJECTS_BY_GRADE: Record<GradeLevel, Subject[]> = {
+  [GradeLevel.GRADE_10]: [
+    Subject.ARABIC,
+    Subject.ENGLISH,
+    Subject.MATH,
+    Subject.INTEGRATED_SCIENCES,
+    Subject.HISTORY,
+    Subject.PHILOSOPHY,
+    Subject.FRENCH,
+    Subject.GERMAN,
+    Subject.RELIGION,
+    Subject.NATIONAL_EDUCATION
+  ],
+  [GradeLevel.GRADE_11]: [
+    Subject.ARABIC,
+    Subject.ENGLISH,
+    Subject.MATH,
+    Subject.PHYSICS,
+    Subject.CHEMISTRY,
+    Subject.BIOLOGY,
+    Subject.HISTORY,
+    Subject.GEOGRAPHY,
+    Subject.PHILOSOPHY,
+    Subject.PSYCHOLOGY,
+    Subject.FRENCH,
+    Subject.GERMAN
+  ],
+  [GradeLevel.GRADE_12]: [
+    Subject.ARABIC,
+    Subject.ENGLISH,
+    Subject.MATH,
+    Subject.PHYSICS,
+    Subject.CHEMISTRY,
+    Subject.BIOLOGY,
+    Subject.GEOLOGY,
+    Subject.HISTORY,
+    Subject.GEOGRAPHY,
+    Subject.PHILOSOPHY,
+    Subject.PSYCHOLOGY,
+    Subject.FRENCH,
+    Subject.GERMAN
+  ]
+};
+
+// Tracks a student of each grade chooses between, and the subjects each one studies
+export const TRACKS_BY_GRADE: Record<GradeLevel, Track[]> = {
+  [GradeLevel.GRADE_10]: [],
+  [GradeLevel.GRADE_11]: [Track.SCIENTIFIC, Track.LITERARY],
+  [GradeLevel.GRADE_12]: [Track.SCIENCE, Track.MATH, Track.LITERARY],
+};
+
+const LANGUAGES = [Subject.ARABIC, Subject.ENGLISH];
+const SECOND_LANGUAGES = [Subject.FRENCH, Subject.GERMAN];
+const LITERARY_SUBJECTS = [...LANGUAGES, Subject.HISTORY, Subject.GEOGRAPHY, Subject.PHILOSOPHY, Subject.PSYCHOLOGY, ...SECOND_LANGUAGES];
+
+export const SUBJECTS_BY_TRACK: Record<GradeLevel, Partial<Record<Track, Subject[]>>> = {
+  [GradeLevel.GRADE_10]: {},
   [GradeLevel.GRADE_11]: {
-     [Subject.ARABIC]: [
-         "الوحدة الأولى: مكيال الأخلاق",
-         "النحو: إعراب الفعل المضارع (رفع، نصب، جزم)",
-         "النحو: اقتران جواب الشرط بالفاء",
-         "النحو: جزم المضارع في جواب الطلب",
-         "البلاغة: المحسنات البديعية (الطباق، المقابلة، السجع، الجناس)",
-         "البلاغة: الإيجاز والإطناب",
-         "الأدب: الشعر في العصر العباسي"
-     ],
-     [Subject.MATH]: [
-         "الجبر: الدوال الحقيقية (المجال والمدى والاطراد)",
-         "الجبر: العمليات على الدوال وتركيب دالتين",
-         "التفاضل: معدل التغير والاشتقاق",
-         "حساب المثلثات: قانون الجيب وجيب التمام",
-         "استاتيكا: محصلة قوتين، تحليل القوى (للقسم العلمي)"
-     ],
-     [Subject.BIOLOGY]: [
-         "الفصل الأول: التغذية في الكائنات الحية (الذاتية وغير الذاتية)",
-         "الفصل الثاني: النقل في الكائنات الحية (في النبات والإنسان)",
-         "الفصل الثالث: التنفس في الكائنات الحية"
-     ],
-     [Subject.PHYSICS]: [
-         "الفصل الأول: الموجات (الحركة الموجية)",
-         "الفصل الثاني: الضوء (الانعكاس، الانكسار، التداخل، الحيود)",
-         "الفصل الثالث: خواص الموائع الساكنة والمتحركة"
-     ],
-     [Subject.CHEMISTRY]: [
-         "الباب الأول: بنية الذرة (تطور النماذج الذرية)",
-         "الباب الثاني: الجدول الدوري وتدرج الخواص",
-         "الباب الثالث: الروابط الكيميائية وأشكال الجزيئات"
-     ]
+    [Track.SCIENTIFIC]: [...LANGUAGES, Subject.MATH, Subject.PHYSICS, Subject.CHEMISTRY, Subject.BIOLOGY, ...SECOND_LANGUAGES],
+    [Track.LITERARY]: LITERARY_SUBJECTS,
   },
   [GradeLevel.GRADE_12]: {
-     [Subject.ARABIC]: [
-         "النحو: الوحدة الأولى (النطق والإملاء)",
-         "النحو: الوحدة الثانية (الأبنية والمشتقات)",
-         "النصوص: غربة وحنين (أحمد شوقي)",
-         "النصوص: المساء (خليل مطران)",
-         "الأدب: مدرسة الإحياء والبعث",
-         "الأدب: الاتجاه الوجداني",
-         "قصة: الأيام (طه حسين)"
-     ],
-     [Subject.PHYSICS]: [
-         "الفصل الأول: التيار الكهربي وقانون أوم وقانونا كيرشوف",
-         "الفصل الثاني: التأثير المغناطيسي للتيار الكهربي",
-         "الفصل الثالث: الحث الكهرومغناطيسي",
-         "الفصل الرابع: دوائر التيار المتردد",
-         "الفيزياء الحديثة: ازدواجية الموجة والجسيم"
-     ],
-     [Subject.CHEMISTRY]: [
-         "الباب الأول: العناصر الانتقالية",
-         "الباب الثاني: التحليل الكيميائي",
-         "الباب الثالث: الاتزان الكيميائي",
-         "الباب الرابع: الكيمياء الكهربية",
-         "الباب الخامس: الكيمياء العضوية"
-     ],
-     [Subject.BIOLOGY]: [
-         "الدعامة والحركة في الكائنات الحية",
-         "التنسيق الهرموني",
-         "التكاثر في الكائنات الحية",
-         "المناعة في الكائنات الحية",
-         "البيولوجيا الجزيئية (DNA & RNA)"
-     ],
-     [Subject.GEOLOGY]: [
-         "الباب الأول: علم الجيولوجيا ومادة الأرض",
-         "الباب الثاني: المعادن",
-         "الباب الثالث: الصخور",
-         "الباب الرابع: الحركات الأرضية والانجراف القاري",
-         "الباب الخامس: التوازن في الحركة بين الماء والهواء واليابس",
-         "علوم البيئة: مفاهيم بيئية واستنزاف الموارد"
-     ]
+    [Track.SCIENCE]: [...LANGUAGES, Subject.PHYSICS, Subject.CHEMISTRY, Subject.BIOLOGY, Subject.GEOLOGY, ...SECOND_LANGUAGES],
+    [Track.MATH]: [...LANGUAGES, Subject.MATH, Subject.PHYSICS, Subject.CHEMISTRY, ...SECOND_LANGUAGES],
+    [Track.LITERARY]: LITERARY_SUBJECTS,
+  },
+};
+
+// Without a track (grade 10, or before the student picks one) every subject of the grade is shown
+export const getSubjectsFor = (grade: GradeLevel, track?: Track): Subject[] =>
+  (track && SUBJECTS_BY_TRACK[grade][track]) || SUBJECTS_BY_GRADE[grade];
+
+// ================== VALIDATION ==================
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const TERMS = Object.keys(CURRICULUM_TERM_LABELS);
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim());
+
+// Returns one message per problem, each prefixed with where it is; an empty list means the document is usable
+export const validateCurriculum = (data: any): string[] => {
+  const issues: string[] = [];
+  if (!data || typeof data !== 'object') return ['المستند ليس كائن JSON'];
+  if (data.version !== CURRICULUM_FORMAT_VERSION) issues.push(`version: الإصدار المدعوم هو ${CURRICULUM_FORMAT_VERSION}`);
+  if (!Array.isArray(data.subjects)) return [...issues, 'subjects: يجب أن تكون قائمة'];
+  if (data.retiredIds !== undefined && !isStringList(data.retiredIds)) issues.push('retiredIds: يجب أن تكون قائمة نصوص');
+
+  const ids = new Set<string>();
+  const sessions = new Set<string>();
+  const checkId = (id: unknown, path: string) => {
+    if (typeof id !== 'string' || !ID_PATTERN.test(id)) issues.push(`${path}.id: معرف غير صالح (حروف إنجليزية صغيرة وأرقام وشرطات)`);
+    else if (ids.has(id)) issues.push(`${path}.id: المعرف "${id}" مكرر`);
+    else ids.add(id);
+  };
+
+  data.subjects.forEach((entry: any, s: number) => {
+    const path = `subjects[${s}]`;
+    if (!Object.values(GradeLevel).includes(entry?.grade)) issues.push(`${path}.grade: صف غير معروف "${entry?.grade}"`);
+    if (!Object.values(Subject).includes(entry?.subject)) issues.push(`${path}.subject: مادة غير معروفة "${entry?.subject}"`);
+    if (entry?.track !== undefined && !(TRACKS_BY_GRADE[entry.grade as GradeLevel] || []).includes(entry.track)) {
+      issues.push(`${path}.track: الشعبة "${entry.track}" غير موجودة في هذا الصف`);
+    }
+    const session = `${entry?.grade}|${entry?.subject}|${entry?.track ?? ''}`;
+    if (sessions.has(session)) issues.push(`${path}: المادة ${entry?.subject} مكررة لنفس الصف والشعبة`);
+    sessions.add(session);
+    if (!Array.isArray(entry?.units)) { issues.push(`${path}.units: يجب أن تكون قائمة`); return; }
+
+    entry.units.forEach((unit: any, u: number) => {
+      const unitPath = `${path}.units[${u}]`;
+      checkId(unit?.id, unitPath);
+      if (typeof unit?.title !== 'string' || !unit.title.trim()) issues.push(`${unitPath}.title: عنوان الوحدة مطلوب`);
+      if (!Array.isArray(unit?.lessons) || unit.lessons.length === 0) { issues.push(`${unitPath}.lessons: الوحدة بلا دروس`); return; }
+
+      unit.lessons.forEach((lesson: any, l: number) => {
+        const lessonPath = `${unitPath}.lessons[${l}]`;
+        checkId(lesson?.id, lessonPath);
+        if (typeof lesson?.title !== 'string' || !lesson.title.trim()) issues.push(`${lessonPath}.title: عنوان الدرس مطلوب`);
+        if (!TERMS.includes(lesson?.term)) issues.push(`${lessonPath}.term: يجب أن يكون ${TERMS.join(' أو ')}`);
+        for (const field of ['objectives', 'keyTerms', 'formulas']) {
+          if (!isStringList(lesson?.[field])) issues.push(`${lessonPath}.${field}: يجب أن تكون قائمة نصوص`);
+        }
+      });
+    });
+  });
+  return issues;
+};
+
+// ================== MIGRATION ==================
+// The original data was one flat list per subject mixing unit headings ("الوحدة الأولى: ...") with lessons.
+// A chapter ("الفصل"/"الباب") only counts as a unit when numbered lessons ("الدرس 1: ...") follow it,
+// and a unit listed without lessons takes the topics in its parentheses as lessons, or becomes its own only lesson.
+const GRADE_KEYS: Record<GradeLevel, string> = {
+  [GradeLevel.GRADE_10]: 'g10',
+  [GradeLevel.GRADE_11]: 'g11',
+  [GradeLevel.GRADE_12]: 'g12',
+};
+
+const subjectKey = (subject: Subject) =>
+  (Object.keys(Subject) as (keyof typeof Subject)[]).find(key => Subject[key] === subject)!.toLowerCase().replace(/_/g, '-');
+
+const TRACK_KEYS: Record<Track, string> = {
+  [Track.SCIENTIFIC]: 'sci',
+  [Track.SCIENCE]: 'sci-sciences',
+  [Track.MATH]: 'sci-math',
+  [Track.LITERARY]: 'lit',
+};
+
+export const curriculumIdPrefix = (grade: GradeLevel, subject: Subject, track?: Track) =>
+  [GRADE_KEYS[grade], subjectKey(subject), track && TRACK_KEYS[track]].filter(Boolean).join('-');
+
+const DEFAULT_UNIT_TITLE = 'دروس المنهج';
+
+export const migrateLegacySubject = (
+  grade: GradeLevel,
+  subject: Subject,
+  entries: string[],
+  term: CurriculumTerm = grade === GradeLevel.GRADE_12 ? 'full_year' : 'first'
+): SubjectCurriculum => {
+  const prefix = curriculumIdPrefix(grade, subject);
+  const groups: { title: string; lessons: string[] }[] = [];
+
+  entries.map(entry => entry.trim()).filter(Boolean).forEach((entry, i, all) => {
+    const isChapter = /^(الفصل|الباب) /.test(entry) && /^الدرس /.test(all[i + 1] || '');
+    if (entry.startsWith('الوحدة') || isChapter) groups.push({ title: entry, lessons: [] });
+    else if (groups.length > 0) groups[groups.length - 1].lessons.push(entry);
+    else groups.push({ title: DEFAULT_UNIT_TITLE, lessons: [entry] });
+  });
+
+  const units = groups.map((group, u) => {
+    let { title, lessons } = group;
+    if (lessons.length === 0) {
+      const topics = title.match(/^(.*?)\s*\(([^)]+)\)$/);
+      if (topics) {
+        title = topics[1];
+        lessons = topics[2].split(/\s+-\s+|،/).map(topic => topic.trim()).filter(Boolean);
+      } else {
+        lessons = [title];
+      }
+    }
+    const unitId = `${prefix}-u${u + 1}`;
+    return {
+      id: unitId,
+      title,
+      lessons: lessons.map((lesson, l) => ({
+        id: `${unitId}-l${l + 1}`,
+        title: lesson,
+        term,
+        objectives: [],
+        keyTerms: [],
+        formulas: [],
+      })),
+    };
+  });
+
+  return { grade, subject, units };
+};
+
+// ================== LOOKUP ==================
+// An admin-edited copy in localStorage replaces the built-in one on this device; a copy that no longer
+// validates is ignored so a bad edit can never leave the app without a curriculum.
+const BUILT_IN_CURRICULUM = curriculumData as CurriculumDocument;
+const OVERRIDE_KEY = 'curriculum_override';
+
+const builtInIssues = validateCurriculum(BUILT_IN_CURRICULUM);
+if (builtInIssues.length > 0) console.error("Curriculum Error:", builtInIssues);
+
+export const getBuiltInCurriculum = (): CurriculumDocument => BUILT_IN_CURRICULUM;
+
+let cachedOverride: { raw: string; document: CurriculumDocument | null } | null = null;
+
+const readOverride = (): CurriculumDocument | null => {
+  let raw: string | null = null;
+  try {
+    raw = typeof localStorage === 'undefined' ? null : localStorage.getItem(OVERRIDE_KEY);
+  } catch {
+    return null;
+  }
+  if (!raw) return null;
+  if (cachedOverride?.raw !== raw) {
+    let document: CurriculumDocument | null = null;
+    try {
+      const parsed = JSON.parse(raw);
+      const issues = validateCurriculum(parsed);
+      if (issues.length === 0) document = parsed;
+      else console.error("Curriculum Override Error:", issues);
+    } catch (e) {
+      console.error("Curriculum Override Error:", e);
+    }
+    cachedOverride = { raw, document };
   }
+  return cachedOverride.document;
 };
 
-export const getCurriculumFor = (grade: GradeLevel, subject: Subject): string[] => {
-  const gradeData = CURRICULUM[grade];
-  if (!gradeData) return [];
-  return gradeData[subject] || [];
+export const hasCurriculumOverride = (): boolean => readOverride() !== null;
+
+export const getCurriculumDocument = (): CurriculumDocument => readOverride() || BUILT_IN_CURRICULUM;
+
+// Returns the validation problems; the document is stored only when there are none
+export const saveCurriculumOverride = (document: CurriculumDocument): string[] => {
+  const issues = validateCurriculum(document);
+  if (issues.length === 0) localStorage.setItem(OVERRIDE_KEY, JSON.stringify(document));
+  return issues;
+};
+
+export const clearCurriculumOverride = () => localStorage.removeItem(OVERRIDE_KEY);
+
+// A curriculum written for the student's track wins over the one shared by every track
+export const getCurriculumFor = (grade: GradeLevel, subject: Subject, track?: Track): CurriculumUnit[] => {
+  const entries = getCurriculumDocument().subjects.filter(entry => entry.grade === grade && entry.subject === subject);
+  return ((track && entries.find(entry => entry.track === track)) || entries.find(entry => !entry.track))?.units || [];
 };
+
+export const getLessonsFor = (grade: GradeLevel, subject: Subject, track?: Track): CurriculumLesson[] =>
+  getCurriculumFor(grade, subject, track).flatMap(unit => unit.lessons);
+
+// Ids are unique across tracks, so saved lessons resolve whichever track the student is in now
+export const findLesson = (grade: GradeLevel, subject: Subject, lessonId: string): CurriculumLesson | undefined =>
+  getCurriculumDocument().subjects
+    .filter(entry => entry.grade === grade && entry.subject === subject)
+    .flatMap(entry => entry.units.flatMap(unit => unit.lessons))
+    .find(lesson => lesson.id === lessonId);
@@ -0,0 +1,44 @@
+import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import { evaluateEntitlement, Entitlement } from '../services/subscription';
+
+// One evaluation of trial/subscription state for the whole app.
+// Re-evaluated periodically so the monotonic trial clock keeps moving while the app stays open.
+
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+interface EntitlementContextValue {
+  entitlement: Entitlement | null;
+  refresh: () => Promise<void>;
+}
+
+const EntitlementContext = createContext<EntitlementContextValue | null>(null);
+
+export const EntitlementProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [entitlement, setEntitlement] = useState<Entitlement | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntitlement(await evaluateEntitlement());
+    } catch (e) {
+      console.error("Entitlement Error:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  return (
+    <EntitlementContext.Provider value={{ entitlement, refresh }}>
+      {children}
+    </EntitlementContext.Provider>
+  );
+};
+
+export const useEntitlement = (): EntitlementContextValue => {
+  const context = useContext(EntitlementContext);
+  if (!context) throw new Error("useEntitlement must be used inside EntitlementProvider");
+  return context;
+};
@@ -0,0 +1,42 @@
+// Build-time check of data/curriculum.json: the document must validate and every grade/subject pair
+// offered in the subject grid, for every track of the grade, must have curriculum data. Runs before `npm run build`.
+//
+//   npm run check:curriculum
+
+import { GradeLevel, Track } from '../types';
+import { TRACKS_BY_GRADE, getBuiltInCurriculum, getCurriculumFor, getSubjectsFor, validateCurriculum } from '../curriculum';
+
+const issues = validateCurriculum(getBuiltInCurriculum());
+const missing: string[] = [];
+const rows: string[] = [];
+
+for (const grade of Object.values(GradeLevel)) {
+  const tracks: (Track | undefined)[] = TRACKS_BY_GRADE[grade].length > 0 ? TRACKS_BY_GRADE[grade] : [undefined];
+  for (const track of tracks) {
+    for (const subject of getSubjectsFor(grade, track)) {
+      const pair = [grade, track, subject].filter(Boolean).join(' × ');
+      const units = getCurriculumFor(grade, subject, track);
+      const lessons = units.flatMap(unit => unit.lessons);
+      if (lessons.length === 0) {
+        missing.push(pair);
+        continue;
+      }
+      const detailed = lessons.filter(lesson => lesson.objectives.length > 0).length;
+      rows.push(`${pair}: ${units.length} وحدات، ${lessons.length} دروس (${detailed} بأهداف)`);
+    }
+  }
+}
+
+console.log(rows.join('\n'));
+
+if (issues.length > 0) {
+  console.error(`\nCurriculum document has ${issues.length} problem(s):`);
+  issues.forEach(issue => console.error(`  - ${issue}`));
+}
+if (missing.length > 0) {
+  console.error(`\nNo curriculum for ${missing.length} grade/subject pair(s) shown in the subject grid:`);
+  missing.forEach(pair => console.error(`  - ${pair}`));
+}
+if (issues.length > 0 || missing.length > 0) process.exit(1);
+
+console.log('\nCurriculum covers every grade/track/subject.');
@@ -0,0 +1,95 @@
+// Admin CLI for activation licenses. LICENSE_PRIVATE_KEY is read from the shell or from .env.admin, which git
+// ignores; never put it in .env.local, which is committed and feeds the app build.
+//
+//   npm run license -- keygen
+//   npm run license -- issue --device ID-X9Y2Z1 --plan term
+//   npm run license -- issue --device ID-X9Y2Z1 --plan monthly --from 2026-11-01   (renewal: starts when the current one ends)
+//   --days overrides the plan's length.
+//   npm run license -- admin-pin "river-lamp-quiet-42"   (prints ADMIN_PIN_HASH for the app build's admin lock)
+
+import { existsSync } from 'node:fs';
+import { generateKeyPairSync, createPrivateKey, sign } from 'node:crypto';
+import { encodePayload, toBase64Url, LicensePayload } from '../services/license';
+import { getPlan, PLANS } from '../services/subscription';
+import { hashPin } from '../services/adminAuth';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ADMIN_ENV_FILE = '.env.admin';
+const MIN_PASSPHRASE_CHARS = 12;
+
+// Values already set in the shell win over the file
+if (existsSync(ADMIN_ENV_FILE)) process.loadEnvFile(ADMIN_ENV_FILE);
+
+const readFlag = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index > -1 ? args[index + 1] : undefined;
+};
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const keygen = () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const rawPublicKey = publicKey.export({ format: 'jwk' }).x;
+  const pkcs8 = privateKey.export({ format: 'der', type: 'pkcs8' }).toString('base64');
+  console.log('# App build (.env.local of the web app) — safe to ship:');
+  console.log(`LICENSE_PUBLIC_KEY=${rawPublicKey}`);
+  console.log(`\n# Admin machine only (${ADMIN_ENV_FILE}, ignored by git) — never commit or ship:`);
+  console.log(`LICENSE_PRIVATE_KEY=${pkcs8}`);
+};
+
+const issue = (args: string[]) => {
+  const privateKeyText = process.env.LICENSE_PRIVATE_KEY || fail(`LICENSE_PRIVATE_KEY is not set. Run \`keygen\` and put it in ${ADMIN_ENV_FILE} or the shell environment.`);
+  const deviceId = readFlag(args, 'device') || fail('Missing --device <device id>');
+  const plan = getPlan(readFlag(args, 'plan') || '') || fail(`--plan must be one of: ${Object.keys(PLANS).join(', ')}`);
+  const days = Number(readFlag(args, 'days') || plan.days);
+  if (!Number.isFinite(days) || days <= 0) fail('--days must be a positive number');
+
+  // A renewal bought before the current license ends starts from that end date
+  const issuedAt = new Date();
+  const from = readFlag(args, 'from');
+  const startsAt = from ? new Date(from) : issuedAt;
+  if (Number.isNaN(startsAt.getTime())) fail('--from must be a date like 2026-11-01');
+  const periodStart = startsAt > issuedAt ? startsAt : issuedAt;
+
+  const payload: LicensePayload = {
+    v: 1,
+    plan: plan.id,
+    deviceId: deviceId.trim(),
+    issuedAt: issuedAt.toISOString(),
+    expiresAt: new Date(periodStart.getTime() + days * DAY_MS).toISOString(),
+  };
+
+  const privateKey = createPrivateKey({ key: Buffer.from(privateKeyText, 'base64'), format: 'der', type: 'pkcs8' });
+  const encodedPayload = encodePayload(payload);
+  const signature = sign(null, Buffer.from(encodedPayload), privateKey);
+
+  console.log(`${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`);
+};
+
+const adminPin = async (args: string[]) => {
+  const pin = args[0] || fail('Missing the passphrase to hash');
+  // The hash ships inside the app bundle, so it can be attacked offline: a short or all-digit PIN falls in minutes
+  if (pin.length < MIN_PASSPHRASE_CHARS) fail(`Use a passphrase of at least ${MIN_PASSPHRASE_CHARS} characters`);
+  if (/^\d+$/.test(pin)) fail('Use a passphrase with letters or symbols, not only digits');
+  const hash = await hashPin(pin, crypto.getRandomValues(new Uint8Array(16)));
+  console.log(`ADMIN_PIN_HASH=${hash}`);
+};
+
+const [command, ...args] = process.argv.slice(2);
+
+switch (command) {
+  case 'keygen':
+    keygen();
+    break;
+  case 'issue':
+    issue(args);
+    break;
+  case 'admin-pin':
+    adminPin(args);
+    break;
+  default:
+    fail('Usage: npm run license -- keygen | issue --device <id> --plan <monthly|term|yearly> [--days <n>] [--from <date>] | admin-pin <passphrase>');
+}
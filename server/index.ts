@@ -0,0 +1,211 @@
+// Backend that keeps GEMINI_API_KEY off the client.
+// Run with `npm run server`; the Vite dev server forwards /api to it.
+
+import http from 'node:http';
+import { WebSocketServer } from 'ws';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { ChatRequest } from '../services/providers/types';
+import { Message, Sender } from '../types';
+import { findStructuredTask } from '../services/structuredTasks';
+import { getAnswerBudget } from '../services/tutorPrompt';
+import { PROXY_ROUTES, DEVICE_HEADER, StreamEvent } from '../services/providers/proxyProtocol';
+import { consume, pruneExpired, getClientAddress, RateLimitBucket } from './rateLimit';
+import { attachLiveRelay } from './liveRelay';
+import { requireText, toTutorContext } from './validation';
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const MAX_BODY_BYTES = 15 * 1024 * 1024;
+const MAX_THINKING_TOKENS = 8192;
+const MAX_TEXT_CHARS = 20_000;        // one message, structured prompt or essay being graded
+const MAX_HISTORY = 40;               // older turns are dropped, not rejected
+const MAX_SPEECH_CHARS = 3000;
+const ATTACHMENT_TYPES = /^(image\/|audio\/|application\/pdf$)/;
+// Pages served from another origin (PROXY_URL pointing elsewhere) must be listed, comma separated
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local.');
+  process.exit(1);
+}
+
+const provider = createGeminiProvider(apiKey);
+
+// ================== HELPERS ==================
+const readJson = (req: http.IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Payload too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch (e) {
+        reject(e);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+const startEventStream = (res: http.ServerResponse) => {
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson; charset=utf-8',
+    'Cache-Control': 'no-cache',
+  });
+  return (event: StreamEvent) => res.write(JSON.stringify(event) + '\n');
+};
+
+// Lets an allow-listed page call the API; other origins get no CORS headers and the browser blocks them
+const applyCors = (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const origin = req.headers.origin;
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) return;
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', `content-type, ${DEVICE_HEADER}`);
+  res.setHeader('Access-Control-Max-Age', '600');
+  res.setHeader('Vary', 'Origin');
+};
+
+// Returns false (and answers 429) when the client has used up its window
+const checkRateLimit = (req: http.IncomingMessage, res: http.ServerResponse, bucket: RateLimitBucket): boolean => {
+  const { allowed, retryAfterSec } = consume(getClientAddress(req), bucket);
+  if (!allowed) {
+    res.setHeader('Retry-After', String(retryAfterSec));
+    sendJson(res, 429, { error: 'rate_limited', retryAfterSec });
+  }
+  return allowed;
+};
+
+// ================== VALIDATION ==================
+// The system prompt is built here from the validated context (services/tutorPrompt), and the answer budget follows
+// the teaching mode; the client chooses neither
+const toChatRequest = (raw: any): ChatRequest => {
+  const context = toTutorContext(raw?.context);
+  const history = Array.isArray(raw?.history) ? raw.history.slice(-MAX_HISTORY) : [];
+  const attachment = raw?.attachment;
+  if (attachment && (typeof attachment.data !== 'string' || !ATTACHMENT_TYPES.test(String(attachment.mimeType)))) {
+    throw new SyntaxError('Invalid attachment');
+  }
+  return {
+    context,
+    userMessage: requireText(raw?.userMessage, MAX_TEXT_CHARS, 'userMessage'),
+    history: history.map((message: any): Message => ({
+      id: String(message?.id || ''),
+      sender: message?.sender === Sender.USER ? Sender.USER : Sender.BOT,
+      text: requireText(message?.text, MAX_TEXT_CHARS, 'history'),
+      timestamp: new Date(),
+    })),
+    attachment: attachment ? { type: attachment.type, mimeType: attachment.mimeType, data: attachment.data, name: attachment.name } : undefined,
+    options: {
+      useThinking: raw?.options?.useThinking === true,
+      useSearch: raw?.options?.useSearch === true,
+      maxOutputTokens: getAnswerBudget(context),
+      maxThinkingTokens: MAX_THINKING_TOKENS,
+    },
+  };
+};
+
+// ================== ROUTES ==================
+const handleChat = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  if (!checkRateLimit(req, res, 'chat')) return;
+  const request = toChatRequest(await readJson(req));
+  // A client that hangs up mid-answer stops the upstream request too
+  const upstream = new AbortController();
+  res.on('close', () => { if (!res.writableEnded) upstream.abort(); });
+  request.signal = upstream.signal;
+  const emit = startEventStream(res);
+  let sentLength = 0;
+  try {
+    await provider.streamChat(request, (fullText) => {
+      emit({ type: 'text', delta: fullText.substring(sentLength) });
+      sentLength = fullText.length;
+    });
+  } catch (error) {
+    console.error('Chat Proxy Error:', error);
+    emit({ type: 'error', message: 'upstream_failed' });
+  }
+  res.end();
+};
+
+const handleStructured = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  if (!checkRateLimit(req, res, 'chat')) return;
+  const { schema, prompt } = await readJson(req);
+  // Instructions and schema come from the server's own copy of the task, never from the request
+  const task = findStructuredTask(schema?.title);
+  if (!task) throw new SyntaxError('Unknown structured task');
+  const text = await provider.generateStructured({ ...task, prompt: requireText(prompt, MAX_TEXT_CHARS, 'prompt') });
+  sendJson(res, 200, { text });
+};
+
+const handleSpeech = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  if (!checkRateLimit(req, res, 'tts')) return;
+  const { text } = await readJson(req);
+  const audio = await provider.generateSpeech(requireText(text, MAX_SPEECH_CHARS, 'text'));
+  sendJson(res, 200, { audio });
+};
+
+const handleSpeechStream = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  if (!checkRateLimit(req, res, 'tts')) return;
+  const { text } = await readJson(req);
+  requireText(text, MAX_SPEECH_CHARS, 'text');
+  const emit = startEventStream(res);
+  try {
+    await provider.streamSpeech(text, (data) => emit({ type: 'audio', data }));
+  } catch (error) {
+    console.error('TTS Proxy Error:', error);
+    emit({ type: 'error', message: 'upstream_failed' });
+  }
+  res.end();
+};
+
+const routes: Record<string, (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void>> = {
+  [PROXY_ROUTES.CHAT]: handleChat,
+  [PROXY_ROUTES.STRUCTURED]: handleStructured,
+  [PROXY_ROUTES.TTS]: handleSpeech,
+  [PROXY_ROUTES.TTS_STREAM]: handleSpeechStream,
+};
+
+const server = http.createServer(async (req, res) => {
+  const route = routes[(req.url || '').split('?')[0]];
+  applyCors(req, res);
+  if (req.method === 'OPTIONS' && route) {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (req.method !== 'POST' || !route) {
+    sendJson(res, 404, { error: 'not_found' });
+    return;
+  }
+  try {
+    await route(req, res);
+  } catch (error) {
+    console.error('Proxy Error:', error);
+    if (!res.headersSent) {
+      const isBadRequest = error instanceof SyntaxError || (error as Error)?.message === 'Payload too large';
+      sendJson(res, isBadRequest ? 400 : 502, { error: isBadRequest ? 'bad_request' : 'upstream_failed' });
+    }
+    else res.end();
+  }
+});
+
+attachLiveRelay(new WebSocketServer({ server, path: PROXY_ROUTES.LIVE, maxPayload: 1024 * 1024 }), provider);
+
+setInterval(() => pruneExpired(), 10 * 60 * 1000).unref();
+
+server.listen(PORT, () => {
+  console.log(`Smart teacher proxy listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,78 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { TutorProvider, LiveSession } from '../services/providers/types';
+import { LiveClientMessage, LiveServerEvent } from '../services/providers/proxyProtocol';
+import { LiveContext } from '../services/tutorPrompt';
+import { consume, getClientAddress } from './rateLimit';
+import { toLiveContext, isAudioFrame } from './validation';
+
+// Bridges one browser WebSocket to one upstream live session.
+// The first client message must be `setup`; audio sent before the upstream is open is dropped.
+export const attachLiveRelay = (wss: WebSocketServer, provider: TutorProvider) => {
+  wss.on('connection', (socket: WebSocket, request) => {
+    let session: LiveSession | null = null;
+    let isSetup = false;
+
+    const send = (event: LiveServerEvent) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(event));
+    };
+
+    socket.on('message', async (raw) => {
+      let message: LiveClientMessage;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+
+      if (message.type === 'audio') {
+        if (isAudioFrame(message.data)) session?.sendAudio(message.data);
+        return;
+      }
+
+      if (message.type !== 'setup' || isSetup) return;
+      isSetup = true;
+
+      let context: LiveContext;
+      try {
+        context = toLiveContext(message.context);
+      } catch {
+        send({ type: 'error', message: 'bad_request' });
+        socket.close();
+        return;
+      }
+
+      const { allowed } = consume(getClientAddress(request), 'live');
+      if (!allowed) {
+        send({ type: 'error', message: 'rate_limited' });
+        socket.close();
+        return;
+      }
+
+      try {
+        session = await provider.connectLive(context, {
+          onOpen: () => send({ type: 'open' }),
+          onAudio: (data) => send({ type: 'audio', data }),
+          onClose: () => {
+            send({ type: 'close' });
+            socket.close();
+          },
+          onError: (error) => {
+            console.error('Live Relay Error:', error);
+            send({ type: 'error', message: 'upstream_failed' });
+          },
+        });
+        // The browser may have hung up while the upstream was connecting
+        if (socket.readyState !== WebSocket.OPEN) session.close();
+      } catch (error) {
+        console.error('Live Relay Error:', error);
+        send({ type: 'error', message: 'upstream_failed' });
+        socket.close();
+      }
+    });
+
+    socket.on('close', () => {
+      session?.close();
+      session = null;
+    });
+  });
+};
@@ -0,0 +1,65 @@
+import http from 'node:http';
+
+// Fixed-window request counters kept in memory, one window per client address and endpoint group.
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSec: number;
+}
+
+interface Window {
+  startedAt: number;
+  count: number;
+}
+
+export const RATE_LIMITS = {
+  chat: { limit: 40, windowMs: 10 * 60 * 1000 },
+  tts: { limit: 40, windowMs: 10 * 60 * 1000 },
+  live: { limit: 6, windowMs: 60 * 60 * 1000 },
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitBucket = keyof typeof RATE_LIMITS;
+
+const windows = new Map<string, Window>();
+
+// The limit is keyed on the connection's address, never on anything the client sends (a fresh x-device-id per
+// request would reset it). Behind a reverse proxy set TRUST_PROXY=true to use the address it forwards instead.
+export const getClientAddress = (req: http.IncomingMessage): string => {
+  if (process.env.TRUST_PROXY === 'true') {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+export const consume = (clientKey: string, bucket: RateLimitBucket, now: number = Date.now()): RateLimitResult => {
+  const rule = RATE_LIMITS[bucket];
+  const key = `${bucket}:${clientKey}`;
+  let window = windows.get(key);
+
+  if (!window || now - window.startedAt >= rule.windowMs) {
+    window = { startedAt: now, count: 0 };
+    windows.set(key, window);
+  }
+
+  if (window.count >= rule.limit) {
+    return { allowed: false, retryAfterSec: Math.ceil((window.startedAt + rule.windowMs - now) / 1000) };
+  }
+
+  window.count++;
+  return { allowed: true, retryAfterSec: 0 };
+};
+
+// Drop expired windows so the map does not grow with every client ever seen
+export const pruneExpired = (now: number = Date.now()) => {
+  const longestWindow = Math.max(...Object.values(RATE_LIMITS).map(r => r.windowMs));
+  windows.forEach((window, key) => {
+    if (now - window.startedAt >= longestWindow) windows.delete(key);
+  });
+};
@@ -0,0 +1,56 @@
+import { GradeLevel, Subject, Track } from '../types';
+import { TRACKS_BY_GRADE } from '../curriculum';
+import { EXPLANATION_STYLE_LABELS, ExplanationStyle, SCHOOL_TYPE_LABELS, SchoolType, TARGET_SCORE_RANGE } from '../services/profile';
+import { MAX_HINT_LEVEL } from '../services/homework';
+import { TutorContext, LiveContext } from '../services/tutorPrompt';
+
+// Requests are rebuilt from the fields the app uses, with sizes capped; anything else is a bad request.
+// Errors are SyntaxErrors, which the HTTP routes answer with 400.
+
+const MAX_NAME_CHARS = 40;
+const MAX_LESSON_ID_CHARS = 100;
+// The app sends 4096 samples of PCM16 per frame (about 11k base64 characters); anything far bigger is not audio
+const MAX_AUDIO_FRAME_CHARS = 64 * 1024;
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+export const requireText = (value: unknown, maxChars: number, field: string): string => {
+  if (typeof value !== 'string' || value.length > maxChars) throw new SyntaxError(`Invalid ${field}`);
+  return value;
+};
+
+const isOneOf = <T extends string>(value: unknown, allowed: readonly T[]): value is T => allowed.includes(value as T);
+
+export const toLiveContext = (raw: any): LiveContext => {
+  const grade = raw?.grade;
+  const subject = raw?.subject;
+  const track = raw?.track ?? undefined;
+  if (!isOneOf(grade, Object.values(GradeLevel)) || !isOneOf(subject, Object.values(Subject))) throw new SyntaxError('Invalid grade or subject');
+  if (track !== undefined && !isOneOf<Track>(track, TRACKS_BY_GRADE[grade])) throw new SyntaxError('Invalid track');
+  return { grade, subject, track };
+};
+
+// Free text from the student (the name) is trimmed to a short label; everything else must be a known value
+export const toTutorContext = (raw: any): TutorContext => {
+  const { homework, student } = raw || {};
+  const lessonId = raw?.lessonId ?? undefined;
+  if (lessonId !== undefined) requireText(lessonId, MAX_LESSON_ID_CHARS, 'lessonId');
+  return {
+    ...toLiveContext(raw),
+    lessonId,
+    teachingMode: isOneOf(raw?.teachingMode, Object.keys(EXPLANATION_STYLE_LABELS) as ExplanationStyle[]) ? raw.teachingMode : undefined,
+    homework: homework ? {
+      hintLevel: Math.min(Math.max(Math.floor(Number(homework.hintLevel)) || 0, 0), MAX_HINT_LEVEL),
+      revealSolution: homework.revealSolution === true,
+    } : undefined,
+    student: student ? {
+      name: typeof student.name === 'string' ? student.name.trim().substring(0, MAX_NAME_CHARS) : undefined,
+      schoolType: isOneOf(student.schoolType, Object.keys(SCHOOL_TYPE_LABELS) as SchoolType[]) ? student.schoolType : undefined,
+      targetScore: Number(student.targetScore) >= TARGET_SCORE_RANGE.min && Number(student.targetScore) <= TARGET_SCORE_RANGE.max
+        ? Number(student.targetScore) : undefined,
+    } : undefined,
+  };
+};
+
+// Live audio frames are forwarded only when they are base64 PCM16 of a sane size
+export const isAudioFrame = (data: unknown): data is string =>
+  typeof data === 'string' && data.length > 0 && data.length <= MAX_AUDIO_FRAME_CHARS && data.length % 4 === 0 && BASE64.test(data);
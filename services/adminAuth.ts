@@ -0,0 +1,83 @@
+import { toBase64Url, fromBase64Url } from "./license";
+
+// Admin PIN check for the #admin route.
+// Only a salted PBKDF2 hash ships with the app (ADMIN_PIN_HASH, made by `npm run license -- admin-pin`); without it admin
+// mode stays closed. Wrong attempts lock the page for a while, and a session ends after a period of inactivity.
+
+export const MAX_ATTEMPTS = 5;
+export const LOCKOUT_MS = 15 * 60 * 1000;
+export const SESSION_IDLE_MS = 15 * 60 * 1000;
+
+const DEFAULT_ITERATIONS = 210000;
+const ATTEMPTS_KEY = 'admin_failed_attempts';
+const LOCKED_UNTIL_KEY = 'admin_locked_until';
+const SESSION_KEY = 'admin_session_expires';
+
+export type AdminLoginResult =
+  | { status: 'ok' }
+  | { status: 'not_configured' }
+  | { status: 'locked'; retryAfterMs: number }
+  | { status: 'wrong_pin'; attemptsLeft: number };
+
+// ================== HASHING ==================
+// Format: pbkdf2$<iterations>$<salt>$<hash>, salt and hash base64url
+export const hashPin = async (pin: string, salt: Uint8Array, iterations: number = DEFAULT_ITERATIONS): Promise<string> => {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, baseKey, 256);
+  return `pbkdf2$${iterations}$${toBase64Url(salt)}$${toBase64Url(new Uint8Array(bits))}`;
+};
+
+const matchesStoredHash = async (pin: string, stored: string): Promise<boolean> => {
+  const [scheme, iterations, salt, expected] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !salt || !expected) return false;
+  const actual = (await hashPin(pin, fromBase64Url(salt), Number(iterations))).split('$')[3];
+
+  // Compare every character so the time taken does not reveal how much matched
+  let diff = actual.length ^ expected.length;
+  for (let i = 0; i < Math.max(actual.length, expected.length); i++) {
+    diff |= (actual.charCodeAt(i) || 0) ^ (expected.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+};
+
+export const isAdminConfigured = (): boolean => Boolean(process.env.ADMIN_PIN_HASH);
+
+// ================== LOCKOUT ==================
+export const getLockoutRemainingMs = (now: number = Date.now()): number =>
+  Math.max(0, Number(localStorage.getItem(LOCKED_UNTIL_KEY) || 0) - now);
+
+const registerFailure = (now: number): AdminLoginResult => {
+  const attempts = Number(localStorage.getItem(ATTEMPTS_KEY) || 0) + 1;
+  if (attempts >= MAX_ATTEMPTS) {
+    localStorage.setItem(LOCKED_UNTIL_KEY, String(now + LOCKOUT_MS));
+    localStorage.removeItem(ATTEMPTS_KEY);
+    return { status: 'locked', retryAfterMs: LOCKOUT_MS };
+  }
+  localStorage.setItem(ATTEMPTS_KEY, String(attempts));
+  return { status: 'wrong_pin', attemptsLeft: MAX_ATTEMPTS - attempts };
+};
+
+// ================== SESSION ==================
+export const isAdminSessionActive = (now: number = Date.now()): boolean =>
+  Number(sessionStorage.getItem(SESSION_KEY) || 0) > now;
+
+export const touchAdminSession = (now: number = Date.now()) => {
+  if (isAdminSessionActive(now)) sessionStorage.setItem(SESSION_KEY, String(now + SESSION_IDLE_MS));
+};
+
+export const endAdminSession = () => sessionStorage.removeItem(SESSION_KEY);
+
+export const loginAdmin = async (pin: string, now: number = Date.now()): Promise<AdminLoginResult> => {
+  const storedHash = process.env.ADMIN_PIN_HASH;
+  if (!storedHash) return { status: 'not_configured' };
+
+  const retryAfterMs = getLockoutRemainingMs(now);
+  if (retryAfterMs > 0) return { status: 'locked', retryAfterMs };
+
+  if (!(await matchesStoredHash(pin, storedHash))) return registerFailure(now);
+
+  localStorage.removeItem(ATTEMPTS_KEY);
+  localStorage.removeItem(LOCKED_UNTIL_KEY);
+  sessionStorage.setItem(SESSION_KEY, String(now + SESSION_IDLE_MS));
+  return { status: 'ok' };
+};
@@ -0,0 +1,256 @@
+// Charts the tutor draws inside ```chart blocks. Model output is repaired into JSON, then checked and
+// normalized into a ChartSpec, so the renderer never sees a field it has to guess about.
+
+export type ChartType = 'line' | 'bar' | 'area' | 'scatter' | 'pie';
+
+export const CHART_TYPES: ChartType[] = ['line', 'bar', 'area', 'scatter', 'pie'];
+
+export interface ChartAxis {
+  label?: string;
+  unit?: string;
+}
+
+export interface ChartSeries {
+  key: string;   // field of each data point holding this series' values
+  label: string; // legend name
+  color: string;
+}
+
+// `x` is a number for measured quantities, or a category name (also the slice name of a pie)
+export interface ChartPoint {
+  x: number | string;
+  label?: string; // written next to the point
+  [seriesKey: string]: number | string | undefined;
+}
+
+export type ChartAnnotation =
+  | { kind: 'slope' | 'intercept' | 'note'; text: string }
+  | { kind: 'point'; x: number | string; y: number; text: string }
+  | { kind: 'hline'; y: number; text?: string }
+  | { kind: 'vline'; x: number | string; text?: string };
+
+export const ANNOTATION_LABELS: Record<'slope' | 'intercept' | 'note', string> = {
+  slope: 'الميل',
+  intercept: 'الجزء المقطوع',
+  note: 'ملاحظة',
+};
+
+export interface ChartSpec {
+  type: ChartType;
+  title: string;
+  xAxis: ChartAxis;
+  yAxis: ChartAxis;
+  series: ChartSeries[];
+  data: ChartPoint[];
+  annotations: ChartAnnotation[];
+}
+
+export const SERIES_COLORS = ['#4f46e5', '#059669', '#e11d48', '#d97706', '#0891b2', '#7c3aed', '#db2777', '#65a30d'];
+const MAX_POINTS = 500;
+const MAX_SERIES = SERIES_COLORS.length;
+const RESERVED_KEYS = ['x', 'label', 'name'];
+
+// ================== JSON REPAIR ==================
+// Fixes what models commonly get wrong in hand-written JSON: comments, single quotes, unquoted keys, trailing or missing
+// commas, Python literals, Arabic-Indic digits and output cut off mid-way. Text inside strings is only re-escaped.
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+const ENDS_VALUE = /([\d}\]"]|true|false|null)\s*$/;
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null', undefined: 'null', NaN: 'null' };
+const JSON_LITERALS = ['true', 'false', 'null'];
+const DANGLING_KEY = /([{,])\s*"(?:[^"\\]|\\.)*"\s*$/; // a key the output was cut off after
+
+const lastSignificant = (text: string) => text.trimEnd().slice(-1);
+
+export const repairJson = (input: string): string => {
+  const start = input.search(/[{[]/);
+  const source = start >= 0 ? input.slice(start) : input;
+  const stack: string[] = [];
+  let out = '';
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === '"' || ch === "'") {
+      if (ENDS_VALUE.test(out) && stack[stack.length - 1] === '{') out += ',';
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          value += source[i + 1] === "'" ? "'" : source[i] + source[i + 1]; // \' is not a JSON escape
+          i += 2;
+          continue;
+        }
+        if (source[i] === '\n') value += '\\n';
+        else if (source[i] === '"') value += '\\"'; // only reachable inside a single-quoted string
+        else value += source[i];
+        i++;
+      }
+      if (i >= source.length) break; // cut off inside the string: the member is unfinished
+      out += `"${value}"`;
+      i++;
+      continue;
+    }
+
+    if (ch === '/' && source[i + 1] === '/') {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+    if (ch === '/' && source[i + 1] === '*') {
+      const close = source.indexOf('*/', i + 2);
+      i = close < 0 ? source.length : close + 2;
+      continue;
+    }
+
+    if (ch === '{' || ch === '[') {
+      if (['}', ']'].includes(lastSignificant(out))) out += ',';
+      stack.push(ch);
+      out += ch;
+      i++;
+      continue;
+    }
+    if (ch === '}' || ch === ']') {
+      out = out.replace(/,\s*$/, '');
+      stack.pop();
+      out += ch;
+      i++;
+      if (stack.length === 0) break; // anything after the outer value is prose
+      continue;
+    }
+
+    if (/[٠-٩]/.test(ch)) {
+      out += String(ch.charCodeAt(0) - 0x0660);
+      i++;
+      continue;
+    }
+
+    if (/[A-Za-z_؀-ۿ]/.test(ch)) {
+      let word = '';
+      while (i < source.length && /[\w؀-ۿ]/.test(source[i])) word += source[i++];
+      const isKey = /^\s*:/.test(source.slice(i));
+      if (isKey && ENDS_VALUE.test(out) && stack[stack.length - 1] === '{') out += ',';
+      if (isKey) out += `"${word}"`;
+      else if (/\d$/.test(out) && /^[eE]\d*$/.test(word)) out += word; // exponent of a number, e.g. 1e5
+      else out += PYTHON_LITERALS[word] ?? (JSON_LITERALS.includes(word) ? word : `"${word}"`); // "type": line
+      continue;
+    }
+
+    // 5. → 5.0 and .5 → 0.5
+    if (ch === '.' && !/\d/.test(source[i + 1] || '')) { i++; continue; }
+    if (ch === '.' && !/\d/.test(out.slice(-1))) out += '0';
+
+    out += ch;
+    i++;
+  }
+
+  // Output cut off by the token limit: drop the unfinished member and close what is still open
+  if (stack.length > 0) {
+    out = out.replace(/,\s*$/, '').replace(/,?\s*"[^"]*"\s*:\s*$/, '');
+    if (stack[stack.length - 1] === '{') out = out.replace(DANGLING_KEY, '$1').replace(/,\s*$/, '');
+    while (stack.length > 0) out += CLOSERS[stack.pop()!];
+  }
+  return out;
+};
+
+// ================== VALIDATION ==================
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const n = Number(value.replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660)).replace('٫', '.'));
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const toText = (value: unknown): string | undefined =>
+  (typeof value === 'string' || typeof value === 'number') && String(value).trim() ? String(value).trim() : undefined;
+
+const normalizeAxis = (axis: any, legacyLabel: unknown): ChartAxis => ({
+  label: toText(axis?.label) ?? toText(legacyLabel),
+  unit: toText(axis?.unit),
+});
+
+const normalizeAnnotation = (raw: any): ChartAnnotation | null => {
+  const text = toText(raw?.text);
+  switch (raw?.kind) {
+    case 'slope':
+    case 'intercept':
+    case 'note':
+      return text ? { kind: raw.kind, text } : null;
+    case 'point': {
+      const x = toNumber(raw.x) ?? toText(raw.x);
+      const y = toNumber(raw.y);
+      return x !== undefined && y !== undefined && text ? { kind: 'point', x, y, text } : null;
+    }
+    case 'hline': {
+      const y = toNumber(raw.y);
+      return y !== undefined ? { kind: 'hline', y, text } : null;
+    }
+    case 'vline': {
+      const x = toNumber(raw.x) ?? toText(raw.x);
+      return x !== undefined ? { kind: 'vline', x, text } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// The error messages are shown to the student on the fallback card
+export const normalizeChartSpec = (raw: any): ChartSpec => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('المخطط ليس كائن JSON');
+  const type: ChartType = CHART_TYPES.includes(raw.type) ? raw.type : 'line';
+  if (!Array.isArray(raw.data) || raw.data.length === 0) throw new Error('المخطط بلا بيانات');
+
+  // Points: x may arrive as "name" (pie slices); numeric strings become numbers
+  const points = raw.data.slice(0, MAX_POINTS).flatMap((item: any): ChartPoint[] => {
+    if (!item || typeof item !== 'object') return [];
+    const x = toNumber(item.x ?? item.name) ?? toText(item.x ?? item.name);
+    if (x === undefined || (type === 'scatter' && typeof x !== 'number')) return [];
+    const point: ChartPoint = { x };
+    const label = toText(item.label);
+    if (label) point.label = label;
+    Object.entries(item).forEach(([key, value]) => {
+      const n = toNumber(value);
+      if (!RESERVED_KEYS.includes(key) && n !== undefined) point[key] = n;
+    });
+    return [point];
+  });
+
+  // Series: as declared when they match the data, otherwise every numeric field of the points
+  const dataKeys = [...new Set(points.flatMap((p: ChartPoint) => Object.keys(p).filter(k => !RESERVED_KEYS.includes(k))))] as string[];
+  const declared: any[] = Array.isArray(raw.series) ? raw.series : [];
+  const series = (declared.some(s => dataKeys.includes(s?.key)) ? declared.filter(s => dataKeys.includes(s?.key)) : dataKeys.map(key => ({ key })))
+    .slice(0, type === 'pie' ? 1 : MAX_SERIES)
+    .map((s: any, i: number): ChartSeries => ({
+      key: s.key,
+      label: toText(s.label) ?? (s.key === 'y' ? toText(raw.yAxis?.label ?? raw.yAxisLabel) ?? 'y' : s.key),
+      color: typeof s.color === 'string' && /^#[0-9a-f]{3,8}$/i.test(s.color) ? s.color : SERIES_COLORS[i % SERIES_COLORS.length],
+    }));
+  if (series.length === 0) throw new Error('لا توجد قيم رقمية لرسمها');
+
+  const data = points.filter((p: ChartPoint) => series.some(s => typeof p[s.key] === 'number'));
+  if (data.length === 0) throw new Error('لا توجد نقاط صالحة للرسم');
+  if (type === 'pie' && data.some((p: ChartPoint) => (p[series[0].key] as number) < 0)) throw new Error('الدائرة لا تقبل قيماً سالبة');
+
+  return {
+    type,
+    title: toText(raw.title) ?? '',
+    xAxis: normalizeAxis(raw.xAxis, raw.xAxisLabel),
+    yAxis: normalizeAxis(raw.yAxis, raw.yAxisLabel),
+    series,
+    data,
+    annotations: (Array.isArray(raw.annotations) ? raw.annotations : []).map(normalizeAnnotation).filter(Boolean) as ChartAnnotation[],
+  };
+};
+
+export const parseChartSpec = (text: string): ChartSpec => {
+  let data: unknown;
+  try {
+    data = JSON.parse(repairJson(text));
+  } catch {
+    throw new Error('صيغة JSON غير صالحة');
+  }
+  return normalizeChartSpec(data);
+};
+
+// Axis title with its unit, e.g. "فرق الجهد (V)"
+export const formatAxisTitle = (axis: ChartAxis): string | undefined =>
+  axis.label ? (axis.unit ? `${axis.label} (${axis.unit})` : axis.label) : axis.unit;
@@ -0,0 +1,64 @@
+import { Conversation, GradeLevel, Message, Sender, Subject, Track } from "../types";
+import { runInStore, STORES } from "./db";
+
+const TITLE_MAX_LENGTH = 40;
+
+const buildTitle = (messages: Message[]): string => {
+  const firstQuestion = messages.find(m => m.sender === Sender.USER);
+  const text = firstQuestion?.text.replace(/\s+/g, ' ').trim() || 'محادثة جديدة';
+  return text.length > TITLE_MAX_LENGTH ? `${text.substring(0, TITLE_MAX_LENGTH)}…` : text;
+};
+
+export const createConversationId = (): string =>
+  `conv-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+// ================== READ ==================
+export const listConversations = async (grade: GradeLevel, subject: Subject): Promise<Conversation[]> => {
+  const conversations = await runInStore<Conversation[]>(STORES.CONVERSATIONS, 'readonly', store =>
+    store.index('session').getAll([grade, subject])
+  );
+  return conversations.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const getConversation = (id: string): Promise<Conversation | undefined> =>
+  runInStore<Conversation | undefined>(STORES.CONVERSATIONS, 'readonly', store => store.get(id));
+
+// ================== WRITE ==================
+// Keeps the existing title (it may have been renamed) and only derives one for new conversations.
+// Reopening a conversation re-saves the same messages, which must not move it to the top of the list.
+export const saveConversation = async (
+  id: string,
+  grade: GradeLevel,
+  subject: Subject,
+  messages: Message[],
+  lessonId?: string,
+  track?: Track
+): Promise<Conversation> => {
+  const existing = await getConversation(id);
+  const now = new Date();
+  const conversation: Conversation = {
+    id,
+    grade,
+    subject,
+    track,
+    lessonId,
+    title: existing?.title || buildTitle(messages),
+    messages: messages.map(m => ({ ...m, isStreaming: false })),
+    createdAt: existing?.createdAt || now,
+    updatedAt: existing && existing.messages.length === messages.length ? existing.updatedAt : now,
+  };
+  await runInStore(STORES.CONVERSATIONS, 'readwrite', store => store.put(conversation));
+  return conversation;
+};
+
+export const renameConversation = async (id: string, title: string): Promise<void> => {
+  const existing = await getConversation(id);
+  if (!existing || !title.trim()) return;
+  await runInStore(STORES.CONVERSATIONS, 'readwrite', store =>
+    store.put({ ...existing, title: title.trim() })
+  );
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  await runInStore(STORES.CONVERSATIONS, 'readwrite', store => store.delete(id));
+};
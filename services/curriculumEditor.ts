@@ -0,0 +1,142 @@
+import { GradeLevel, Subject, Track } from "../types";
+import {
+  CurriculumDocument, CurriculumLesson, CurriculumTerm, CurriculumUnit, SubjectCurriculum,
+  CURRICULUM_FORMAT_VERSION, CURRICULUM_TERM_LABELS, curriculumIdPrefix, migrateLegacySubject, getBuiltInCurriculum,
+} from "../curriculum";
+import { toCsv, parseCsv } from "./fileTransfer";
+
+// Admin-side editing of the curriculum: new ids, and JSON / CSV transfer.
+// Imports only produce a draft; the editor validates it before saving it as the override.
+
+// ================== IDS ==================
+const liveIds = (document: CurriculumDocument): string[] =>
+  document.subjects.flatMap(entry => entry.units.flatMap(unit => [unit.id, ...unit.lessons.map(lesson => lesson.id)]));
+
+// Every id ever used: the document's own, the ones it retired and the built-in curriculum's
+const collectIds = (document: CurriculumDocument): Set<string> =>
+  new Set([...liveIds(document), ...(document.retiredIds || []), ...liveIds(getBuiltInCurriculum())]);
+
+// Ids are never reused (saved progress is keyed by them), so a new item numbers past the highest one used after its prefix
+const nextFreeId = (ids: Set<string>, prefix: string): string => {
+  const used = [...ids].filter(id => id.startsWith(prefix)).map(id => Number(id.slice(prefix.length))).filter(Number.isInteger);
+  const id = `${prefix}${Math.max(0, ...used) + 1}`;
+  ids.add(id);
+  return id;
+};
+
+// Carries over the ids `next` dropped from `previous`, so a deleted unit or lesson keeps its id out of circulation
+export const retireRemovedIds = (previous: CurriculumDocument, next: CurriculumDocument): CurriculumDocument => {
+  const kept = new Set(liveIds(next));
+  const retired = new Set([...(previous.retiredIds || []), ...(next.retiredIds || []), ...liveIds(previous)]);
+  kept.forEach(id => retired.delete(id));
+  return retired.size ? { ...next, retiredIds: [...retired] } : next;
+};
+
+const createLessonWithIds = (ids: Set<string>, unitId: string, term: CurriculumTerm): CurriculumLesson => ({
+  id: nextFreeId(ids, `${unitId}-l`),
+  title: 'درس جديد',
+  term,
+  objectives: [],
+  keyTerms: [],
+  formulas: [],
+});
+
+export const createUnit = (
+  document: CurriculumDocument,
+  grade: GradeLevel,
+  subject: Subject,
+  term: CurriculumTerm,
+  track?: Track
+): CurriculumUnit => {
+  const ids = collectIds(document);
+  const id = nextFreeId(ids, `${curriculumIdPrefix(grade, subject, track)}-u`);
+  return { id, title: 'وحدة جديدة', lessons: [createLessonWithIds(ids, id, term)] };
+};
+
+export const createLesson = (document: CurriculumDocument, unitId: string, term: CurriculumTerm): CurriculumLesson =>
+  createLessonWithIds(collectIds(document), unitId, term);
+
+// ================== JSON ==================
+export const curriculumToJson = (document: CurriculumDocument): string => JSON.stringify(document, null, 2);
+
+// Also accepts the old flat format ({ grade: { subject: ["الوحدة ...", "lesson", ...] } }) and migrates it
+export const parseCurriculumJson = (text: string): CurriculumDocument => {
+  const data = JSON.parse(text);
+  if (Array.isArray(data?.subjects)) return data;
+
+  const grades = Object.values(GradeLevel) as string[];
+  const subjects = Object.values(Subject) as string[];
+  if (!data || typeof data !== 'object' || !Object.keys(data).every(key => grades.includes(key))) {
+    throw new Error('Unknown curriculum layout');
+  }
+  return {
+    version: CURRICULUM_FORMAT_VERSION,
+    subjects: Object.entries(data).flatMap(([grade, bySubject]) =>
+      Object.entries(bySubject as Record<string, string[]>)
+        .filter(([subject, entries]) => subjects.includes(subject) && Array.isArray(entries))
+        .map(([subject, entries]) => migrateLegacySubject(grade as GradeLevel, subject as Subject, entries))
+    ),
+  };
+};
+
+// ================== CSV ==================
+// One row per lesson; list fields hold their items separated by " | ". The track is blank for curricula shared by every track.
+const CSV_HEADER = ['grade', 'subject', 'track', 'unitId', 'unitTitle', 'lessonId', 'lessonTitle', 'term', 'objectives', 'keyTerms', 'formulas'];
+const LIST_SEPARATOR = ' | ';
+
+// Split on the spaced separator only, so absolute values like |A||B| in formulas survive
+const splitList = (cell: string) => cell.split(/\s+\|\s+/).map(item => item.trim()).filter(Boolean);
+
+export const curriculumToCsv = (document: CurriculumDocument): string =>
+  toCsv(CSV_HEADER, document.subjects.flatMap(entry => entry.units.flatMap(unit => unit.lessons.map(lesson => [
+    entry.grade, entry.subject, entry.track || '', unit.id, unit.title, lesson.id, lesson.title, lesson.term,
+    lesson.objectives.join(LIST_SEPARATOR), lesson.keyTerms.join(LIST_SEPARATOR), lesson.formulas.join(LIST_SEPARATOR),
+  ]))));
+
+// Replaces every grade/subject/track that appears in the file and keeps the rest of the current document.
+// Files exported before tracks existed have no track column and replace the shared curricula.
+// Rows without ids (lessons added in a spreadsheet) get new ones; rows of one unit share its id, or its title when the id is blank.
+export const importCurriculumCsv = (text: string, current: CurriculumDocument): CurriculumDocument => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || !header.includes('lessonTitle') || !header.includes('unitTitle')) throw new Error('Unknown CSV layout');
+
+  const document: CurriculumDocument = { ...current, subjects: [...current.subjects] };
+  const ids = collectIds(document);
+  const imported = new Map<string, SubjectCurriculum>();
+
+  for (const cells of rows) {
+    const row: Record<string, string> = {};
+    header.forEach((key, i) => { row[key.trim()] = (cells[i] || '').trim(); });
+    if (!row.lessonTitle) continue;
+
+    const track = (row.track || undefined) as Track | undefined;
+    const key = `${row.grade}|${row.subject}|${row.track || ''}`;
+    if (!imported.has(key)) imported.set(key, { grade: row.grade as GradeLevel, subject: row.subject as Subject, ...(track && { track }), units: [] });
+    const entry = imported.get(key)!;
+    const prefix = Object.values(GradeLevel).includes(entry.grade) && Object.values(Subject).includes(entry.subject)
+      && (!track || Object.values(Track).includes(track))
+      ? curriculumIdPrefix(entry.grade, entry.subject, track) : 'imported';
+
+    let unit = entry.units.find(u => row.unitId ? u.id === row.unitId : u.title === row.unitTitle);
+    if (!unit) {
+      unit = { id: row.unitId || nextFreeId(ids, `${prefix}-u`), title: row.unitTitle, lessons: [] };
+      entry.units.push(unit);
+    }
+    unit.lessons.push({
+      id: row.lessonId || nextFreeId(ids, `${unit.id}-l`),
+      title: row.lessonTitle,
+      term: (Object.keys(CURRICULUM_TERM_LABELS).includes(row.term) ? row.term : 'first') as CurriculumTerm,
+      objectives: splitList(row.objectives || ''),
+      keyTerms: splitList(row.keyTerms || ''),
+      formulas: splitList(row.formulas || ''),
+    });
+  }
+  if (imported.size === 0) throw new Error('No lessons in CSV');
+
+  for (const entry of imported.values()) {
+    const index = document.subjects.findIndex(s => s.grade === entry.grade && s.subject === entry.subject && s.track === entry.track);
+    if (index > -1) document.subjects[index] = entry;
+    else document.subjects.push(entry);
+  }
+  return document;
+};
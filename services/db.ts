@@ -0,0 +1,76 @@
+// Shared IndexedDB connection for everything the app keeps on the device.
+// Bump DB_VERSION and add a new `oldVersion` step in `upgrade` when a store is added.
+
+const DB_NAME = 'smart_teacher_db';
+const DB_VERSION = 6;
+
+export const STORES = {
+  CONVERSATIONS: 'conversations',
+  // Small key/value records (out-of-line keys)
+  META: 'meta',
+  LEDGER: 'ledger',
+  PROGRESS: 'progress',
+  FLASHCARDS: 'flashcards',
+  HOMEWORK: 'homework',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const conversations = db.createObjectStore(STORES.CONVERSATIONS, { keyPath: 'id' });
+    conversations.createIndex('session', ['grade', 'subject']);
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.META);
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.LEDGER, { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    const progress = db.createObjectStore(STORES.PROGRESS, { keyPath: 'id' });
+    progress.createIndex('session', ['grade', 'subject']);
+  }
+  if (oldVersion < 5) {
+    const flashcards = db.createObjectStore(STORES.FLASHCARDS, { keyPath: 'id' });
+    flashcards.createIndex('session', ['grade', 'subject']);
+    flashcards.createIndex('grade', 'grade');
+  }
+  if (oldVersion < 6) {
+    const homework = db.createObjectStore(STORES.HOMEWORK, { keyPath: 'id' });
+    homework.createIndex('session', ['grade', 'subject']);
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const runInStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  return requestToPromise(action(tx.objectStore(storeName)));
+};
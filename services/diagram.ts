@@ -0,0 +1,387 @@
+import { repairJson } from "./chart";
+
+// Diagrams the tutor writes inside ```mindmap, ```flowchart and ```timeline blocks.
+// Each block is parsed into a spec, then laid out here into positioned boxes and links that the component draws as SVG.
+// Layouts read right to left: a mind map grows leftwards from its root, a flowchart row starts on the right.
+
+export type DiagramKind = 'mindmap' | 'flowchart' | 'timeline';
+
+export const DIAGRAM_KINDS: DiagramKind[] = ['mindmap', 'flowchart', 'timeline'];
+
+export const DIAGRAM_KIND_LABELS: Record<DiagramKind, string> = {
+  mindmap: 'خريطة ذهنية',
+  flowchart: 'مخطط انسيابي',
+  timeline: 'خط زمني',
+};
+
+export interface MindMapNode {
+  label: string;
+  children: MindMapNode[];
+}
+
+export type FlowNodeShape = 'start' | 'step' | 'decision' | 'end';
+
+export interface FlowNode {
+  id: string;
+  label: string;
+  shape: FlowNodeShape;
+}
+
+export interface FlowEdge {
+  from: string;
+  to: string;
+  label?: string; // e.g. نعم / لا out of a decision
+}
+
+export interface TimelineEvent {
+  date: string; // free text: "1952", "القرن السابع ق.م"
+  title: string;
+  detail?: string;
+}
+
+export type DiagramSpec =
+  | { kind: 'mindmap'; title: string; root: MindMapNode }
+  | { kind: 'flowchart'; title: string; nodes: FlowNode[]; edges: FlowEdge[] }
+  | { kind: 'timeline'; title: string; events: TimelineEvent[] };
+
+const MAX_MINDMAP_DEPTH = 4;
+const MAX_MINDMAP_CHILDREN = 8;
+const MAX_FLOW_NODES = 30;
+const MAX_FLOW_EDGES = 60;
+const MAX_TIMELINE_EVENTS = 40;
+const FLOW_SHAPES: FlowNodeShape[] = ['start', 'step', 'decision', 'end'];
+
+// ================== VALIDATION ==================
+const toText = (value: unknown): string | undefined =>
+  (typeof value === 'string' || typeof value === 'number') && String(value).trim() ? String(value).trim() : undefined;
+
+// A node may be a bare string, and models use several names for the same fields
+const normalizeMindMapNode = (raw: any, depth: number): MindMapNode | null => {
+  const label = toText(raw) ?? toText(raw?.label ?? raw?.text ?? raw?.name ?? raw?.title);
+  if (!label) return null;
+  const children = depth >= MAX_MINDMAP_DEPTH ? [] : (Array.isArray(raw?.children) ? raw.children : Array.isArray(raw?.items) ? raw.items : [])
+    .slice(0, MAX_MINDMAP_CHILDREN)
+    .map((child: unknown) => normalizeMindMapNode(child, depth + 1))
+    .filter(Boolean) as MindMapNode[];
+  return { label, children };
+};
+
+const normalizeFlowchart = (raw: any): { nodes: FlowNode[]; edges: FlowEdge[] } => {
+  // Shorthand: a plain list of steps is a straight chain
+  if (!Array.isArray(raw.nodes) && Array.isArray(raw.steps)) {
+    const steps = raw.steps.map(toText).filter(Boolean).slice(0, MAX_FLOW_NODES) as string[];
+    return {
+      nodes: steps.map((label, i) => ({ id: String(i + 1), label, shape: i === 0 ? 'start' : i === steps.length - 1 ? 'end' : 'step' })),
+      edges: steps.slice(1).map((_, i) => ({ from: String(i + 1), to: String(i + 2) })),
+    };
+  }
+
+  const nodes: FlowNode[] = [];
+  (Array.isArray(raw.nodes) ? raw.nodes : []).forEach((item: any, i: number) => {
+    const id = toText(item?.id) ?? String(i + 1);
+    const label = toText(item?.label ?? item?.text);
+    if (!label || nodes.some(n => n.id === id) || nodes.length >= MAX_FLOW_NODES) return;
+    const shape = item.shape ?? item.type;
+    nodes.push({ id, label, shape: FLOW_SHAPES.includes(shape) ? shape : 'step' });
+  });
+
+  const ids = new Set(nodes.map(n => n.id));
+  const edges = (Array.isArray(raw.edges) ? raw.edges : [])
+    .map((item: any): FlowEdge => ({ from: toText(item?.from) ?? '', to: toText(item?.to) ?? '', label: toText(item?.label) }))
+    .filter((edge: FlowEdge) => ids.has(edge.from) && ids.has(edge.to) && edge.from !== edge.to)
+    .slice(0, MAX_FLOW_EDGES);
+  return { nodes, edges };
+};
+
+// The error messages are shown to the student on the fallback card
+export const normalizeDiagram = (kind: DiagramKind, raw: any): DiagramSpec => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('المخطط ليس كائن JSON');
+  const title = toText(raw.title) ?? '';
+
+  switch (kind) {
+    case 'mindmap': {
+      const root = normalizeMindMapNode(raw.root ?? { label: raw.title, children: raw.children ?? raw.branches }, 0);
+      if (!root || root.children.length === 0) throw new Error('الخريطة الذهنية بلا فروع');
+      return { kind, title: title === root.label ? '' : title, root };
+    }
+    case 'flowchart': {
+      const { nodes, edges } = normalizeFlowchart(raw);
+      if (nodes.length < 2) throw new Error('المخطط الانسيابي يحتاج خطوتين على الأقل');
+      return { kind, title, nodes, edges };
+    }
+    case 'timeline': {
+      const events = (Array.isArray(raw.events) ? raw.events : [])
+        .map((item: any) => ({ date: toText(item?.date ?? item?.year) ?? '', title: toText(item?.title ?? item?.event ?? item?.label) ?? '', detail: toText(item?.detail ?? item?.description) }))
+        .filter((event: TimelineEvent) => event.date && event.title)
+        .slice(0, MAX_TIMELINE_EVENTS);
+      if (events.length === 0) throw new Error('الخط الزمني بلا أحداث');
+      return { kind, title, events };
+    }
+  }
+};
+
+export const parseDiagram = (kind: DiagramKind, text: string): DiagramSpec => {
+  let data: unknown;
+  try {
+    data = JSON.parse(repairJson(text));
+  } catch {
+    throw new Error('صيغة JSON غير صالحة');
+  }
+  return normalizeDiagram(kind, data);
+};
+
+// ================== LAYOUT ==================
+export interface DiagramBox {
+  x: number; // top-left corner
+  y: number;
+  width: number;
+  height: number;
+  shape: 'rect' | 'pill' | 'diamond';
+  tone: number; // palette index; -1 for the central or emphasized box
+  heading?: string; // bold first line (a timeline date)
+  lines: string[];
+  notes?: string[]; // smaller secondary lines
+}
+
+export interface DiagramLink {
+  path: string; // SVG path data
+  tone: number;
+  arrow: boolean;
+  label?: { x: number; y: number; text: string };
+}
+
+export interface DiagramLayout {
+  width: number;
+  height: number;
+  boxes: DiagramBox[];
+  links: DiagramLink[];
+  dots: { x: number; y: number; tone: number }[];
+}
+
+// Text is measured by estimate: SVG cannot wrap, and layouts must work before anything is on screen
+export const FONT_SIZE = 14;
+export const NOTE_FONT_SIZE = 12;
+export const LINE_HEIGHT = 20;
+const CHAR_WIDTH = 7.4;
+export const PADDING_X = 12;
+const PADDING_Y = 9;
+const MARGIN = 16;
+
+export const wrapText = (text: string, maxChars: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+const textWidth = (lines: string[]) => Math.max(...lines.map(line => line.length)) * CHAR_WIDTH;
+
+const boxHeight = (lines: number, notes = 0, heading = false) =>
+  (lines + (heading ? 1 : 0)) * LINE_HEIGHT + notes * (LINE_HEIGHT - 3) + PADDING_Y * 2;
+
+// Tree growing leftwards: one column per depth, each node centered on the block of its subtree
+const layoutMindMap = (root: MindMapNode): DiagramLayout => {
+  const COLUMN_GAP = 44;
+  const ROW_GAP = 12;
+  type Sized = { node: MindMapNode; lines: string[]; width: number; height: number; depth: number; tone: number; children: Sized[]; block: number };
+
+  const measure = (node: MindMapNode, depth: number, tone: number): Sized => {
+    const lines = wrapText(node.label, depth === 0 ? 16 : 20);
+    const children = node.children.map((child, i) => measure(child, depth + 1, depth === 0 ? i : tone));
+    const height = boxHeight(lines.length);
+    const childrenBlock = children.reduce((sum, child) => sum + child.block, 0) + ROW_GAP * Math.max(0, children.length - 1);
+    return { node, lines, width: textWidth(lines) + PADDING_X * 2, height, depth, tone, children, block: Math.max(height, childrenBlock) };
+  };
+
+  const tree = measure(root, 0, -1);
+  const columnWidths: number[] = [];
+  const visit = (sized: Sized, fn: (s: Sized) => void) => { fn(sized); sized.children.forEach(child => visit(child, fn)); };
+  visit(tree, s => { columnWidths[s.depth] = Math.max(columnWidths[s.depth] || 0, s.width); });
+
+  const width = columnWidths.reduce((sum, w) => sum + w, 0) + COLUMN_GAP * (columnWidths.length - 1) + MARGIN * 2;
+  // Right edge of each column, root column first
+  const columnRight = columnWidths.map((_, depth) => width - MARGIN - columnWidths.slice(0, depth).reduce((sum, w) => sum + w + COLUMN_GAP, 0));
+
+  const boxes: DiagramBox[] = [];
+  const links: DiagramLink[] = [];
+  const place = (sized: Sized, top: number): DiagramBox => {
+    const box: DiagramBox = {
+      x: columnRight[sized.depth] - sized.width,
+      y: top + (sized.block - sized.height) / 2,
+      width: sized.width,
+      height: sized.height,
+      shape: sized.depth === 0 ? 'pill' : 'rect',
+      tone: sized.tone,
+      lines: sized.lines,
+    };
+    boxes.push(box);
+    const childrenBlock = sized.children.reduce((sum, child) => sum + child.block, 0) + ROW_GAP * Math.max(0, sized.children.length - 1);
+    let childTop = top + (sized.block - childrenBlock) / 2;
+    sized.children.forEach(child => {
+      const childBox = place(child, childTop);
+      const startX = box.x;
+      const startY = box.y + box.height / 2;
+      const endX = childBox.x + childBox.width;
+      const endY = childBox.y + childBox.height / 2;
+      const bend = (startX - endX) / 2;
+      links.push({ path: `M${startX},${startY} C${startX - bend},${startY} ${endX + bend},${endY} ${endX},${endY}`, tone: child.tone, arrow: false });
+      childTop += child.block + ROW_GAP;
+    });
+    return box;
+  };
+  place(tree, MARGIN);
+
+  return { width, height: tree.block + MARGIN * 2, boxes, links, dots: [] };
+};
+
+// Rows by longest path from the start; edges that point back up (loops) are routed down the left side
+const layoutFlowchart = (nodes: FlowNode[], edges: FlowEdge[]): DiagramLayout => {
+  const ROW_GAP = 52;
+  const COLUMN_GAP = 28;
+  const LOOP_LANE = 28;
+
+  // Back edges: found by a depth-first walk from the entry nodes
+  const outgoing = new Map(nodes.map(n => [n.id, edges.filter(e => e.from === n.id)]));
+  const hasIncoming = new Set(edges.map(e => e.to));
+  const entries = nodes.filter(n => !hasIncoming.has(n.id));
+  const backEdges = new Set<FlowEdge>();
+  const state = new Map<string, 'active' | 'done'>();
+  const walk = (id: string) => {
+    state.set(id, 'active');
+    outgoing.get(id)!.forEach(edge => {
+      if (state.get(edge.to) === 'active') backEdges.add(edge);
+      else if (!state.has(edge.to)) walk(edge.to);
+    });
+    state.set(id, 'done');
+  };
+  (entries.length ? entries : [nodes[0]]).forEach(n => !state.has(n.id) && walk(n.id));
+  nodes.forEach(n => !state.has(n.id) && walk(n.id));
+
+  const row = new Map<string, number>(nodes.map(n => [n.id, 0]));
+  const forward = edges.filter(e => !backEdges.has(e));
+  // Longest path over a DAG; the node count bounds the number of passes
+  for (let pass = 0; pass < nodes.length; pass++) {
+    let changed = false;
+    forward.forEach(edge => {
+      if (row.get(edge.to)! <= row.get(edge.from)!) { row.set(edge.to, row.get(edge.from)! + 1); changed = true; }
+    });
+    if (!changed) break;
+  }
+
+  const sized = nodes.map(node => {
+    const lines = wrapText(node.label, node.shape === 'decision' ? 16 : 22);
+    const base = textWidth(lines) + PADDING_X * 2;
+    const height = boxHeight(lines.length);
+    return node.shape === 'decision'
+      ? { node, lines, width: base * 1.5, height: height * 1.6 }
+      : { node, lines, width: Math.max(base, 90), height };
+  });
+
+  const rows: typeof sized[] = [];
+  sized.forEach(s => { (rows[row.get(s.node.id)!] ||= []).push(s); });
+  const rowWidths = rows.map(r => (r || []).reduce((sum, s) => sum + s.width, 0) + COLUMN_GAP * Math.max(0, (r || []).length - 1));
+  const hasLoops = backEdges.size > 0;
+  const contentWidth = Math.max(...rowWidths);
+  const left = MARGIN + (hasLoops ? LOOP_LANE * 2 : 0);
+  const width = contentWidth + left + MARGIN;
+
+  const boxById = new Map<string, DiagramBox>();
+  let top = MARGIN;
+  rows.forEach((r, i) => {
+    if (!r) return;
+    const rowHeight = Math.max(...r.map(s => s.height));
+    let right = left + (contentWidth + rowWidths[i]) / 2; // centered, first node on the right
+    r.forEach(s => {
+      boxById.set(s.node.id, {
+        x: right - s.width,
+        y: top + (rowHeight - s.height) / 2,
+        width: s.width,
+        height: s.height,
+        shape: s.node.shape === 'decision' ? 'diamond' : s.node.shape === 'step' ? 'rect' : 'pill',
+        tone: s.node.shape === 'step' ? 0 : s.node.shape === 'decision' ? 1 : -1,
+        lines: s.lines,
+      });
+      right -= s.width + COLUMN_GAP;
+    });
+    top += rowHeight + ROW_GAP;
+  });
+
+  const links = edges.map((edge, i): DiagramLink => {
+    const from = boxById.get(edge.from)!;
+    const to = boxById.get(edge.to)!;
+    if (backEdges.has(edge)) {
+      const lane = left - LOOP_LANE * (1 + (i % 2) * 0.5);
+      const startY = from.y + from.height / 2;
+      const endY = to.y + to.height / 2;
+      return {
+        path: `M${from.x},${startY} H${lane} V${endY} H${to.x}`,
+        tone: 1,
+        arrow: true,
+        label: edge.label ? { x: lane, y: (startY + endY) / 2, text: edge.label } : undefined,
+      };
+    }
+    const startX = from.x + from.width / 2;
+    const startY = from.y + from.height;
+    const endX = to.x + to.width / 2;
+    const endY = to.y;
+    const bend = Math.min(ROW_GAP, (endY - startY) / 2);
+    return {
+      path: `M${startX},${startY} C${startX},${startY + bend} ${endX},${endY - bend} ${endX},${endY}`,
+      tone: 0,
+      arrow: true,
+      label: edge.label ? { x: startX + (endX - startX) * 0.3, y: startY + Math.min(22, (endY - startY) / 2), text: edge.label } : undefined,
+    };
+  });
+
+  return { width, height: top - ROW_GAP + MARGIN, boxes: [...boxById.values()], links, dots: [] };
+};
+
+// Vertical line on the right with one card per event to its left, so long Arabic text wraps naturally
+const layoutTimeline = (events: TimelineEvent[]): DiagramLayout => {
+  const WIDTH = 460;
+  const AXIS_X = WIDTH - MARGIN - 8;
+  const CARD_RIGHT = AXIS_X - 22;
+  const CARD_WIDTH = CARD_RIGHT - MARGIN;
+  const GAP = 14;
+  const chars = Math.floor((CARD_WIDTH - PADDING_X * 2) / CHAR_WIDTH);
+
+  const boxes: DiagramBox[] = [];
+  const dots: DiagramLayout['dots'] = [];
+  const connectors: DiagramLink[] = [];
+  let top = MARGIN;
+  events.forEach((event, i) => {
+    const lines = wrapText(event.title, chars);
+    const notes = event.detail ? wrapText(event.detail, Math.floor(chars * 1.15)) : [];
+    const height = boxHeight(lines.length, notes.length, true);
+    boxes.push({ x: MARGIN, y: top, width: CARD_WIDTH, height, shape: 'rect', tone: i, heading: event.date, lines, notes });
+    const dotY = top + PADDING_Y + LINE_HEIGHT / 2;
+    dots.push({ x: AXIS_X, y: dotY, tone: i });
+    connectors.push({ path: `M${AXIS_X},${dotY} H${CARD_RIGHT}`, tone: i, arrow: false });
+    top += height + GAP;
+  });
+  const height = top - GAP + MARGIN;
+
+  return {
+    width: WIDTH,
+    height,
+    boxes,
+    links: [{ path: `M${AXIS_X},${MARGIN} V${height - MARGIN}`, tone: -1, arrow: false }, ...connectors],
+    dots,
+  };
+};
+
+export const layoutDiagram = (spec: DiagramSpec): DiagramLayout => {
+  switch (spec.kind) {
+    case 'mindmap': return layoutMindMap(spec.root);
+    case 'flowchart': return layoutFlowchart(spec.nodes, spec.edges);
+    case 'timeline': return layoutTimeline(spec.events);
+  }
+};
@@ -0,0 +1,286 @@
+import { GradeLevel, Subject } from "../types";
+import { QuizQuestion, QuizAnswer, QuestionKind, isCorrectAnswer } from "./quiz";
+
+// Mock exams in the Thanaweya Amma format: a paper built from a per-subject blueprint,
+// objective items graded on the device and essay answers graded by the model against a rubric.
+
+export type ExamSectionKind = 'objective' | 'essay';
+
+export interface ExamSectionSpec {
+  id: string;
+  title: string;
+  kind: ExamSectionKind;
+  questionKinds: QuestionKind[]; // objective sections only
+  count: number;
+  marksEach: number;
+}
+
+export interface ExamBlueprint {
+  durationMinutes: number;
+  sections: ExamSectionSpec[];
+}
+
+export interface RubricItem {
+  criterion: string;
+  marks: number;
+}
+
+export interface EssayQuestion {
+  id: string;
+  question: string;
+  modelAnswer: string;
+  rubric: RubricItem[];
+  marks: number;
+}
+
+export interface ExamSection {
+  spec: ExamSectionSpec;
+  questions: QuizQuestion[];
+  essays: EssayQuestion[];
+}
+
+export interface ExamPaper {
+  grade: GradeLevel;
+  subject: Subject;
+  durationMinutes: number;
+  sections: ExamSection[];
+}
+
+export interface EssayGrade {
+  awarded: number;
+  max: number;
+  criteria: { criterion: string; awarded: number; max: number; comment: string }[];
+  feedback: string;
+}
+
+export interface SectionScore {
+  id: string;
+  title: string;
+  score: number;
+  max: number;
+  missing: number; // blueprint items the paper came up short of; they count toward neither score nor max
+}
+
+export interface ExamResult {
+  score: number;
+  maxScore: number;
+  sections: SectionScore[];
+  essayGrades: Record<string, EssayGrade>;
+  startedAt: string;
+  submittedAt: string;
+}
+
+// ================== BLUEPRINTS ==================
+// Approximations modelled on recent sample papers, not the ministry's official specification (مواصفات الورقة
+// الامتحانية), which changes from year to year. Grades 10 and 11 get about two thirds of the time and 60% of the
+// questions; that ratio is this app's choice, not a published rule.
+const SCIENCE_SUBJECTS = [Subject.MATH, Subject.PHYSICS, Subject.CHEMISTRY, Subject.BIOLOGY, Subject.GEOLOGY, Subject.INTEGRATED_SCIENCES];
+const LANGUAGE_SUBJECTS = [Subject.ARABIC, Subject.ENGLISH, Subject.FRENCH, Subject.GERMAN];
+
+const section = (id: string, title: string, kind: ExamSectionKind, count: number, marksEach: number, questionKinds: QuestionKind[] = []): ExamSectionSpec =>
+  ({ id, title, kind, questionKinds, count, marksEach });
+
+const FINAL_BLUEPRINTS: Record<'science' | 'language' | 'humanities', ExamBlueprint> = {
+  science: {
+    durationMinutes: 180,
+    sections: [
+      section('mcq', 'أسئلة الاختيار من متعدد', 'objective', 25, 2, ['mcq']),
+      section('essay', 'الأسئلة المقالية', 'essay', 5, 2),
+    ],
+  },
+  language: {
+    durationMinutes: 180,
+    sections: [
+      section('mcq', 'أسئلة الاختيار من متعدد', 'objective', 30, 1, ['mcq']),
+      section('complete', 'أكمل', 'objective', 5, 1, ['complete']),
+      section('essay', 'الأسئلة المقالية والتعبير', 'essay', 3, 5),
+    ],
+  },
+  humanities: {
+    durationMinutes: 120,
+    sections: [
+      section('mcq', 'أسئلة الاختيار من متعدد', 'objective', 20, 1, ['mcq']),
+      section('true_false', 'صح أم خطأ مع التصويب', 'objective', 5, 1, ['true_false']),
+      section('essay', 'الأسئلة المقالية', 'essay', 5, 3),
+    ],
+  },
+};
+
+export const getExamBlueprint = (grade: GradeLevel, subject: Subject): ExamBlueprint => {
+  const family = SCIENCE_SUBJECTS.includes(subject) ? 'science' : LANGUAGE_SUBJECTS.includes(subject) ? 'language' : 'humanities';
+  const blueprint = FINAL_BLUEPRINTS[family];
+  if (grade === GradeLevel.GRADE_12) return blueprint;
+
+  return {
+    durationMinutes: Math.round(blueprint.durationMinutes * 2 / 3),
+    sections: blueprint.sections.map(s => ({ ...s, count: Math.max(2, Math.round(s.count * 0.6)) })),
+  };
+};
+
+export const getBlueprintMarks = (blueprint: ExamBlueprint): number =>
+  blueprint.sections.reduce((sum, s) => sum + s.count * s.marksEach, 0);
+
+// Items the model did not produce even after being asked again for the rest
+export const countMissingItems = ({ spec, questions, essays }: ExamSection): number =>
+  Math.max(0, spec.count - questions.length - essays.length);
+
+// ================== ESSAY SCHEMAS ==================
+export const ESSAY_QUESTIONS_SCHEMA = {
+  title: 'EssayQuestions',
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          question: { type: 'string' },
+          modelAnswer: { type: 'string' },
+          rubric: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { criterion: { type: 'string' }, marks: { type: 'number' } },
+              required: ['criterion', 'marks'],
+            },
+          },
+        },
+        required: ['question', 'modelAnswer', 'rubric'],
+      },
+    },
+  },
+  required: ['questions'],
+};
+
+export const ESSAY_GRADE_SCHEMA = {
+  title: 'EssayGrade',
+  type: 'object',
+  properties: {
+    criteria: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { awarded: { type: 'number' }, comment: { type: 'string' } },
+        required: ['awarded', 'comment'],
+      },
+    },
+    feedback: { type: 'string' },
+  },
+  required: ['criteria', 'feedback'],
+};
+
+const roundToHalf = (value: number) => Math.round(value * 2) / 2;
+
+// Scales the model's rubric so it adds up to exactly the marks of the question.
+// Works in half marks: each item gets the floor of its share, and the half marks left over go to the items
+// with the largest remainders, so no item is pushed below zero and the total cannot overshoot.
+const fitRubric = (rubric: RubricItem[], marks: number): RubricItem[] => {
+  const whole: RubricItem[] = [{ criterion: 'إجابة صحيحة وكاملة', marks }];
+  const valid = rubric.filter(r => r.criterion.trim() && r.marks > 0);
+  if (valid.length === 0) return whole;
+
+  const total = valid.reduce((sum, r) => sum + r.marks, 0);
+  const halves = Math.round(marks * 2);
+  const shares = valid.map((r, index) => {
+    const exact = (r.marks / total) * halves;
+    return { index, halves: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let left = halves - shares.reduce((sum, s) => sum + s.halves, 0);
+  [...shares].sort((a, b) => b.remainder - a.remainder).forEach(s => {
+    if (left > 0) { s.halves++; left--; }
+  });
+
+  const scaled = shares
+    .filter(s => s.halves > 0)
+    .map(s => ({ criterion: valid[s.index].criterion.trim(), marks: s.halves / 2 }));
+  // Marks that are not a multiple of a half cannot be split this way; grade the question as a whole instead
+  return scaled.reduce((sum, r) => sum + r.marks, 0) === marks ? scaled : whole;
+};
+
+export const parseEssayQuestions = (text: string, idPrefix: string, marks: number): EssayQuestion[] => {
+  const data = JSON.parse(text);
+  const questions = (Array.isArray(data?.questions) ? data.questions : [])
+    .filter((q: any) => typeof q?.question === 'string' && q.question.trim())
+    .map((q: any, i: number) => ({
+      id: `${idPrefix}-e${i + 1}`,
+      question: q.question.trim(),
+      modelAnswer: typeof q.modelAnswer === 'string' ? q.modelAnswer.trim() : '',
+      rubric: fitRubric(
+        (Array.isArray(q.rubric) ? q.rubric : []).map((r: any) => ({ criterion: String(r?.criterion || ''), marks: Number(r?.marks) || 0 })),
+        marks
+      ),
+      marks,
+    }));
+
+  if (questions.length === 0) throw new Error('No usable essay questions');
+  return questions;
+};
+
+// The model's marks are clamped to each criterion's maximum, so a generous grader cannot exceed the rubric
+export const parseEssayGrade = (text: string, question: EssayQuestion): EssayGrade => {
+  const data = JSON.parse(text);
+  const returned = Array.isArray(data?.criteria) ? data.criteria : [];
+  const criteria = question.rubric.map((item, i) => ({
+    criterion: item.criterion,
+    max: item.marks,
+    awarded: Math.min(item.marks, Math.max(0, roundToHalf(Number(returned[i]?.awarded) || 0))),
+    comment: typeof returned[i]?.comment === 'string' ? returned[i].comment : '',
+  }));
+
+  return {
+    awarded: criteria.reduce((sum, c) => sum + c.awarded, 0),
+    max: question.marks,
+    criteria,
+    feedback: typeof data?.feedback === 'string' ? data.feedback : '',
+  };
+};
+
+export const emptyEssayGrade = (question: EssayQuestion, feedback: string): EssayGrade => ({
+  awarded: 0,
+  max: question.marks,
+  criteria: question.rubric.map(item => ({ criterion: item.criterion, max: item.marks, awarded: 0, comment: '' })),
+  feedback,
+});
+
+// ================== SCORING ==================
+export const countExamItems = (paper: ExamPaper): number =>
+  paper.sections.reduce((sum, s) => sum + s.questions.length + s.essays.length, 0);
+
+export const scoreExam = (
+  paper: ExamPaper,
+  answers: Record<string, QuizAnswer>,
+  essayGrades: Record<string, EssayGrade>,
+  startedAt: Date,
+  submittedAt: Date = new Date()
+): ExamResult => {
+  const sections = paper.sections.map(section => {
+    const { spec, questions, essays } = section;
+    const objective = questions.filter(q => isCorrectAnswer(q, answers[q.id])).length * spec.marksEach;
+    const essay = essays.reduce((sum, e) => sum + (essayGrades[e.id]?.awarded || 0), 0);
+    return {
+      id: spec.id,
+      title: spec.title,
+      score: objective + essay,
+      max: (questions.length + essays.length) * spec.marksEach,
+      missing: countMissingItems(section),
+    };
+  });
+
+  return {
+    score: sections.reduce((sum, s) => sum + s.score, 0),
+    maxScore: sections.reduce((sum, s) => sum + s.max, 0),
+    sections,
+    essayGrades,
+    startedAt: startedAt.toISOString(),
+    submittedAt: submittedAt.toISOString(),
+  };
+};
+
+// Egyptian grading bands
+export const getGradeBand = (percent: number): string => {
+  if (percent >= 85) return 'ممتاز';
+  if (percent >= 75) return 'جيد جداً';
+  if (percent >= 65) return 'جيد';
+  if (percent >= 50) return 'مقبول';
+  return 'ضعيف';
+};
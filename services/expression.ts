@@ -0,0 +1,198 @@
+// Safe math expressions for plots written by the model, e.g. "v*sin(theta*deg)*t - 0.5*g*t^2".
+// Parsed into a small tree and evaluated by walking it; nothing is ever passed to eval or Function.
+
+type ExprNode =
+  | { type: 'number'; value: number }
+  | { type: 'name'; name: string }
+  | { type: 'negate'; arg: ExprNode }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: ExprNode; right: ExprNode }
+  | { type: 'call'; fn: string; args: ExprNode[] };
+
+export interface CompiledExpression {
+  source: string;
+  names: string[]; // variables and constants the expression reads
+  evaluate: (scope: Record<string, number>) => number;
+}
+
+export const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+  deg: Math.PI / 180, // sin(30*deg)
+};
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sin: Math.sin, cos: Math.cos, tan: Math.tan,
+  asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  sinh: Math.sinh, cosh: Math.cosh, tanh: Math.tanh,
+  sqrt: Math.sqrt, cbrt: Math.cbrt, abs: Math.abs, sign: Math.sign,
+  exp: Math.exp, ln: Math.log, log: Math.log10, log2: Math.log2,
+  floor: Math.floor, ceil: Math.ceil, round: Math.round,
+  min: Math.min, max: Math.max, pow: Math.pow,
+};
+
+// Own keys only, so names like "constructor" never reach Object.prototype
+export const isFunctionName = (name: string) => Object.hasOwn(FUNCTIONS, name);
+
+export const isConstantName = (name: string) => Object.hasOwn(CONSTANTS, name);
+
+const MAX_LENGTH = 300;
+const IDENTIFIER = /^[A-Za-z_Ͱ-Ͽ][A-Za-z0-9_Ͱ-Ͽ]*$/;
+
+export const isIdentifier = (name: string) => IDENTIFIER.test(name);
+
+// ================== TOKENIZER ==================
+type Token = { kind: 'number'; value: number } | { kind: 'name'; name: string } | { kind: 'symbol'; symbol: string };
+
+const normalizeSource = (source: string) =>
+  source
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/\*\*/g, '^')
+    .replace(/[×·]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/−/g, '-')
+    .replace(/π/g, 'pi');
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|([A-Za-z_Ͱ-Ͽ][A-Za-z0-9_Ͱ-Ͽ]*)|([-+*/^(),]))/y;
+  let index = 0;
+  while (index < source.length) {
+    if (/^\s*$/.test(source.slice(index))) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(source);
+    if (!match) throw new Error(`رمز غير مفهوم في "${source}": ${source.slice(index).trim()[0]}`);
+    if (match[1] !== undefined) tokens.push({ kind: 'number', value: Number(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ kind: 'name', name: match[2] });
+    else tokens.push({ kind: 'symbol', symbol: match[3] });
+    index = pattern.lastIndex;
+  }
+  return tokens;
+};
+
+// ================== PARSER ==================
+// expression := term (("+" | "-") term)*
+// term       := unary (("*" | "/") unary | unary)*     a unary right after a value is implicit multiplication: 2x, 3(x+1)
+// unary      := "-" unary | "+" unary | power
+// power      := primary ("^" unary)?                   right-associative, and -x^2 is -(x^2)
+// primary    := number | name | name "(" arguments ")" | "(" expression ")"
+const parse = (source: string): ExprNode => {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const symbolAt = (token?: Token) => token?.kind === 'symbol' ? token.symbol : undefined;
+  const isSymbol = (symbol: string) => symbolAt(peek()) === symbol;
+  const expect = (symbol: string) => {
+    if (!isSymbol(symbol)) throw new Error(`ينقص "${symbol}" في "${source}"`);
+    position++;
+  };
+
+  const expression = (): ExprNode => {
+    let node = term();
+    while (isSymbol('+') || isSymbol('-')) {
+      const op = isSymbol('+') ? '+' : '-';
+      position++;
+      node = { type: 'binary', op, left: node, right: term() };
+    }
+    return node;
+  };
+
+  const startsValue = () => peek()?.kind === 'number' || peek()?.kind === 'name' || isSymbol('(');
+
+  const term = (): ExprNode => {
+    let node = unary();
+    while (isSymbol('*') || isSymbol('/') || startsValue()) {
+      // Implicit multiplication (2x, 3(x+1)) has no operator token to consume
+      const op = isSymbol('/') ? '/' : '*';
+      if (!startsValue()) position++;
+      node = { type: 'binary', op, left: node, right: unary() };
+    }
+    return node;
+  };
+
+  const unary = (): ExprNode => {
+    if (isSymbol('-')) { position++; return { type: 'negate', arg: unary() }; }
+    if (isSymbol('+')) { position++; return unary(); }
+    return power();
+  };
+
+  const power = (): ExprNode => {
+    const base = primary();
+    if (!isSymbol('^')) return base;
+    position++;
+    return { type: 'binary', op: '^', left: base, right: unary() };
+  };
+
+  const primary = (): ExprNode => {
+    const token = peek();
+    if (!token) throw new Error(`التعبير "${source}" ناقص`);
+    position++;
+    if (token.kind === 'number') return { type: 'number', value: token.value };
+    if (token.kind === 'name') {
+      if (!isSymbol('(')) {
+        if (isFunctionName(token.name)) throw new Error(`الدالة ${token.name} تحتاج أقواساً`);
+        return { type: 'name', name: token.name };
+      }
+      if (!isFunctionName(token.name)) throw new Error(`دالة غير معروفة: ${token.name}`);
+      position++;
+      const args = [expression()];
+      while (isSymbol(',')) { position++; args.push(expression()); }
+      expect(')');
+      return { type: 'call', fn: token.name, args };
+    }
+    if (token.symbol === '(') {
+      const node = expression();
+      expect(')');
+      return node;
+    }
+    throw new Error(`رمز في غير مكانه في "${source}": ${token.symbol}`);
+  };
+
+  const root = expression();
+  if (position < tokens.length) throw new Error(`تعبير غير مفهوم: "${source}"`);
+  return root;
+};
+
+// ================== EVALUATION ==================
+const evaluateNode = (node: ExprNode, scope: Record<string, number>): number => {
+  switch (node.type) {
+    case 'number': return node.value;
+    case 'name':
+      if (Object.hasOwn(scope, node.name)) return scope[node.name];
+      return isConstantName(node.name) ? CONSTANTS[node.name] : NaN;
+    case 'negate': return -evaluateNode(node.arg, scope);
+    case 'call': return FUNCTIONS[node.fn](...node.args.map(arg => evaluateNode(arg, scope)));
+    case 'binary': {
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '^': return Math.pow(left, right);
+      }
+    }
+  }
+};
+
+const collectNames = (node: ExprNode, names: Set<string>): Set<string> => {
+  if (node.type === 'name') names.add(node.name);
+  if (node.type === 'negate') collectNames(node.arg, names);
+  if (node.type === 'binary') { collectNames(node.left, names); collectNames(node.right, names); }
+  if (node.type === 'call') node.args.forEach(arg => collectNames(arg, names));
+  return names;
+};
+
+// The error messages are shown to the student on the fallback card
+export const compileExpression = (input: unknown): CompiledExpression => {
+  const source = typeof input === 'number' ? String(input) : typeof input === 'string' ? normalizeSource(input.trim()) : '';
+  if (!source) throw new Error('تعبير رياضي فارغ');
+  if (source.length > MAX_LENGTH) throw new Error('التعبير الرياضي طويل جداً');
+  const tree = parse(source);
+  return {
+    source,
+    names: [...collectNames(tree, new Set())],
+    evaluate: scope => evaluateNode(tree, scope),
+  };
+};
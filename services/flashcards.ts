@@ -0,0 +1,150 @@
+import { GradeLevel, Subject } from "../types";
+import { runInStore, STORES } from "./db";
+import { normalizeArabic } from "./quiz";
+
+// Flashcard decks (one per grade and subject) scheduled with the SM-2 algorithm.
+
+export type FlashcardSource = 'term' | 'quote' | 'answer' | 'lesson';
+
+export interface FlashcardDraft {
+  front: string;
+  back: string;
+}
+
+export interface Flashcard extends FlashcardDraft {
+  id: string;
+  grade: GradeLevel;
+  subject: Subject;
+  source: FlashcardSource;
+  lessonId?: string; // curriculum lesson the card was generated from
+  // SM-2 state
+  ease: number;
+  interval: number; // days
+  repetitions: number;
+  dueAt: Date;
+  createdAt: Date;
+  lastReviewedAt?: Date;
+}
+
+export interface ReviewGrade {
+  label: string;
+  quality: number; // SM-2 quality, 0..5
+}
+
+export const REVIEW_GRADES: ReviewGrade[] = [
+  { label: 'مرة أخرى', quality: 1 },
+  { label: 'صعب', quality: 3 },
+  { label: 'جيد', quality: 4 },
+  { label: 'سهل', quality: 5 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export const FLASHCARDS_SCHEMA = {
+  title: 'Flashcards',
+  type: 'object',
+  properties: {
+    cards: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { front: { type: 'string' }, back: { type: 'string' } },
+        required: ['front', 'back'],
+      },
+    },
+  },
+  required: ['cards'],
+};
+
+export const parseFlashcardDrafts = (text: string): FlashcardDraft[] => {
+  const data = JSON.parse(text);
+  const cards = (Array.isArray(data?.cards) ? data.cards : [])
+    .filter((c: any) => typeof c?.front === 'string' && typeof c?.back === 'string' && c.front.trim() && c.back.trim())
+    .map((c: any) => ({ front: c.front.trim(), back: c.back.trim() }));
+  if (cards.length === 0) throw new Error('No usable flashcards');
+  return cards;
+};
+
+const createFlashcardId = () => `card-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+// ================== SCHEDULING ==================
+// SM-2: a failed card starts over tomorrow; passed cards go 1 day, 6 days, then the previous interval times the ease
+export const scheduleReview = (card: Flashcard, quality: number, now: Date = new Date()): Flashcard => {
+  const ease = Math.max(MIN_EASE, card.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  let repetitions = card.repetitions;
+  let interval: number;
+
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions += 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * ease);
+  }
+
+  return { ...card, ease, repetitions, interval, lastReviewedAt: now, dueAt: new Date(now.getTime() + interval * DAY_MS) };
+};
+
+export const isDue = (card: Flashcard, now: Date = new Date()) => card.dueAt.getTime() <= now.getTime();
+
+// ================== STORAGE ==================
+export const listFlashcards = async (grade: GradeLevel, subject?: Subject): Promise<Flashcard[]> => {
+  const cards = await runInStore<Flashcard[]>(STORES.FLASHCARDS, 'readonly', store =>
+    subject ? store.index('session').getAll([grade, subject]) : store.index('grade').getAll(grade)
+  );
+  return cards.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+};
+
+export const listDueFlashcards = async (grade: GradeLevel, subject?: Subject, now: Date = new Date()): Promise<Flashcard[]> =>
+  (await listFlashcards(grade, subject)).filter(card => isDue(card, now));
+
+export const saveFlashcard = async (card: Flashcard): Promise<void> => {
+  await runInStore(STORES.FLASHCARDS, 'readwrite', store => store.put(card));
+};
+
+export const deleteFlashcard = async (id: string): Promise<void> => {
+  await runInStore(STORES.FLASHCARDS, 'readwrite', store => store.delete(id));
+};
+
+export const reviewFlashcard = async (card: Flashcard, quality: number): Promise<Flashcard> => {
+  const updated = scheduleReview(card, quality);
+  await saveFlashcard(updated);
+  return updated;
+};
+
+// New cards are due right away; a card whose front is already in the deck is skipped. Returns how many were added.
+export const addFlashcards = async (
+  grade: GradeLevel,
+  subject: Subject,
+  drafts: FlashcardDraft[],
+  source: FlashcardSource,
+  lessonId?: string
+): Promise<number> => {
+  const existing = new Set((await listFlashcards(grade, subject)).map(c => normalizeArabic(c.front)));
+  const now = new Date();
+  let added = 0;
+
+  for (const draft of drafts) {
+    const key = normalizeArabic(draft.front);
+    if (!key || existing.has(key)) continue;
+    existing.add(key);
+    await saveFlashcard({
+      id: createFlashcardId(),
+      grade,
+      subject,
+      front: draft.front.trim(),
+      back: draft.back.trim(),
+      source,
+      lessonId,
+      ease: INITIAL_EASE,
+      interval: 0,
+      repetitions: 0,
+      dueAt: now,
+      createdAt: now,
+    });
+    added++;
+  }
+  return added;
+};
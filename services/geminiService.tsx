@@ -1,36 +1,19 @@
-import { GoogleGenAI, Content, Modality } from "@google/genai";
-import { Message, Sender, GradeLevel, Subject, Attachment } from "../types";
-import { getCurriculumFor } from "../curriculum"; // ← التعديل الصحيح هنا فقط
-
-const SYSTEM_INSTRUCTION = `
-أنت نظام تعليم ذكي متخصص لطلاب الثانوية العامة المصرية (الصفوف: الأول، الثاني، والثالث).
-
-**فلسفة العمل الجديدة**: "خير الكلام ما قل ودل".
-مهمتك هي تقديم المعلومات الدراسية بشكل **مختصر جداً، مركز، ومنظم**.
-
-**التعليمات الصارمة**:
-1. **الاختصار**: تجنب الشرح المطول والسرد الإنشائي.
-2. **العناصر**: اعتمد على القوائم النقطية (Bullet Points) لعرض المعلومات.
-3. **المباشرة**: أجب عن السؤال فوراً دون مقدمات طويلة.
-4. **التلخيص**: قدم "الزبدة" أو الخلاصة المفيدة للامتحان.
-
-**الرسوم البيانية والمخططات (مهم جداً)**:
-عندما يتضمن الشرح علاقة بيانية أو إحصائية (مثل: قانون أوم، المنحنيات، العلاقات الطردية والعكسية)، **يجب** عليك إنشاء كود JSON للرسم البياني.
-اكتب كود JSON فقط داخل بلوك \`chart\` وبدون أي تعليقات نهائياً.
-
-قواعد JSON الصارمة:
-1. استخدم علامات التنصيص المزدوجة " " فقط للمفاتيح والقيم النصية.
-2. لا تضع فواصل , في نهاية القوائم أو الكائنات.
-3. لا تضع أي تعليقات داخل الـ JSON.
-4. تأكد أن الأرقام مكتوبة كأرقام.
-`;
-
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
-
-export interface GenerationOptions {
-  useThinking?: boolean;
-  useSearch?: boolean;
+import { Message, GradeLevel, Subject, Track, Attachment } from "../types";
+import { getLessonsFor } from "../curriculum";
+import { getTutorProvider, GenerationOptions, LiveCallbacks, LiveSession } from "./providers";
+import { ExplanationStyle, loadProfile } from "./profile";
+import { Quiz, QUESTION_KIND_LABELS, QuestionKind, parseQuiz } from "./quiz";
+import { ExamBlueprint, ExamPaper, ExamSection, EssayQuestion, EssayGrade, parseEssayQuestions, parseEssayGrade, countMissingItems } from "./exam";
+import { FlashcardDraft, parseFlashcardDrafts } from "./flashcards";
+import { STRUCTURED_TASKS } from "./structuredTasks";
+import { HomeworkTurn, TutorContext, LiveContext, getAnswerBudget } from "./tutorPrompt";
+
+export type { GenerationOptions, LiveSession } from "./providers";
+export type { HomeworkTurn } from "./tutorPrompt";
+
+export interface TutorOptions extends GenerationOptions {
+  teachingMode?: ExplanationStyle;
+  homework?: HomeworkTurn;
 }
 
 // ================== STREAM TEXT RESPONSE ==================
@@ -41,120 +24,194 @@ export const generateStreamResponse = async (
   history: Message[],
   onChunk: (text: string) => void,
   attachment?: Attachment,
-  options?: GenerationOptions
+  options?: TutorOptions,
+  lessonId?: string,
+  track?: Track
 ): Promise<string> => {
+  const { teachingMode = 'concise', homework, ...generationOptions } = options || {};
+  const { name, schoolType, targetScore } = loadProfile();
+  const context: TutorContext = { grade, subject, track, lessonId, teachingMode, homework, student: { name, schoolType, targetScore } };
+
+  let promptText = userMessage;
+  if (!promptText.trim() && attachment) {
+    if (attachment.type === 'audio') promptText = "لخص ما في هذا التسجيل.";
+    else if (attachment.type === 'image') promptText = "لخص ما في الصورة.";
+    else promptText = "لخص هذا الملف.";
+  }
 
-  const chatHistory: Content[] = history.map((msg) => ({
-    role: msg.sender === Sender.USER ? 'user' : 'model',
-    parts: [{ text: msg.text }],
-  }));
-
-  const curriculumList = getCurriculumFor(grade, subject);
-  const curriculumString = curriculumList.length > 0 
-    ? curriculumList.join('\n- ') 
-    : 'المنهج الرسمي لوزارة التربية والتعليم المصرية لهذا الصف.';
+  try {
+    return await getTutorProvider().streamChat({
+      context,
+      history,
+      userMessage: promptText,
+      attachment,
+      options: { ...generationOptions, maxOutputTokens: getAnswerBudget(context) },
+    }, onChunk);
+  } catch (error) {
+    console.error("Tutor API Error:", error);
+    return "عذراً، حدث خطأ أثناء معالجة طلبك.";
+  }
+};
 
-  const dynamicInstruction = SYSTEM_INSTRUCTION
-    .replace('[GRADE_LEVEL]', grade)
-    .replace('[SUBJECT]', subject)
-    .replace('[CURRICULUM_LIST]', curriculumString);
+// ================== QUIZ ==================
+const requestQuestions = async (
+  grade: GradeLevel,
+  subject: Subject,
+  topic: string,
+  count: number,
+  kinds: QuestionKind[]
+): Promise<Quiz> => {
+  const kindList = kinds.map(k => QUESTION_KIND_LABELS[k]).join('، ');
+  const text = await getTutorProvider().generateStructured({
+    ...STRUCTURED_TASKS.quiz,
+    prompt: `اكتب ${count} أسئلة من نوع (${kindList}) في مادة ${subject} لطلاب ${grade}، عن: "${topic}".`,
+  });
+  return parseQuiz(text, topic);
+};
 
+export const generateQuiz = async (
+  grade: GradeLevel,
+  subject: Subject,
+  lesson: string,
+  count: number = 6
+): Promise<Quiz | null> => {
   try {
-    let model = 'gemini-2.5-flash';
-    let config: any = {
-      systemInstruction: dynamicInstruction,
-      temperature: 0.7,
-    };
-
-    if (options?.useThinking) {
-      model = 'gemini-3-pro-preview';
-      config.thinkingConfig = { thinkingBudget: 32768 };
-    } else {
-      config.maxOutputTokens = 2000;
-      config.thinkingConfig = { thinkingBudget: 0 };
-    }
-
-    if (options?.useSearch && !options?.useThinking) {
-      config.tools = [{ googleSearch: {} }];
-    }
+    return await requestQuestions(grade, subject, lesson, count, ['mcq', 'true_false', 'complete']);
+  } catch (error) {
+    console.error("Quiz Generation Error:", error);
+    return null;
+  }
+};
 
-    const chat = ai.chats.create({
-      model,
-      config,
-      history: chatHistory,
-    });
+// ================== MOCK EXAM ==================
+const MAX_SECTION_REQUESTS = 3;
 
-    let messageParts: any[] = [];
+const requestSectionItems = async (
+  grade: GradeLevel,
+  subject: Subject,
+  scope: string,
+  spec: ExamSection['spec'],
+  count: number,
+  idPrefix: string
+): Promise<Pick<ExamSection, 'questions' | 'essays'>> => {
+  if (spec.kind === 'objective') {
+    const quiz = await requestQuestions(grade, subject, scope, count, spec.questionKinds);
+    return { questions: quiz.questions.map(q => ({ ...q, id: `${idPrefix}-${q.id}` })), essays: [] };
+  }
 
-    if (attachment) {
-      messageParts.push({
-        inlineData: {
-          mimeType: attachment.mimeType,
-          data: attachment.data,
-        },
-      });
-    }
+  const text = await getTutorProvider().generateStructured({
+    ...STRUCTURED_TASKS.essayQuestions,
+    prompt: `اكتب ${count} أسئلة مقالية (درجة كل سؤال ${spec.marksEach}) في مادة ${subject} لطلاب ${grade}، تغطي: ${scope}`,
+  });
+  return { questions: [], essays: parseEssayQuestions(text, idPrefix, spec.marksEach) };
+};
 
-    let promptText = userMessage;
-    if (!promptText.trim() && attachment) {
-      if (attachment.type === 'audio') promptText = "لخص ما في هذا التسجيل.";
-      else if (attachment.type === 'image') promptText = "لخص ما في الصورة.";
-      else promptText = "لخص هذا الملف.";
+// A short answer is topped up by asking for the rest; a section still short after that is flagged on the paper
+// (countMissingItems) rather than passed off as complete
+const generateSection = async (
+  grade: GradeLevel,
+  subject: Subject,
+  scope: string,
+  spec: ExamSection['spec']
+): Promise<ExamSection> => {
+  const section: ExamSection = { spec, questions: [], essays: [] };
+  for (let attempt = 0; attempt < MAX_SECTION_REQUESTS && countMissingItems(section) > 0; attempt++) {
+    try {
+      const items = await requestSectionItems(grade, subject, scope, spec, countMissingItems(section), attempt ? `${spec.id}-${attempt + 1}` : spec.id);
+      section.questions.push(...items.questions.slice(0, spec.count - section.questions.length));
+      section.essays.push(...items.essays.slice(0, spec.count - section.essays.length));
+    } catch (error) {
+      if (attempt === 0) throw error;
+      console.error("Exam Section Error:", error);
+      break;
     }
+  }
+  return section;
+};
 
-    messageParts.push({ text: promptText });
-
-    const resultStream = await chat.sendMessageStream({ message: messageParts });
-
-    let fullText = '';
-    const groundingSources: Set<string> = new Set();
-
-    for await (const chunk of resultStream) {
-      const chunkText = chunk.text || '';
-      fullText += chunkText;
-
-      if (chunk.candidates?.[0]?.groundingMetadata?.groundingChunks) {
-        chunk.candidates[0].groundingMetadata.groundingChunks.forEach((c: any) => {
-          if (c.web?.uri) {
-            groundingSources.add(`[${c.web.title || 'مصدر'}](${c.web.uri})`);
-          }
-        });
-      }
+// Sections are requested one by one so a long paper stays within the output budget of a single call
+export const generateExamPaper = async (
+  grade: GradeLevel,
+  subject: Subject,
+  blueprint: ExamBlueprint,
+  onProgress?: (doneSections: number) => void,
+  track?: Track
+): Promise<ExamPaper | null> => {
+  const lessons = getLessonsFor(grade, subject, track);
+  const scope = lessons.length > 0 ? `المنهج كاملاً موزعاً على الدروس: ${lessons.map(l => l.title).join('، ')}` : 'المنهج كاملاً';
 
-      onChunk(fullText);
+  try {
+    const sections: ExamSection[] = [];
+    for (const spec of blueprint.sections) {
+      sections.push(await generateSection(grade, subject, scope, spec));
+      onProgress?.(sections.length);
     }
+    return { grade, subject, durationMinutes: blueprint.durationMinutes, sections };
+  } catch (error) {
+    console.error("Exam Generation Error:", error);
+    return null;
+  }
+};
 
-    if (groundingSources.size > 0) {
-      const sourcesText = "\n\n**المصادر:**\n" + Array.from(groundingSources).map(s => `- ${s}`).join('\n');
-      fullText += sourcesText;
-      onChunk(fullText);
-    }
+export const gradeEssayAnswer = async (
+  subject: Subject,
+  question: EssayQuestion,
+  answer: string
+): Promise<EssayGrade | null> => {
+  const rubric = question.rubric.map((r, i) => `${i + 1}. ${r.criterion} (${r.marks} درجة)`).join('\n');
+  try {
+    const text = await getTutorProvider().generateStructured({
+      ...STRUCTURED_TASKS.essayGrade,
+      prompt: `المادة: ${subject}\nالسؤال (${question.marks} درجة): ${question.question}\n\nالإجابة النموذجية: ${question.modelAnswer}\n\nعناصر التصحيح:\n${rubric}\n\nإجابة الطالب:\n${answer}`,
+    });
+    return parseEssayGrade(text, question);
+  } catch (error) {
+    console.error("Essay Grading Error:", error);
+    return null;
+  }
+};
 
-    return fullText;
+// ================== FLASHCARDS ==================
+const requestFlashcards = async (prompt: string): Promise<FlashcardDraft[]> => {
+  const text = await getTutorProvider().generateStructured({ ...STRUCTURED_TASKS.flashcards, prompt });
+  return parseFlashcardDrafts(text);
+};
 
+export const generateFlashcards = async (
+  grade: GradeLevel,
+  subject: Subject,
+  lesson: string,
+  count: number = 10
+): Promise<FlashcardDraft[] | null> => {
+  try {
+    return await requestFlashcards(`اصنع ${count} بطاقات مراجعة لأهم تعريفات وقوانين ومعلومات درس "${lesson}" في مادة ${subject} لطلاب ${grade}.`);
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    return "عذراً، حدث خطأ أثناء معالجة طلبك.";
+    console.error("Flashcard Generation Error:", error);
+    return null;
+  }
+};
+
+// Turns a clicked term or answer line into one question/answer card, using the surrounding answer as context
+export const draftFlashcard = async (
+  subject: Subject,
+  snippet: string,
+  context: string
+): Promise<FlashcardDraft | null> => {
+  try {
+    const [card] = await requestFlashcards(
+      `اصنع بطاقة مراجعة واحدة فقط في مادة ${subject} عن: "${snippet}".\nاستخدم هذا الشرح كمرجع:\n${context.substring(0, 3000)}`
+    );
+    return card;
+  } catch (error) {
+    console.error("Flashcard Draft Error:", error);
+    return null;
   }
 };
 
 // ================== TEXT TO SPEECH ==================
 export const generateSpeech = async (text: string): Promise<string | null> => {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
-      },
-    });
-
-    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+    return await getTutorProvider().generateSpeech(text);
   } catch (error) {
     console.error("TTS Error:", error);
     return null;
@@ -167,27 +224,14 @@ export const streamSpeech = async (
   onAudioChunk: (base64: string) => void
 ): Promise<void> => {
   try {
-    const responseStream = await ai.models.generateContentStream({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
-      },
-    });
-
-    for await (const chunk of responseStream) {
-      const audioData = chunk.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (audioData) {
-        onAudioChunk(audioData);
-      }
-    }
+    await getTutorProvider().streamSpeech(text, onAudioChunk);
   } catch (error) {
     console.error("TTS Stream Error:", error);
   }
 };
 
+// ================== LIVE AUDIO ==================
+export const connectLiveSession = (
+  context: LiveContext,
+  callbacks: LiveCallbacks
+): Promise<LiveSession> => getTutorProvider().connectLive(context, callbacks);
@@ -0,0 +1,208 @@
+import { GradeLevel, Subject, Track, Message, Sender } from "../types";
+import { CurriculumLesson, CURRICULUM_TERM_LABELS } from "../curriculum";
+import { normalizeMathDelimiters } from "./math";
+import { dateStamp } from "./fileTransfer";
+
+// A conversation, or the lesson studied in it, turned into a handout: a title page with the lesson's goals, then each
+// question with the tutor's answer. Exported as a PDF of the rendered pages, or as Markdown the student can edit.
+
+export const HANDOUT_BRAND = 'نظام الثانوية الذكي';
+
+export type HandoutFormat = 'pdf' | 'markdown';
+
+export const HANDOUT_FORMAT_LABELS: Record<HandoutFormat, string> = {
+  pdf: 'PDF جاهز للطباعة',
+  markdown: 'Markdown قابل للتعديل',
+};
+
+export interface HandoutExchange {
+  id: string; // the answer's message id
+  question: Message;
+  answer: Message;
+}
+
+export interface Handout {
+  title: string;
+  grade: GradeLevel;
+  subject: Subject;
+  track?: Track;
+  lesson?: CurriculumLesson;
+  studentName?: string;
+  createdAt: Date;
+  exchanges: HandoutExchange[];
+}
+
+// Pairs every finished answer with the question before it; the welcome message answers nothing and is left out
+export const groupExchanges = (messages: Message[]): HandoutExchange[] =>
+  messages.flatMap((message, i) => {
+    const question = messages[i - 1];
+    if (message.sender !== Sender.BOT || message.isStreaming || !message.text.trim()) return [];
+    if (!question || question.sender !== Sender.USER) return [];
+    return [{ id: message.id, question, answer: message }];
+  });
+
+export const defaultHandoutTitle = (subject: Subject, lesson?: CurriculumLesson) =>
+  lesson ? `مذكرة درس: ${lesson.title}` : `مذكرة ${subject}`;
+
+export const handoutSubtitle = (handout: Pick<Handout, 'grade' | 'subject' | 'track'>) =>
+  [handout.grade, handout.track, handout.subject].filter(Boolean).join(' • ');
+
+export const formatHandoutDate = (date: Date) =>
+  date.toLocaleDateString('ar-EG', { year: 'numeric', month: 'long', day: 'numeric' });
+
+export const handoutFileName = (handout: Handout, format: HandoutFormat) =>
+  `${handout.title.replace(/[\\/:*?"<>|\s]+/g, ' ').trim() || 'مذكرة'} ${dateStamp(handout.createdAt)}.${format === 'pdf' ? 'pdf' : 'md'}`;
+
+// ================== MARKDOWN ==================
+const quote = (text: string) => text.trim().split('\n').map(line => `> ${line}`).join('\n');
+
+// Formulas stay as $...$ TeX and drawings as their ```chart / ```plot / ... source, so nothing is lost in the copy
+export const buildHandoutMarkdown = (handout: Handout): string => {
+  const { lesson } = handout;
+  const lines = [
+    `# ${handout.title}`,
+    '',
+    `**${handoutSubtitle(handout)}**`,
+    '',
+    ...(lesson ? [`- الدرس: ${lesson.title} (${CURRICULUM_TERM_LABELS[lesson.term]})`] : []),
+    ...(handout.studentName ? [`- الطالب: ${handout.studentName}`] : []),
+    `- التاريخ: ${formatHandoutDate(handout.createdAt)}`,
+    '',
+  ];
+
+  if (lesson?.objectives.length) lines.push('## أهداف الدرس', '', ...lesson.objectives.map(o => `- ${o}`), '');
+  if (lesson?.keyTerms.length) lines.push('## المصطلحات الأساسية', '', lesson.keyTerms.join(' • '), '');
+  if (lesson?.formulas.length) lines.push('## القوانين', '', ...lesson.formulas.map(f => `- ${f}`), '');
+
+  handout.exchanges.forEach(({ question, answer }, i) => {
+    lines.push('---', '', `## السؤال ${i + 1}`, '');
+    if (question.text.trim()) lines.push(quote(question.text), '');
+    if (question.attachment) lines.push(`> (مرفق: ${question.attachment.name || question.attachment.type})`, '');
+    lines.push(normalizeMathDelimiters(answer.text.trim()), '');
+  });
+
+  return lines.join('\n');
+};
+
+// ================== PDF ==================
+// The handout is laid out at A4 width in CSS pixels (96 per inch) and cut into pages of A4 height
+export const A4 = { width: 794, height: 1123 };
+export const PAGE_MARGIN = { x: 48, top: 76, bottom: 68 }; // the running header and footer sit inside the margins
+export const CONTENT_WIDTH = A4.width - PAGE_MARGIN.x * 2;
+const CONTENT_HEIGHT = A4.height - PAGE_MARGIN.top - PAGE_MARGIN.bottom;
+const SCALE = 2;
+
+// Places where a page may end: the top of a question, paragraph, list item or drawing
+const BREAK_SELECTOR = '[data-handout-break], .markdown-body > *, .markdown-body > ul > li, .markdown-body > ol > li';
+
+// Start offset of every page in content `height` pixels tall. Each page ends at the last break that fits; a block
+// longer than most of a page is cut where the page ends instead of leaving the page nearly empty.
+export const paginate = (breaks: number[], height: number, pageHeight: number): number[] => {
+  const sorted = [...new Set(breaks)].filter(b => b > 0 && b < height).sort((a, b) => a - b);
+  const starts = [0];
+  let start = 0;
+  while (height - start > pageHeight) {
+    const limit = start + pageHeight;
+    const fitting = sorted.filter(b => b > start + pageHeight / 3 && b <= limit);
+    start = fitting.length ? fitting[fitting.length - 1] : limit;
+    starts.push(start);
+  }
+  return starts;
+};
+
+const createPage = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = A4.width * SCALE;
+  canvas.height = A4.height * SCALE;
+  const context = canvas.getContext('2d')!;
+  context.scale(SCALE, SCALE);
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, A4.width, A4.height);
+  return { canvas, context };
+};
+
+const fitText = (context: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  if (context.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted && context.measureText(`${fitted}…`).width > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted}…`;
+};
+
+// Running header (brand and class) and footer (title and page number), drawn on the canvas so every page gets them
+const drawPageFrame = (context: CanvasRenderingContext2D, handout: Handout, page: number, total: number) => {
+  const right = A4.width - PAGE_MARGIN.x;
+  const half = CONTENT_WIDTH / 2 - 12;
+  context.direction = 'rtl';
+  context.textBaseline = 'alphabetic';
+
+  context.font = "700 13px Cairo, sans-serif";
+  context.fillStyle = '#4f46e5';
+  context.textAlign = 'right';
+  context.fillText(HANDOUT_BRAND, right, 44);
+  context.font = "600 12px Cairo, sans-serif";
+  context.fillStyle = '#475569';
+  context.textAlign = 'left';
+  context.fillText(fitText(context, handoutSubtitle(handout), half), PAGE_MARGIN.x, 44);
+
+  context.strokeStyle = '#e2e8f0';
+  context.lineWidth = 1;
+  context.beginPath();
+  context.moveTo(PAGE_MARGIN.x, 56);
+  context.lineTo(right, 56);
+  context.moveTo(PAGE_MARGIN.x, A4.height - 50);
+  context.lineTo(right, A4.height - 50);
+  context.stroke();
+
+  context.font = "400 11px Cairo, sans-serif";
+  context.fillStyle = '#64748b';
+  context.textAlign = 'right';
+  context.fillText(fitText(context, handout.title, half), right, A4.height - 28);
+  context.textAlign = 'left';
+  context.fillText(`صفحة ${page} من ${total}`, PAGE_MARGIN.x, A4.height - 28);
+};
+
+interface HandoutPages {
+  titlePage: HTMLElement; // A4.width × A4.height
+  content: HTMLElement;   // CONTENT_WIDTH wide, as tall as it needs
+}
+
+// Pages are pictures of the rendered handout, so formulas, drawings and Arabic shaping come out exactly as on screen
+// (jsPDF's own text drawing cannot join Arabic letters). The page elements must be in the document while this runs.
+export const exportHandoutPdf = async (pages: HandoutPages, handout: Handout, onProgress?: (page: number, total: number) => void): Promise<Blob> => {
+  const [{ default: html2canvas }, { jsPDF }] = await Promise.all([import('html2canvas'), import('jspdf')]);
+  await document.fonts.ready;
+  await Promise.all(Array.from(pages.content.querySelectorAll('img'), img => img.decode().catch(() => undefined)));
+  // Charts size themselves after a ResizeObserver round, so give the layout a moment to settle
+  await new Promise(resolve => setTimeout(resolve, 400));
+
+  const capture = (element: HTMLElement, y = 0, height?: number) =>
+    html2canvas(element, { scale: SCALE, backgroundColor: '#ffffff', useCORS: true, logging: false, y, height });
+
+  const origin = pages.content.getBoundingClientRect().top;
+  const breaks = Array.from(pages.content.querySelectorAll(BREAK_SELECTOR), el => el.getBoundingClientRect().top - origin);
+  const height = pages.content.scrollHeight;
+  const starts = handout.exchanges.length ? paginate(breaks, height, CONTENT_HEIGHT) : []; // a lesson handout may be its title page alone
+  const total = starts.length + 1;
+
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4', compress: true });
+  pdf.setProperties({ title: handout.title, subject: handoutSubtitle(handout), author: handout.studentName || '', creator: HANDOUT_BRAND });
+  const addPage = (canvas: HTMLCanvasElement, index: number) => {
+    if (index > 0) pdf.addPage();
+    pdf.addImage(canvas.toDataURL('image/jpeg', 0.92), 'JPEG', 0, 0, 210, 297);
+  };
+
+  onProgress?.(1, total);
+  addPage(await capture(pages.titlePage), 0);
+
+  for (let i = 0; i < starts.length; i++) {
+    onProgress?.(i + 2, total);
+    const sliceHeight = Math.ceil((starts[i + 1] ?? height) - starts[i]);
+    const slice = await capture(pages.content, starts[i], sliceHeight);
+    const { canvas, context } = createPage();
+    context.drawImage(slice, PAGE_MARGIN.x, PAGE_MARGIN.top, CONTENT_WIDTH, sliceHeight);
+    drawPageFrame(context, handout, i + 2, total);
+    addPage(canvas, i + 1);
+  }
+
+  return pdf.output('blob');
+};
@@ -0,0 +1,82 @@
+import { GradeLevel, Subject, Track } from "../types";
+import { runInStore, STORES } from "./db";
+
+// Homework problems worked through with the hint ladder, and how much help each one took.
+// Kept per problem so a parent or teacher can see which problems were solved alone.
+
+// 0 means no hint yet; each level gives away a little more of the solution
+export const MAX_HINT_LEVEL = 3;
+
+export const HINT_LEVEL_LABELS = ['بدون تلميح', 'الفكرة', 'خطة الحل', 'أول خطوة محلولة'];
+
+export type HomeworkStatus = 'in_progress' | 'solved' | 'revealed';
+
+export const HOMEWORK_STATUS_LABELS: Record<HomeworkStatus, string> = {
+  in_progress: 'لم تكتمل',
+  solved: 'حلها بنفسه',
+  revealed: 'عُرض الحل',
+};
+
+export interface HomeworkProblem {
+  id: string;
+  grade: GradeLevel;
+  subject: Subject;
+  track?: Track; // missing on problems saved before tracks were recorded
+  conversationId: string;
+  title: string; // the problem as the student typed it, or a placeholder for a photo
+  hasImage: boolean;
+  hintsUsed: number; // highest hint level reached
+  stepsChecked: number;
+  status: HomeworkStatus;
+  startedAt: Date;
+  updatedAt: Date;
+}
+
+const TITLE_MAX_LENGTH = 80;
+
+// ================== READ ==================
+// Problems of another track are left out; older problems without one are shown to every track
+export const listHomework = async (grade: GradeLevel, subject: Subject, track?: Track): Promise<HomeworkProblem[]> => {
+  const problems = await runInStore<HomeworkProblem[]>(STORES.HOMEWORK, 'readonly', store =>
+    store.index('session').getAll([grade, subject])
+  );
+  return problems.filter(p => !p.track || p.track === track).sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+};
+
+// ================== WRITE ==================
+export const startHomeworkProblem = async (
+  grade: GradeLevel,
+  subject: Subject,
+  conversationId: string,
+  text: string,
+  hasImage: boolean,
+  track?: Track
+): Promise<HomeworkProblem> => {
+  const now = new Date();
+  const title = text.replace(/\s+/g, ' ').trim();
+  const problem: HomeworkProblem = {
+    id: `hw-${now.getTime().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+    grade,
+    subject,
+    track,
+    conversationId,
+    title: title ? title.substring(0, TITLE_MAX_LENGTH) : 'مسألة من صورة',
+    hasImage,
+    hintsUsed: 0,
+    stepsChecked: 0,
+    status: 'in_progress',
+    startedAt: now,
+    updatedAt: now,
+  };
+  await runInStore(STORES.HOMEWORK, 'readwrite', store => store.put(problem));
+  return problem;
+};
+
+export const updateHomeworkProblem = async (
+  problem: HomeworkProblem,
+  changes: Partial<Pick<HomeworkProblem, 'hintsUsed' | 'stepsChecked' | 'status'>>
+): Promise<HomeworkProblem> => {
+  const updated = { ...problem, ...changes, updatedAt: new Date() };
+  await runInStore(STORES.HOMEWORK, 'readwrite', store => store.put(updated));
+  return updated;
+};
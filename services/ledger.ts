@@ -0,0 +1,151 @@
+import { runInStore, STORES } from "./db";
+import { decodeLicense } from "./license";
+import { getPlan, PlanId, PLANS } from "./subscription";
+import { toCsv, parseCsv } from "./fileTransfer";
+
+// The teacher's record of every license handed out. It lives only on the admin device,
+// so it must be exported regularly as a backup file.
+
+export interface LedgerEntry {
+  id: string;
+  studentName: string;
+  phone: string;
+  deviceId: string;
+  planId: PlanId;
+  price: number;
+  issuedAt: string;  // ISO date
+  expiresAt: string; // ISO date
+  license?: string;
+  revokedAt?: string;
+  notes?: string;
+}
+
+export type LedgerStatus = 'active' | 'expired' | 'revoked';
+
+export interface LedgerImportResult {
+  imported: number;
+  skipped: number; // rows without a device id
+}
+
+export interface PlanTotal {
+  planId: PlanId;
+  count: number;
+  revenue: number;
+}
+
+const BACKUP_FORMAT = 'smart-teacher-ledger';
+const BACKUP_VERSION = 1;
+
+const CSV_HEADER: (keyof LedgerEntry)[] = [
+  'id', 'studentName', 'phone', 'deviceId', 'planId', 'price', 'issuedAt', 'expiresAt', 'revokedAt', 'notes', 'license',
+];
+
+export const createLedgerId = () => `L-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 6)}`.toUpperCase();
+
+export const getLedgerStatus = (entry: LedgerEntry, now: Date = new Date()): LedgerStatus => {
+  if (entry.revokedAt) return 'revoked';
+  return new Date(entry.expiresAt) > now ? 'active' : 'expired';
+};
+
+// ================== STORAGE ==================
+export const listLedger = async (): Promise<LedgerEntry[]> => {
+  const entries = await runInStore<LedgerEntry[]>(STORES.LEDGER, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+};
+
+export const saveLedgerEntry = async (entry: LedgerEntry): Promise<void> => {
+  await runInStore(STORES.LEDGER, 'readwrite', store => store.put(entry));
+};
+
+export const revokeLedgerEntry = async (entry: LedgerEntry): Promise<void> => {
+  await saveLedgerEntry({ ...entry, revokedAt: new Date().toISOString() });
+};
+
+export const deleteLedgerEntry = async (id: string): Promise<void> => {
+  await runInStore(STORES.LEDGER, 'readwrite', store => store.delete(id));
+};
+
+// Upserts by id, so importing the same file twice does not duplicate students
+const saveMany = async (entries: LedgerEntry[]): Promise<number> => {
+  for (const entry of entries) await saveLedgerEntry(entry);
+  return entries.length;
+};
+
+// ================== ISSUING ==================
+// When the signed license is pasted in, its own dates and device win over what was typed in the form
+export const buildLedgerEntry = (
+  form: { studentName: string; phone: string; deviceId: string; planId: PlanId; price?: number; license?: string; startsAt?: Date },
+  now: Date = new Date()
+): LedgerEntry => {
+  const plan = PLANS[form.planId];
+  const payload = form.license ? decodeLicense(form.license) : null;
+  const start = form.startsAt && form.startsAt > now ? form.startsAt : now;
+
+  return {
+    id: createLedgerId(),
+    studentName: form.studentName.trim(),
+    phone: form.phone.trim(),
+    deviceId: payload?.deviceId || form.deviceId.trim(),
+    planId: (payload && getPlan(payload.plan)?.id) || plan.id,
+    price: form.price ?? plan.price,
+    issuedAt: payload?.issuedAt || now.toISOString(),
+    expiresAt: payload?.expiresAt || new Date(start.getTime() + plan.days * 24 * 60 * 60 * 1000).toISOString(),
+    license: form.license?.trim() || undefined,
+  };
+};
+
+// ================== TOTALS ==================
+export const totalsByPlan = (entries: LedgerEntry[]): PlanTotal[] =>
+  Object.values(PLANS).map(plan => {
+    const sold = entries.filter(e => e.planId === plan.id && !e.revokedAt);
+    return { planId: plan.id, count: sold.length, revenue: sold.reduce((sum, e) => sum + e.price, 0) };
+  });
+
+// ================== CSV ==================
+export const ledgerToCsv = (entries: LedgerEntry[]): string =>
+  toCsv(CSV_HEADER, entries.map(entry => CSV_HEADER.map(key => entry[key])));
+
+// Fills every field the ledger screen reads from an imported row or backup entry; null when there is no device id
+const normalizeEntry = (raw: Record<string, unknown>): LedgerEntry | null => {
+  const text = (key: keyof LedgerEntry) => (raw[key] === undefined || raw[key] === null ? '' : String(raw[key]).trim());
+  if (!text('deviceId')) return null;
+  return {
+    id: text('id') || createLedgerId(),
+    studentName: text('studentName'),
+    phone: text('phone'),
+    deviceId: text('deviceId'),
+    planId: getPlan(text('planId'))?.id || 'term',
+    price: Number(raw.price) || 0,
+    issuedAt: text('issuedAt') || new Date().toISOString(),
+    expiresAt: text('expiresAt') || new Date().toISOString(),
+    license: text('license') || undefined,
+    revokedAt: text('revokedAt') || undefined,
+    notes: text('notes') || undefined,
+  };
+};
+
+const importEntries = async (raws: Record<string, unknown>[]): Promise<LedgerImportResult> => {
+  const entries = raws.map(normalizeEntry).filter((e): e is LedgerEntry => e !== null);
+  return { imported: await saveMany(entries), skipped: raws.length - entries.length };
+};
+
+export const importLedgerCsv = async (text: string): Promise<LedgerImportResult> => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || !header.includes('deviceId')) throw new Error('Unknown CSV layout');
+
+  return importEntries(rows.map(cells => {
+    const row: Record<string, string> = {};
+    header.forEach((key, i) => { row[key.trim()] = cells[i] || ''; });
+    return row;
+  }));
+};
+
+// ================== BACKUP ==================
+export const ledgerToBackup = (entries: LedgerEntry[]): string =>
+  JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: new Date().toISOString(), entries }, null, 2);
+
+export const restoreLedgerBackup = async (text: string): Promise<LedgerImportResult> => {
+  const backup = JSON.parse(text);
+  if (backup?.format !== BACKUP_FORMAT || !Array.isArray(backup.entries)) throw new Error('Not a ledger backup');
+  return importEntries(backup.entries.map((e: unknown) => (e && typeof e === 'object' ? e : {})));
+};
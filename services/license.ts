@@ -0,0 +1,111 @@
+// Signed activation licenses.
+// A license is `<payload>.<signature>`, both base64url: the payload is JSON and the signature is Ed25519 over the
+// payload text. Only the public key ships with the app (LICENSE_PUBLIC_KEY); licenses are minted by scripts/license.ts.
+
+export interface LicensePayload {
+  v: 1;
+  plan: string;
+  deviceId: string;
+  issuedAt: string;  // ISO date
+  expiresAt: string; // ISO date
+}
+
+export type LicenseError = 'not_configured' | 'unsupported' | 'malformed' | 'bad_signature' | 'wrong_device' | 'expired';
+
+export interface LicenseCheck {
+  valid: boolean;
+  payload?: LicensePayload;
+  error?: LicenseError;
+}
+
+export const LICENSE_ERROR_MESSAGES: Record<LicenseError, string> = {
+  not_configured: 'نظام التفعيل غير مُعد على هذه النسخة. تواصل مع المستر.',
+  unsupported: 'هذا المتصفح لا يدعم التحقق من كود التفعيل. حدّث المتصفح أو جرّب متصفحًا آخر مثل Chrome أو Firefox.',
+  malformed: 'كود التفعيل غير صحيح.',
+  bad_signature: 'كود التفعيل غير صحيح.',
+  wrong_device: 'هذا الكود خاص بجهاز آخر.',
+  expired: 'انتهت صلاحية هذا الكود.',
+};
+
+// ================== ENCODING ==================
+export const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const encodePayload = (payload: LicensePayload): string =>
+  toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+
+// Reads the payload without checking the signature (for display only)
+export const decodeLicense = (token: string): LicensePayload | null => {
+  try {
+    const [encodedPayload] = token.trim().split('.');
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(encodedPayload)));
+    if (payload?.v !== 1 || !payload.deviceId || !payload.plan || !payload.expiresAt) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+// ================== VERIFICATION ==================
+let publicKeyPromise: Promise<CryptoKey> | null = null;
+
+// A failed import is not cached, so the next check tries again
+const getPublicKey = (rawKey: string): Promise<CryptoKey> => {
+  if (!publicKeyPromise) {
+    publicKeyPromise = Promise.resolve()
+      .then(() => crypto.subtle.importKey('raw', fromBase64Url(rawKey), { name: 'Ed25519' }, false, ['verify']))
+      .catch(e => {
+        publicKeyPromise = null;
+        throw e;
+      });
+  }
+  return publicKeyPromise;
+};
+
+export const verifyLicense = async (token: string, deviceId: string, now: Date = new Date()): Promise<LicenseCheck> => {
+  const rawKey = process.env.LICENSE_PUBLIC_KEY;
+  if (!rawKey) return { valid: false, error: 'not_configured' };
+
+  const [encodedPayload, encodedSignature] = token.trim().split('.');
+  const payload = decodeLicense(token);
+  if (!payload || !encodedSignature) return { valid: false, error: 'malformed' };
+
+  // Older browsers (and pages served without HTTPS) have no Web Crypto or no Ed25519; that is not a bad code
+  let publicKey: CryptoKey;
+  try {
+    publicKey = await getPublicKey(rawKey);
+  } catch (e) {
+    console.error("License Key Error:", e);
+    // A DataError means the bundled key itself is wrong, which is a setup problem rather than the browser's
+    return { valid: false, payload, error: e?.name === 'DataError' ? 'not_configured' : 'unsupported' };
+  }
+
+  try {
+    const isSigned = await crypto.subtle.verify(
+      { name: 'Ed25519' },
+      publicKey,
+      fromBase64Url(encodedSignature),
+      new TextEncoder().encode(encodedPayload)
+    );
+    if (!isSigned) return { valid: false, payload, error: 'bad_signature' };
+  } catch (e) {
+    console.error("License Verify Error:", e);
+    return { valid: false, payload, error: 'bad_signature' };
+  }
+
+  if (payload.deviceId !== deviceId) return { valid: false, payload, error: 'wrong_device' };
+  if (new Date(payload.expiresAt).getTime() <= now.getTime()) return { valid: false, payload, error: 'expired' };
+
+  return { valid: true, payload };
+};
@@ -0,0 +1,55 @@
+import type { KatexOptions } from "katex";
+
+// Formulas in answers are LaTeX between $...$ (inline) or $$...$$ (own line); chemistry uses mhchem's \ce{} and \pu{}.
+// Models also write \(...\), \[...\] and bare \ce{...}, which remark-math does not parse, so those are rewritten first.
+
+export const KATEX_OPTIONS: KatexOptions = {
+  throwOnError: false, // a bad formula shows as red source instead of breaking the answer
+  strict: 'ignore',    // Arabic inside \text{} is fine
+  output: 'htmlAndMathml',
+};
+
+// Regions that are left alone: code, and formulas already in $ delimiters
+const PROTECTED = /```[\s\S]*?(?:```|$)|`[^`\n]*`|\$\$[\s\S]*?\$\$|\$[^$\n]+\$/g;
+const BRACKET_MATH = /\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)/g;
+const CHEM_COMMAND = /\\(ce|pu)\{/g;
+
+// Index just past the brace that closes the one at `open`, or -1 while it is still being streamed
+const closingBrace = (text: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return i + 1;
+  }
+  return -1;
+};
+
+const wrapChemistry = (text: string): string => {
+  let out = '';
+  let last = 0;
+  for (const match of text.matchAll(CHEM_COMMAND)) {
+    if (match.index! < last) continue;
+    const end = closingBrace(text, match.index! + match[0].length - 1);
+    if (end < 0) break;
+    out += text.slice(last, match.index) + `$${text.slice(match.index, end)}$`;
+    last = end;
+  }
+  return out + text.slice(last);
+};
+
+const normalizeText = (text: string): string =>
+  wrapChemistry(
+    text.replace(BRACKET_MATH, (_, display: string | undefined, inline: string | undefined) =>
+      display !== undefined ? `\n$$\n${display.trim()}\n$$\n` : `$${inline.trim()}$`
+    )
+  );
+
+export const normalizeMathDelimiters = (markdown: string): string => {
+  let out = '';
+  let last = 0;
+  for (const match of markdown.matchAll(PROTECTED)) {
+    out += normalizeText(markdown.slice(last, match.index)) + match[0];
+    last = match.index! + match[0].length;
+  }
+  return out + normalizeText(markdown.slice(last));
+};
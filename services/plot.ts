@@ -0,0 +1,186 @@
+import { ChartAxis, SERIES_COLORS, repairJson } from "./chart";
+import { CompiledExpression, compileExpression, isConstantName, isFunctionName, isIdentifier } from "./expression";
+
+// Interactive graphs the tutor writes inside ```plot blocks: curves given as expressions, with sliders for their parameters.
+// A curve with only "y" is a function of x; a curve with "x" and "y" is parametric in t (e.g. a projectile's path).
+
+// The block's JSON as the model writes it
+export interface PlotDefinition {
+  title?: string;
+  xAxis?: ChartAxis;
+  yAxis?: ChartAxis;
+  domain?: [number | string, number | string]; // range of x (or t for parametric curves); bounds may use parameters
+  range?: [number, number];                    // fixed y range, for curves with asymptotes
+  parameters?: { name: string; label?: string; min: number; max: number; value?: number; step?: number; unit?: string }[];
+  curves: { y: string; x?: string; label?: string; color?: string }[];
+  samples?: number;
+}
+
+export interface PlotParameter {
+  name: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number; // starting value
+  unit?: string;
+}
+
+export interface PlotCurve {
+  kind: 'function' | 'parametric';
+  x?: CompiledExpression; // parametric only
+  y: CompiledExpression;
+  label: string;
+  color: string;
+}
+
+export interface PlotSpec {
+  title: string;
+  xAxis: ChartAxis;
+  yAxis: ChartAxis;
+  domain: [CompiledExpression, CompiledExpression];
+  range?: [number, number];
+  parameters: PlotParameter[];
+  curves: PlotCurve[];
+  samples: number;
+}
+
+export interface PlotPoint {
+  x: number;
+  y: number | null; // null breaks the line (division by zero, asymptotes)
+}
+
+const MAX_PARAMETERS = 6;
+const MAX_CURVES = SERIES_COLORS.length;
+const SAMPLES_RANGE = { min: 20, max: 1000, default: 200 };
+const DEFAULT_DOMAIN: [number, number] = [-10, 10];
+const MAX_MAGNITUDE = 1e9;
+const RESERVED_NAMES = ['x', 't'];
+
+// ================== VALIDATION ==================
+const toNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+const toText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const normalizeParameter = (raw: any): PlotParameter | null => {
+  const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+  const min = toNumber(raw?.min);
+  const max = toNumber(raw?.max);
+  if (!isIdentifier(name) || RESERVED_NAMES.includes(name) || isFunctionName(name)) return null;
+  if (min === undefined || max === undefined || min >= max) return null;
+  const step = toNumber(raw.step);
+  const value = toNumber(raw.value);
+  return {
+    name,
+    label: toText(raw.label) ?? name,
+    min,
+    max,
+    step: step !== undefined && step > 0 && step <= max - min ? step : (max - min) / 100,
+    value: value === undefined ? min : Math.min(max, Math.max(min, value)),
+    unit: toText(raw.unit),
+  };
+};
+
+const checkNames = (expression: CompiledExpression, allowed: string[]) => {
+  const unknown = expression.names.find(name => !allowed.includes(name) && !isConstantName(name));
+  if (unknown) throw new Error(`الرمز "${unknown}" في "${expression.source}" غير معرّف`);
+};
+
+// The error messages are shown to the student on the fallback card
+export const normalizePlotSpec = (raw: any): PlotSpec => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('الرسم ليس كائن JSON');
+
+  const parameters = (Array.isArray(raw.parameters) ? raw.parameters : [])
+    .map(normalizeParameter)
+    .filter((p: PlotParameter | null, i: number, all: (PlotParameter | null)[]): p is PlotParameter =>
+      p !== null && all.findIndex(other => other?.name === p.name) === i)
+    .slice(0, MAX_PARAMETERS);
+  const parameterNames = parameters.map(p => p.name);
+
+  // Curves with a bad expression are dropped; if none survive, the first problem is the one reported
+  const problems: string[] = [];
+  const curves = (Array.isArray(raw.curves) ? raw.curves : []).slice(0, MAX_CURVES).flatMap((item: any, i: number): PlotCurve[] => {
+    try {
+      const isParametric = item?.x !== undefined && item?.x !== null;
+      const y = compileExpression(item?.y);
+      const x = isParametric ? compileExpression(item.x) : undefined;
+      const allowed = [...parameterNames, isParametric ? 't' : 'x'];
+      checkNames(y, allowed);
+      if (x) checkNames(x, allowed);
+      return [{
+        kind: isParametric ? 'parametric' : 'function',
+        x,
+        y,
+        label: toText(item.label) ?? y.source,
+        color: typeof item.color === 'string' && /^#[0-9a-f]{3,8}$/i.test(item.color) ? item.color : SERIES_COLORS[i % SERIES_COLORS.length],
+      }];
+    } catch (e: any) {
+      problems.push(e.message);
+      return [];
+    }
+  });
+  if (curves.length === 0) throw new Error(problems[0] || 'لا توجد منحنيات للرسم');
+
+  const rawDomain = Array.isArray(raw.domain) && raw.domain.length === 2 ? raw.domain : DEFAULT_DOMAIN;
+  const domain = rawDomain.map((bound: unknown) => {
+    const expression = compileExpression(bound);
+    checkNames(expression, parameterNames);
+    return expression;
+  }) as [CompiledExpression, CompiledExpression];
+
+  const range = Array.isArray(raw.range) ? raw.range.map(toNumber) : [];
+  const samples = toNumber(raw.samples);
+
+  return {
+    title: toText(raw.title) ?? '',
+    xAxis: { label: toText(raw.xAxis?.label), unit: toText(raw.xAxis?.unit) },
+    yAxis: { label: toText(raw.yAxis?.label), unit: toText(raw.yAxis?.unit) },
+    domain,
+    range: range.length === 2 && range.every((n: number | undefined) => n !== undefined) && range[0] < range[1] ? [range[0], range[1]] : undefined,
+    parameters,
+    curves,
+    samples: samples === undefined ? SAMPLES_RANGE.default : Math.round(Math.min(SAMPLES_RANGE.max, Math.max(SAMPLES_RANGE.min, samples))),
+  };
+};
+
+export const parsePlotSpec = (text: string): PlotSpec => {
+  let data: unknown;
+  try {
+    data = JSON.parse(repairJson(text));
+  } catch {
+    throw new Error('صيغة JSON غير صالحة');
+  }
+  return normalizePlotSpec(data);
+};
+
+// ================== SAMPLING ==================
+export const initialPlotValues = (spec: PlotSpec): Record<string, number> =>
+  Object.fromEntries(spec.parameters.map(p => [p.name, p.value]));
+
+const finite = (n: number): number | null => (Number.isFinite(n) && Math.abs(n) <= MAX_MAGNITUDE ? n : null);
+
+// One list of points per curve for the current slider values; null when the domain is empty for these values
+export const samplePlot = (spec: PlotSpec, values: Record<string, number>): PlotPoint[][] | null => {
+  const from = spec.domain[0].evaluate(values);
+  const to = spec.domain[1].evaluate(values);
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from >= to) return null;
+
+  return spec.curves.map(curve => {
+    const points: PlotPoint[] = [];
+    for (let i = 0; i <= spec.samples; i++) {
+      const v = from + ((to - from) * i) / spec.samples;
+      if (curve.kind === 'function') {
+        points.push({ x: v, y: finite(curve.y.evaluate({ ...values, x: v })) });
+        continue;
+      }
+      const scope = { ...values, t: v };
+      const x = finite(curve.x!.evaluate(scope));
+      if (x !== null) points.push({ x, y: finite(curve.y.evaluate(scope)) });
+    }
+    return points;
+  });
+};
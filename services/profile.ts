@@ -0,0 +1,58 @@
+import { GradeLevel, Track } from "../types";
+import { TRACKS_BY_GRADE } from "../curriculum";
+
+// The student's own choices, kept on this device so they are asked only once
+
+export type SchoolType = 'public' | 'experimental' | 'azhar';
+
+export const SCHOOL_TYPE_LABELS: Record<SchoolType, string> = {
+  public: 'حكومي',
+  experimental: 'تجريبي (لغات)',
+  azhar: 'أزهري',
+};
+
+export type ExplanationStyle = 'concise' | 'detailed' | 'socratic' | 'simplified';
+
+export const EXPLANATION_STYLE_LABELS: Record<ExplanationStyle, string> = {
+  concise: 'مختصر ومركز',
+  detailed: 'شرح مفصل خطوة بخطوة',
+  socratic: 'أسئلة توجهني للحل',
+  simplified: 'تبسيط شديد من الصفر',
+};
+
+export interface StudentProfile {
+  name?: string;
+  grade?: GradeLevel;
+  track?: Track;
+  schoolType?: SchoolType;
+  targetScore?: number; // percent of the total (المجموع)
+  explanationStyle?: ExplanationStyle;
+}
+
+export const TARGET_SCORE_RANGE = { min: 50, max: 100 };
+
+const PROFILE_KEY = 'student_profile';
+
+export const loadProfile = (): StudentProfile => {
+  try {
+    return JSON.parse(localStorage.getItem(PROFILE_KEY) || '{}');
+  } catch (e) {
+    console.error("Profile Error:", e);
+    return {};
+  }
+};
+
+export const saveProfile = (changes: Partial<StudentProfile>): StudentProfile => {
+  const profile = { ...loadProfile(), ...changes };
+  localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  return profile;
+};
+
+// Onboarding is done once the student has a name and a grade; every other answer has a default
+export const isProfileComplete = (profile: StudentProfile): boolean => Boolean(profile.name?.trim() && profile.grade);
+
+// The saved track only counts for the grade it was chosen in
+export const getSavedTrack = (grade: GradeLevel): Track | undefined => {
+  const { grade: savedGrade, track } = loadProfile();
+  return savedGrade === grade && track && TRACKS_BY_GRADE[grade].includes(track) ? track : undefined;
+};
@@ -0,0 +1,158 @@
+import { GradeLevel, Subject, Track } from "../types";
+import { runInStore, STORES } from "./db";
+import { getLessonsFor, findLesson, CurriculumLesson } from "../curriculum";
+import { normalizeArabic } from "./quiz";
+
+// What the student has covered, lesson by lesson.
+// Chat questions about a lesson mark it explained, a quiz marks it practiced, and a strong quiz score marks it mastered.
+
+export type LessonStatus = 'not_started' | 'explained' | 'practiced' | 'mastered';
+
+export interface LessonProgress {
+  id: string;
+  grade: GradeLevel;
+  subject: Subject;
+  lessonId: string;
+  lesson: string; // title when last updated, for reading the store by hand
+  status: Exclude<LessonStatus, 'not_started'>;
+  bestQuizScore?: number; // 0..1
+  quizAttempts: number;
+  updatedAt: Date;
+}
+
+export interface LessonMastery {
+  lesson: CurriculumLesson;
+  status: LessonStatus;
+  bestQuizScore?: number;
+}
+
+export interface SubjectMastery {
+  lessons: LessonMastery[];
+  percent: number;       // weighted completion, 0..100
+  masteredCount: number;
+  recommendations: LessonMastery[];
+}
+
+export const MASTERY_THRESHOLD = 0.8;
+const MAX_RECOMMENDATIONS = 3;
+
+export const LESSON_STATUS_LABELS: Record<LessonStatus, string> = {
+  not_started: 'لم يبدأ',
+  explained: 'تم الشرح',
+  practiced: 'تم التدريب',
+  mastered: 'متقن',
+};
+
+const STATUS_RANK: Record<LessonStatus, number> = { not_started: 0, explained: 1, practiced: 2, mastered: 3 };
+
+const progressId = (grade: GradeLevel, subject: Subject, lessonId: string) => `${grade}|${subject}|${lessonId}`;
+
+// ================== STORAGE ==================
+export const listProgress = (grade: GradeLevel, subject: Subject): Promise<LessonProgress[]> =>
+  runInStore<LessonProgress[]>(STORES.PROGRESS, 'readonly', store => store.index('session').getAll([grade, subject]));
+
+const getProgress = (id: string): Promise<LessonProgress | undefined> =>
+  runInStore<LessonProgress | undefined>(STORES.PROGRESS, 'readonly', store => store.get(id));
+
+const saveProgress = async (progress: LessonProgress): Promise<void> => {
+  await runInStore(STORES.PROGRESS, 'readwrite', store => store.put(progress));
+};
+
+const deleteProgress = async (id: string): Promise<void> => {
+  await runInStore(STORES.PROGRESS, 'readwrite', store => store.delete(id));
+};
+
+// A lesson seen for the first time starts as explained.
+// Records saved before lessons had ids are keyed by title; they move to the id key on their next update.
+const updateLesson = async (
+  grade: GradeLevel,
+  subject: Subject,
+  lesson: CurriculumLesson,
+  update: (current: LessonProgress) => LessonProgress
+): Promise<void> => {
+  const id = progressId(grade, subject, lesson.id);
+  const legacyId = progressId(grade, subject, lesson.title);
+  const existing = await getProgress(id);
+  const legacy = existing ? undefined : await getProgress(legacyId);
+  const current: LessonProgress = existing || (legacy && { ...legacy, id })
+    || { id, grade, subject, lessonId: lesson.id, lesson: lesson.title, status: 'explained', quizAttempts: 0, updatedAt: new Date() };
+  await saveProgress({ ...update(current), lessonId: lesson.id, lesson: lesson.title, updatedAt: new Date() });
+  if (legacy) await deleteProgress(legacyId);
+};
+
+// ================== EVENTS ==================
+// A lesson counts as asked about when at least two of the distinctive words of its title
+// (and a good share of them) appear in the question, or when one of its key terms does
+const MATCH_RATIO = 0.4;
+
+const titleWords = (lesson: string) =>
+  normalizeArabic(lesson.replace(/^[^:]*:/, '').replace(/[()]/g, ' '))
+    .split(' ')
+    .map(word => word.length > 4 ? word.replace(/^و/, '') : word)
+    .filter(word => word.length > 2);
+
+export const matchLessons = (text: string, lessons: CurriculumLesson[]): CurriculumLesson[] => {
+  const normalized = normalizeArabic(text);
+  return lessons.filter(lesson => {
+    if (lesson.keyTerms.some(term => normalizeArabic(term).length > 3 && normalized.includes(normalizeArabic(term)))) return true;
+    const words = titleWords(lesson.title);
+    if (words.length === 0) return false;
+    const found = words.filter(word => normalized.includes(word)).length;
+    return found >= Math.min(2, words.length) && found / words.length >= MATCH_RATIO;
+  });
+};
+
+// A conversation scoped to a lesson credits that lesson; free chat credits the lessons the question mentions
+export const recordChatActivity = async (grade: GradeLevel, subject: Subject, question: string, track?: Track, lessonId?: string): Promise<void> => {
+  const scoped = lessonId ? findLesson(grade, subject, lessonId) : undefined;
+  if (scoped) {
+    await updateLesson(grade, subject, scoped, current => current);
+    return;
+  }
+  for (const lesson of matchLessons(question, getLessonsFor(grade, subject, track))) {
+    await updateLesson(grade, subject, lesson, current => current);
+  }
+};
+
+// Mastery follows the best score so far, so one bad attempt does not undo it
+export const recordQuizResult = async (
+  grade: GradeLevel,
+  subject: Subject,
+  lesson: CurriculumLesson,
+  correct: number,
+  total: number
+): Promise<void> => {
+  if (total === 0) return;
+  const score = correct / total;
+  await updateLesson(grade, subject, lesson, current => {
+    const bestQuizScore = Math.max(current.bestQuizScore ?? 0, score);
+    return {
+      ...current,
+      status: bestQuizScore >= MASTERY_THRESHOLD ? 'mastered' : 'practiced',
+      bestQuizScore,
+      quizAttempts: current.quizAttempts + 1,
+    };
+  });
+};
+
+// ================== MASTERY MAP ==================
+// Next up: lessons practiced but not yet mastered, then explained but never quizzed, then the first untouched ones
+export const getSubjectMastery = async (grade: GradeLevel, subject: Subject, track?: Track): Promise<SubjectMastery> => {
+  const records = new Map((await listProgress(grade, subject)).map(p => [p.lessonId ?? p.lesson, p]));
+  const lessons: LessonMastery[] = getLessonsFor(grade, subject, track).map(lesson => {
+    const record = records.get(lesson.id) || records.get(lesson.title);
+    return { lesson, status: record?.status || 'not_started', bestQuizScore: record?.bestQuizScore };
+  });
+
+  const weight = lessons.reduce((sum, l) => sum + STATUS_RANK[l.status] / STATUS_RANK.mastered, 0);
+  const recommendations = (['practiced', 'explained', 'not_started'] as LessonStatus[])
+    .flatMap(status => lessons.filter(l => l.status === status))
+    .slice(0, MAX_RECOMMENDATIONS);
+
+  return {
+    lessons,
+    percent: lessons.length > 0 ? Math.round((weight / lessons.length) * 100) : 0,
+    masteredCount: lessons.filter(l => l.status === 'mastered').length,
+    recommendations,
+  };
+};
@@ -0,0 +1,174 @@
+import { GoogleGenAI, Content, Modality, LiveServerMessage } from "@google/genai";
+import { Sender } from "../../types";
+import { TutorProvider } from "./types";
+import { buildTutorInstruction, buildLiveInstruction } from "../tutorPrompt";
+
+const CHAT_MODEL = 'gemini-2.5-flash';
+const THINKING_MODEL = 'gemini-3-pro-preview';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const VOICE_NAME = 'Kore';
+const DEFAULT_MAX_OUTPUT_TOKENS = 2000;
+const DEFAULT_THINKING_TOKENS = 32768;
+
+const speechConfig = {
+  responseModalities: [Modality.AUDIO],
+  speechConfig: {
+    voiceConfig: {
+      prebuiltVoiceConfig: { voiceName: VOICE_NAME },
+    },
+  },
+};
+
+export const createGeminiProvider = (apiKey: string): TutorProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+
+    // ================== STREAM TEXT RESPONSE ==================
+    streamChat: async ({ context, history, userMessage, attachment, options, signal }, onChunk) => {
+      const chatHistory: Content[] = history.map((msg) => ({
+        role: msg.sender === Sender.USER ? 'user' : 'model',
+        parts: [{ text: msg.text }],
+      }));
+
+      let model = CHAT_MODEL;
+      let config: any = {
+        systemInstruction: buildTutorInstruction(context),
+        temperature: 0.7,
+        abortSignal: signal,
+      };
+
+      if (options?.useThinking) {
+        model = THINKING_MODEL;
+        config.thinkingConfig = { thinkingBudget: options.maxThinkingTokens || DEFAULT_THINKING_TOKENS };
+      } else {
+        config.maxOutputTokens = options?.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS;
+        config.thinkingConfig = { thinkingBudget: 0 };
+      }
+
+      if (options?.useSearch && !options?.useThinking) {
+        config.tools = [{ googleSearch: {} }];
+      }
+
+      const chat = ai.chats.create({
+        model,
+        config,
+        history: chatHistory,
+      });
+
+      let messageParts: any[] = [];
+
+      if (attachment) {
+        messageParts.push({
+          inlineData: {
+            mimeType: attachment.mimeType,
+            data: attachment.data,
+          },
+        });
+      }
+
+      messageParts.push({ text: userMessage });
+
+      const resultStream = await chat.sendMessageStream({ message: messageParts });
+
+      let fullText = '';
+      const groundingSources: Set<string> = new Set();
+
+      for await (const chunk of resultStream) {
+        const chunkText = chunk.text || '';
+        fullText += chunkText;
+
+        if (chunk.candidates?.[0]?.groundingMetadata?.groundingChunks) {
+          chunk.candidates[0].groundingMetadata.groundingChunks.forEach((c: any) => {
+            if (c.web?.uri) {
+              groundingSources.add(`[${c.web.title || 'مصدر'}](${c.web.uri})`);
+            }
+          });
+        }
+
+        onChunk(fullText);
+      }
+
+      if (groundingSources.size > 0) {
+        const sourcesText = "\n\n**المصادر:**\n" + Array.from(groundingSources).map(s => `- ${s}`).join('\n');
+        fullText += sourcesText;
+        onChunk(fullText);
+      }
+
+      return fullText;
+    },
+
+    // ================== STRUCTURED JSON ==================
+    generateStructured: async ({ systemInstruction, prompt, schema }) => {
+      const response = await ai.models.generateContent({
+        model: CHAT_MODEL,
+        contents: prompt,
+        config: {
+          systemInstruction,
+          temperature: 0.4,
+          responseMimeType: 'application/json',
+          responseJsonSchema: schema,
+          thinkingConfig: { thinkingBudget: 0 },
+        },
+      });
+
+      return response.text || '';
+    },
+
+    // ================== TEXT TO SPEECH ==================
+    generateSpeech: async (text) => {
+      const response = await ai.models.generateContent({
+        model: TTS_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: speechConfig,
+      });
+
+      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+    },
+
+    // ================== STREAM TTS ==================
+    streamSpeech: async (text, onAudioChunk) => {
+      const responseStream = await ai.models.generateContentStream({
+        model: TTS_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: speechConfig,
+      });
+
+      for await (const chunk of responseStream) {
+        const audioData = chunk.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (audioData) {
+          onAudioChunk(audioData);
+        }
+      }
+    },
+
+    // ================== LIVE AUDIO ==================
+    connectLive: async (context, callbacks) => {
+      const session = await ai.live.connect({
+        model: LIVE_MODEL,
+        config: {
+          ...speechConfig,
+          systemInstruction: buildLiveInstruction(context),
+        },
+        callbacks: {
+          onopen: callbacks.onOpen,
+          onmessage: (msg: LiveServerMessage) => {
+            const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (audioData) callbacks.onAudio(audioData);
+          },
+          onclose: callbacks.onClose,
+          onerror: callbacks.onError,
+        },
+      });
+
+      return {
+        sendAudio: (base64Pcm) => session.sendRealtimeInput({
+          media: { mimeType: 'audio/pcm;rate=16000', data: base64Pcm },
+        }),
+        close: () => session.close(),
+      };
+    },
+  };
+};
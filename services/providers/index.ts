@@ -0,0 +1,25 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { TutorProvider } from "./types";
+
+export * from "./types";
+
+// TUTOR_PROVIDER=proxy (default) | gemini | mock — set in .env.local, inlined by vite.config.ts
+const createProvider = (): TutorProvider => {
+  switch (process.env.TUTOR_PROVIDER) {
+    case 'gemini':
+      return createGeminiProvider(process.env.API_KEY || '');
+    case 'mock':
+      return createMockProvider(process.env.MOCK_LLM_URL || undefined, process.env.MOCK_LLM_MODEL || undefined);
+    default:
+      return createProxyProvider(process.env.PROXY_URL || '');
+  }
+};
+
+let provider: TutorProvider | null = null;
+
+export const getTutorProvider = (): TutorProvider => {
+  if (!provider) provider = createProvider();
+  return provider;
+};
@@ -0,0 +1,250 @@
+import { Sender } from "../../types";
+import { ChatRequest, StructuredRequest, TutorProvider } from "./types";
+import { buildTutorInstruction } from "../tutorPrompt";
+
+// Offline backend for development.
+// With a base URL it streams from any OpenAI-compatible server (Ollama, LM Studio, llama.cpp ...),
+// without one it replays deterministic canned answers so the UI can be exercised with no network at all.
+
+const CHUNK_DELAY_MS = 30;
+const SAMPLE_RATE = 24000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ================== CANNED FIXTURES ==================
+const CHART_FIXTURE = [
+  '```chart',
+  '{"type": "line", "title": "قانون أوم", "data": [{"x": 0, "y": 0}, {"x": 1, "y": 2}, {"x": 2, "y": 4}, {"x": 3, "y": 6}]}',
+  '```',
+].join('\n');
+
+const buildFixtureAnswer = ({ userMessage, attachment, history }: ChatRequest): string => {
+  const turn = history.filter(m => m.sender === Sender.USER).length + 1;
+  const lines = [
+    `**إجابة تجريبية (وضع عدم الاتصال) — السؤال رقم ${turn}**`,
+    '',
+    `- سؤالك: ${userMessage}`,
+    attachment ? `- تم استلام مرفق من نوع \`${attachment.type}\`.` : '- لا يوجد مرفق.',
+    '- هذه الإجابة ثابتة ومُعدة مسبقاً لاختبار الواجهة بدون إنترنت.',
+  ];
+  if (/رسم|منحنى|بياني|chart/i.test(userMessage)) {
+    lines.push('', CHART_FIXTURE);
+  }
+  return lines.join('\n');
+};
+
+// Keyed by the schema title of each structured request
+const STRUCTURED_FIXTURES: Record<string, unknown> = {
+  Quiz: {
+    questions: [
+      {
+        kind: 'mcq',
+        question: 'وحدة قياس المقاومة الكهربية هي:',
+        options: ['الأمبير', 'الفولت', 'الأوم', 'الوات'],
+        correctIndex: 2,
+        acceptedAnswers: [],
+        explanation: 'المقاومة = فرق الجهد ÷ شدة التيار، ووحدتها الأوم (فولت/أمبير).',
+      },
+      {
+        kind: 'true_false',
+        question: 'تتناسب شدة التيار طردياً مع فرق الجهد عند ثبوت درجة الحرارة.',
+        options: ['صح', 'خطأ'],
+        correctIndex: 0,
+        acceptedAnswers: [],
+        explanation: 'هذا هو نص قانون أوم.',
+      },
+      {
+        kind: 'complete',
+        question: 'الجهاز المستخدم لقياس شدة التيار هو ____.',
+        options: [],
+        correctIndex: -1,
+        acceptedAnswers: ['الأميتر', 'الاميتر', 'الأمّيتر'],
+        explanation: 'الأميتر يوصل على التوالي في الدائرة لقياس شدة التيار.',
+      },
+    ],
+  },
+  EssayQuestions: {
+    questions: [
+      {
+        question: 'علل: يوصل الأميتر على التوالي في الدائرة الكهربية.',
+        modelAnswer: 'لكي يمر فيه نفس التيار المار في الدائرة، ومقاومته صغيرة جداً فلا تؤثر على شدة التيار.',
+        rubric: [
+          { criterion: 'يمر فيه نفس تيار الدائرة', marks: 1 },
+          { criterion: 'مقاومته صغيرة فلا يغير شدة التيار', marks: 1 },
+        ],
+      },
+    ],
+  },
+  EssayGrade: {
+    criteria: [
+      { awarded: 1, comment: 'ذكرت السبب الأول بشكل صحيح.' },
+      { awarded: 0, comment: 'لم تذكر أثر مقاومة الأميتر.' },
+    ],
+    feedback: 'أكمل الإجابة بذكر صغر مقاومة الجهاز.',
+  },
+  Flashcards: {
+    cards: [
+      { front: 'ما نص قانون أوم؟', back: 'شدة التيار تتناسب طردياً مع فرق الجهد عند ثبوت درجة الحرارة.' },
+      { front: 'وحدة قياس المقاومة', back: 'الأوم (Ω) = فولت / أمبير' },
+      { front: 'كيف يوصل الفولتميتر في الدائرة؟', back: 'على التوازي مع الجزء المراد قياس فرق الجهد بين طرفيه.' },
+    ],
+  },
+};
+
+const streamFixture = async (text: string, onChunk: (fullText: string) => void): Promise<string> => {
+  const words = text.split(/(\s+)/);
+  let fullText = '';
+  for (const word of words) {
+    fullText += word;
+    onChunk(fullText);
+    await wait(CHUNK_DELAY_MS);
+  }
+  return fullText;
+};
+
+// ================== OPENAI-COMPATIBLE ENDPOINT ==================
+const streamFromEndpoint = async (
+  baseUrl: string,
+  model: string,
+  { context, history, userMessage, attachment, options, signal }: ChatRequest,
+  onChunk: (fullText: string) => void
+): Promise<string> => {
+  const userContent: any[] = [{ type: 'text', text: userMessage }];
+  if (attachment?.type === 'image') {
+    userContent.unshift({ type: 'image_url', image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` } });
+  }
+
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/v1/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    signal,
+    body: JSON.stringify({
+      model,
+      stream: true,
+      temperature: 0,
+      max_tokens: options?.maxOutputTokens,
+      messages: [
+        { role: 'system', content: buildTutorInstruction(context) },
+        ...history.map(m => ({ role: m.sender === Sender.USER ? 'user' : 'assistant', content: m.text })),
+        { role: 'user', content: userContent },
+      ],
+    }),
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Mock endpoint responded with ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let fullText = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const payload = line.replace(/^data:\s*/, '').trim();
+      if (!payload || payload === '[DONE]') continue;
+      try {
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) {
+          fullText += delta;
+          onChunk(fullText);
+        }
+      } catch {
+        // Ignore keep-alive and partial lines
+      }
+    }
+  }
+
+  return fullText;
+};
+
+const structuredFromEndpoint = async (
+  baseUrl: string,
+  model: string,
+  { systemInstruction, prompt, schema }: StructuredRequest
+): Promise<string> => {
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/v1/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model,
+      temperature: 0,
+      response_format: { type: 'json_schema', json_schema: { name: schema.title, schema } },
+      messages: [
+        { role: 'system', content: systemInstruction },
+        { role: 'user', content: prompt },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Mock endpoint responded with ${response.status}`);
+  }
+  const data = await response.json();
+  return data.choices?.[0]?.message?.content || '';
+};
+
+// ================== AUDIO ==================
+// A short, quiet sine tone stands in for speech so the playback pipeline can be tested.
+const createTone = (durationSec: number, frequency: number): string => {
+  const length = Math.floor(SAMPLE_RATE * durationSec);
+  const int16 = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    int16[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * 0.2 * 0x7FFF);
+  }
+  let binary = '';
+  const bytes = new Uint8Array(int16.buffer);
+  for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+export const createMockProvider = (baseUrl?: string, model: string = 'local-model'): TutorProvider => ({
+  name: baseUrl ? 'mock-endpoint' : 'mock-fixtures',
+
+  streamChat: async (request, onChunk) => {
+    if (baseUrl) return streamFromEndpoint(baseUrl, model, request, onChunk);
+    return streamFixture(buildFixtureAnswer(request), onChunk);
+  },
+
+  generateStructured: async (request) => {
+    if (baseUrl) return structuredFromEndpoint(baseUrl, model, request);
+    await wait(CHUNK_DELAY_MS * 10);
+    return JSON.stringify(STRUCTURED_FIXTURES[request.schema.title] ?? {});
+  },
+
+  generateSpeech: async () => createTone(0.6, 440),
+
+  streamSpeech: async (text, onAudioChunk) => {
+    const sentences = text.split(/[.!؟?\n]+/).filter(s => s.trim()).slice(0, 3);
+    for (const _ of sentences) {
+      onAudioChunk(createTone(0.3, 440));
+      await wait(CHUNK_DELAY_MS);
+    }
+  },
+
+  connectLive: async (_context, callbacks) => {
+    let isClosed = false;
+    setTimeout(() => {
+      if (isClosed) return;
+      callbacks.onOpen();
+      callbacks.onAudio(createTone(0.5, 520));
+    }, 0);
+
+    return {
+      sendAudio: () => {},
+      close: () => {
+        if (isClosed) return;
+        isClosed = true;
+        callbacks.onClose();
+      },
+    };
+  },
+});
@@ -0,0 +1,29 @@
+import { LiveContext } from "../tutorPrompt";
+
+// Wire format shared by the browser proxy client and the Node server in /server.
+
+export const PROXY_ROUTES = {
+  CHAT: '/api/chat',
+  STRUCTURED: '/api/structured',
+  TTS: '/api/tts',
+  TTS_STREAM: '/api/tts/stream',
+  LIVE: '/api/live',
+} as const;
+
+export const DEVICE_HEADER = 'x-device-id';
+
+// Streaming HTTP responses are newline-delimited JSON, one event per line
+export type StreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'audio'; data: string }
+  | { type: 'error'; message: string };
+
+export type LiveClientMessage =
+  | { type: 'setup'; context: LiveContext; deviceId: string }
+  | { type: 'audio'; data: string };
+
+export type LiveServerEvent =
+  | { type: 'open' }
+  | { type: 'audio'; data: string }
+  | { type: 'close' }
+  | { type: 'error'; message: string };
@@ -0,0 +1,119 @@
+import { TutorProvider } from "./types";
+import { PROXY_ROUTES, DEVICE_HEADER, StreamEvent, LiveClientMessage, LiveServerEvent } from "./proxyProtocol";
+
+// Talks only to the backend in /server, so no API key ever reaches the browser.
+
+const RATE_LIMIT_MESSAGE = 'لقد وصلت للحد المسموح من الأسئلة مؤقتاً ⏳ استرح قليلاً وحاول بعد بضع دقائق.';
+
+const getDeviceId = () => localStorage.getItem('device_id') || 'anonymous';
+
+const post = (baseUrl: string, route: string, body: unknown) =>
+  fetch(`${baseUrl}${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [DEVICE_HEADER]: getDeviceId() },
+    body: JSON.stringify(body),
+  });
+
+// Reads a newline-delimited JSON response and hands each event to `onEvent`
+const readEvents = async (response: Response, onEvent: (event: StreamEvent) => void) => {
+  if (!response.body) throw new Error('Empty proxy response');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.filter(line => line.trim()).forEach(line => onEvent(JSON.parse(line)));
+  }
+};
+
+const toWebSocketUrl = (baseUrl: string, route: string) => {
+  const url = new URL(`${baseUrl}${route}`, window.location.href);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+};
+
+export const createProxyProvider = (baseUrl: string = ''): TutorProvider => ({
+  name: 'proxy',
+
+  streamChat: async ({ signal, ...request }, onChunk) => {
+    const response = await post(baseUrl, PROXY_ROUTES.CHAT, request);
+    if (response.status === 429) {
+      onChunk(RATE_LIMIT_MESSAGE);
+      return RATE_LIMIT_MESSAGE;
+    }
+    if (!response.ok) throw new Error(`Proxy responded with ${response.status}`);
+
+    let fullText = '';
+    await readEvents(response, (event) => {
+      if (event.type === 'error') throw new Error(event.message);
+      if (event.type === 'text') {
+        fullText += event.delta;
+        onChunk(fullText);
+      }
+    });
+    return fullText;
+  },
+
+  generateStructured: async (request) => {
+    const response = await post(baseUrl, PROXY_ROUTES.STRUCTURED, request);
+    if (!response.ok) throw new Error(`Proxy responded with ${response.status}`);
+    const { text } = await response.json();
+    return text || '';
+  },
+
+  generateSpeech: async (text) => {
+    const response = await post(baseUrl, PROXY_ROUTES.TTS, { text });
+    if (!response.ok) throw new Error(`Proxy responded with ${response.status}`);
+    const { audio } = await response.json();
+    return audio || null;
+  },
+
+  streamSpeech: async (text, onAudioChunk) => {
+    const response = await post(baseUrl, PROXY_ROUTES.TTS_STREAM, { text });
+    if (!response.ok) throw new Error(`Proxy responded with ${response.status}`);
+    await readEvents(response, (event) => {
+      if (event.type === 'error') throw new Error(event.message);
+      if (event.type === 'audio') onAudioChunk(event.data);
+    });
+  },
+
+  connectLive: (context, callbacks) =>
+    new Promise((resolve, reject) => {
+      const socket = new WebSocket(toWebSocketUrl(baseUrl, PROXY_ROUTES.LIVE));
+      const send = (message: LiveClientMessage) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      };
+      // The relay says 'close' and then the socket closes too; the caller hears about it once
+      let isClosed = false;
+      const close = () => {
+        if (isClosed) return;
+        isClosed = true;
+        callbacks.onClose();
+      };
+
+      socket.onopen = () => {
+        send({ type: 'setup', context, deviceId: getDeviceId() });
+        resolve({
+          sendAudio: (data) => send({ type: 'audio', data }),
+          close: () => socket.close(),
+        });
+      };
+      socket.onmessage = (event) => {
+        const message: LiveServerEvent = JSON.parse(event.data);
+        if (message.type === 'open') callbacks.onOpen();
+        else if (message.type === 'audio') callbacks.onAudio(message.data);
+        else if (message.type === 'close') close();
+        else if (message.type === 'error') callbacks.onError(new Error(message.message));
+      };
+      socket.onerror = (error) => {
+        callbacks.onError(error);
+        reject(error);
+      };
+      socket.onclose = close;
+    }),
+});
@@ -0,0 +1,55 @@
+import { Attachment, Message } from "../../types";
+import { TutorContext, LiveContext } from "../tutorPrompt";
+
+export interface GenerationOptions {
+  useThinking?: boolean;
+  useSearch?: boolean;
+  maxOutputTokens?: number; // answer length budget; thinking mode keeps its own
+  maxThinkingTokens?: number; // thinking budget; set by the proxy server, which does not let clients choose it
+}
+
+// The provider builds the system prompt from `context` (services/tutorPrompt), so the proxy server never runs a
+// prompt written by the client
+export interface ChatRequest {
+  context: TutorContext;
+  history: Message[];
+  userMessage: string;
+  attachment?: Attachment;
+  options?: GenerationOptions;
+  signal?: AbortSignal; // stops the upstream request, e.g. when the proxy's client hangs up; not sent over the wire
+}
+
+// Plain JSON Schema, understood by Gemini (`responseJsonSchema`) and OpenAI-compatible servers (`json_schema`)
+export type JsonSchema = Record<string, unknown>;
+
+export interface StructuredRequest {
+  systemInstruction: string;
+  prompt: string;
+  // `title` names the schema; the offline mock picks its fixture by it
+  schema: JsonSchema & { title: string };
+}
+
+export interface LiveCallbacks {
+  onOpen: () => void;
+  onAudio: (base64Pcm: string) => void;
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+export interface LiveSession {
+  // 16kHz mono PCM16, base64 encoded
+  sendAudio: (base64Pcm: string) => void;
+  close: () => void;
+}
+
+// Every backend the tutor can talk to implements this contract.
+// Audio returned by `streamSpeech`, `generateSpeech` and live sessions is 24kHz mono PCM16 (base64).
+export interface TutorProvider {
+  name: string;
+  streamChat: (request: ChatRequest, onChunk: (fullText: string) => void) => Promise<string>;
+  // Returns the raw JSON text; callers validate it
+  generateStructured: (request: StructuredRequest) => Promise<string>;
+  generateSpeech: (text: string) => Promise<string | null>;
+  streamSpeech: (text: string, onAudioChunk: (base64: string) => void) => Promise<void>;
+  connectLive: (context: LiveContext, callbacks: LiveCallbacks) => Promise<LiveSession>;
+}
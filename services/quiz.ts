@@ -0,0 +1,126 @@
+// Quiz questions requested from the model as schema-constrained JSON and graded on the device.
+
+export type QuestionKind = 'mcq' | 'true_false' | 'complete';
+
+export interface QuizQuestion {
+  id: string;
+  kind: QuestionKind;
+  question: string;          // 'complete' questions mark the blank with ____
+  options: string[];         // mcq choices, or ['صح', 'خطأ'] for true_false; empty for complete
+  correctIndex: number;      // -1 for complete
+  acceptedAnswers: string[]; // complete only: every acceptable way to fill the blank
+  explanation: string;
+}
+
+export interface Quiz {
+  lesson: string;
+  lessonId?: string; // set when the quiz was made from a curriculum lesson
+  questions: QuizQuestion[];
+}
+
+// Option index for mcq / true_false, typed text for complete
+export type QuizAnswer = number | string;
+
+export const QUESTION_KIND_LABELS: Record<QuestionKind, string> = {
+  mcq: 'اختيار من متعدد',
+  true_false: 'صح أم خطأ',
+  complete: 'أكمل',
+};
+
+const TRUE_FALSE_OPTIONS = ['صح', 'خطأ'];
+
+export const QUIZ_SCHEMA = {
+  title: 'Quiz',
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['mcq', 'true_false', 'complete'] },
+          question: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' } },
+          correctIndex: { type: 'integer' },
+          acceptedAnswers: { type: 'array', items: { type: 'string' } },
+          explanation: { type: 'string' },
+        },
+        required: ['kind', 'question', 'options', 'correctIndex', 'acceptedAnswers', 'explanation'],
+      },
+    },
+  },
+  required: ['questions'],
+};
+
+// ================== VALIDATION ==================
+// Drops questions the model got structurally wrong instead of failing the whole quiz
+const normalizeQuestion = (raw: any, index: number): QuizQuestion | null => {
+  if (!raw || typeof raw.question !== 'string' || !raw.question.trim()) return null;
+  const base = {
+    id: `q${index + 1}`,
+    question: raw.question.trim(),
+    explanation: typeof raw.explanation === 'string' ? raw.explanation.trim() : '',
+  };
+  const options: string[] = Array.isArray(raw.options) ? raw.options.map(String).filter((o: string) => o.trim()) : [];
+  const correctIndex = Number(raw.correctIndex);
+
+  switch (raw.kind) {
+    case 'mcq':
+      if (options.length < 2 || !Number.isInteger(correctIndex) || correctIndex < 0 || correctIndex >= options.length) return null;
+      return { ...base, kind: 'mcq', options, correctIndex, acceptedAnswers: [] };
+    case 'true_false':
+      if (correctIndex !== 0 && correctIndex !== 1) return null;
+      return { ...base, kind: 'true_false', options: TRUE_FALSE_OPTIONS, correctIndex, acceptedAnswers: [] };
+    case 'complete': {
+      const acceptedAnswers = Array.isArray(raw.acceptedAnswers) ? raw.acceptedAnswers.map(String).filter((a: string) => a.trim()) : [];
+      if (acceptedAnswers.length === 0) return null;
+      return { ...base, kind: 'complete', options: [], correctIndex: -1, acceptedAnswers };
+    }
+    default:
+      return null;
+  }
+};
+
+export const parseQuiz = (text: string, lesson: string): Quiz => {
+  const data = JSON.parse(text);
+  const questions = (Array.isArray(data?.questions) ? data.questions : [])
+    .map(normalizeQuestion)
+    .filter((q: QuizQuestion | null): q is QuizQuestion => q !== null)
+    .map((q: QuizQuestion, i: number) => ({ ...q, id: `q${i + 1}` }));
+
+  if (questions.length === 0) throw new Error('Quiz has no usable questions');
+  return { lesson, questions };
+};
+
+// ================== GRADING ==================
+// Typed answers are compared without diacritics, tatweel, hamza/ya/ta-marbuta variants or punctuation (decimal points stay)
+export const normalizeArabic = (text: string): string =>
+  text
+    .replace(/[\u064B-\u0652\u0670\u0640]/g, '')
+    .replace(/[\u0622\u0623\u0625\u0671]/g, '\u0627')
+    .replace(/\u0649/g, '\u064A')
+    .replace(/\u0629/g, '\u0647')
+    .replace(/[\u0660-\u0669]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/\u066B/g, '.')
+    .replace(/[^\p{L}\p{N}\s.]/gu, '')
+    .replace(/(?<!\d)\.|\.(?!\d)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+export const isCorrectAnswer = (question: QuizQuestion, answer: QuizAnswer | undefined): boolean => {
+  if (answer === undefined) return false;
+  if (question.kind === 'complete') {
+    const typed = normalizeArabic(String(answer));
+    return typed !== '' && question.acceptedAnswers.some(accepted => normalizeArabic(accepted) === typed);
+  }
+  return answer === question.correctIndex;
+};
+
+export const getCorrectAnswerText = (question: QuizQuestion): string =>
+  question.kind === 'complete' ? question.acceptedAnswers[0] : question.options[question.correctIndex];
+
+export const scoreQuiz = (quiz: Quiz, answers: Record<string, QuizAnswer>) => ({
+  correct: quiz.questions.filter(q => isCorrectAnswer(q, answers[q.id])).length,
+  total: quiz.questions.length,
+});
@@ -0,0 +1,49 @@
+import { QUIZ_SCHEMA } from "./quiz";
+import { ESSAY_QUESTIONS_SCHEMA, ESSAY_GRADE_SCHEMA } from "./exam";
+import { FLASHCARDS_SCHEMA } from "./flashcards";
+import { StructuredRequest } from "./providers/types";
+
+// The JSON tasks the tutor runs, each with its fixed instructions and schema. Only the prompt varies per call.
+// The proxy server looks a task up by its schema title and uses its own copy of both, so a caller cannot make it
+// answer arbitrary instructions.
+
+const QUIZ_INSTRUCTION = `
+أنت واضع امتحانات لطلاب الثانوية العامة المصرية، تلتزم بمنهج وزارة التربية والتعليم وأسلوب أسئلتها.
+- اكتب كل الأسئلة والاختيارات والتفسيرات بالعربية الفصحى البسيطة.
+- mcq: أربعة اختيارات بالضبط، واحد فقط صحيح، و correctIndex هو رقمه بدءاً من 0.
+- true_false: العبارة في question، و options هي ["صح", "خطأ"]، و correctIndex هو 0 للصواب و 1 للخطأ.
+- complete: ضع ____ مكان الكلمة الناقصة، واكتب في acceptedAnswers كل الصيغ المقبولة للإجابة (كلمة أو كلمتين)، و correctIndex هو -1.
+- explanation: جملة أو جملتان توضحان سبب صحة الإجابة.
+`;
+
+const EXAM_ESSAY_INSTRUCTION = `
+أنت واضع امتحانات الثانوية العامة المصرية. تكتب أسئلة مقالية بنفس أسلوب امتحانات الوزارة (علل، قارن، ماذا يحدث لو، مسائل، تعبير).
+- modelAnswer: الإجابة النموذجية كما تُكتب في نموذج الإجابة الرسمي.
+- rubric: عناصر التصحيح، لكل عنصر درجته، بحيث يكون المجموع هو درجة السؤال.
+`;
+
+const ESSAY_GRADER_INSTRUCTION = `
+أنت مصحح في كنترول الثانوية العامة المصرية. صحح إجابة الطالب بعدل وفق عناصر التصحيح فقط.
+- أعط لكل عنصر في criteria درجة (awarded) لا تزيد عن درجته، بنفس ترتيب العناصر، مع تعليق قصير.
+- اقبل المعنى الصحيح حتى لو اختلفت الصياغة عن الإجابة النموذجية.
+- feedback: نصيحة قصيرة للطالب لتحسين إجابته.
+`;
+
+const FLASHCARD_INSTRUCTION = `
+أنت تصنع بطاقات مراجعة (Flashcards) لطلاب الثانوية العامة المصرية.
+- front: سؤال قصير ومباشر أو مصطلح (لا يزيد عن سطر).
+- back: إجابة مختصرة جداً كما تُكتب في الامتحان (سطر أو سطران).
+- بطاقة واحدة لكل معلومة، وبدون تكرار.
+`;
+
+export const STRUCTURED_TASKS = {
+  quiz: { systemInstruction: QUIZ_INSTRUCTION, schema: QUIZ_SCHEMA },
+  essayQuestions: { systemInstruction: EXAM_ESSAY_INSTRUCTION, schema: ESSAY_QUESTIONS_SCHEMA },
+  essayGrade: { systemInstruction: ESSAY_GRADER_INSTRUCTION, schema: ESSAY_GRADE_SCHEMA },
+  flashcards: { systemInstruction: FLASHCARD_INSTRUCTION, schema: FLASHCARDS_SCHEMA },
+} satisfies Record<string, Omit<StructuredRequest, 'prompt'>>;
+
+export type StructuredTask = (typeof STRUCTURED_TASKS)[keyof typeof STRUCTURED_TASKS];
+
+export const findStructuredTask = (schemaTitle: unknown): StructuredTask | undefined =>
+  Object.values(STRUCTURED_TASKS).find(task => task.schema.title === schemaTitle);
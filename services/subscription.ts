@@ -0,0 +1,123 @@
+import { verifyLicense, LicenseCheck } from "./license";
+import { touchTrialClock, TrialClock } from "./trialClock";
+
+// Plans, trial and grace rules, and the single place that decides what the student is entitled to.
+
+export type PlanId = 'monthly' | 'term' | 'yearly';
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  price: number; // EGP
+  days: number;
+  note: string;
+}
+
+export const PLANS: Record<PlanId, Plan> = {
+  monthly: { id: 'monthly', name: 'الباقة الشهرية', price: 150, days: 30, note: 'كل المواد لمدة شهر' },
+  term: { id: 'term', name: 'باقة الترم', price: 500, days: 120, note: 'كل المواد (ترم كامل)' },
+  yearly: { id: 'yearly', name: 'الباقة السنوية', price: 900, days: 365, note: 'كل المواد (سنة كاملة)' },
+};
+
+export const TRIAL_DAYS = 7;
+export const GRACE_DAYS = 3;
+export const RENEWAL_WARNING_DAYS = 7;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const STORAGE_KEYS = {
+  DEVICE_ID: 'device_id',
+  TRIAL_START: 'trial_start_date',
+  LICENSE: 'app_license',
+  LEGACY_ACTIVATED: 'app_activated', // unsigned flag of old builds; grants nothing and is removed on sight
+} as const;
+
+export type EntitlementStatus = 'trial' | 'active' | 'grace' | 'expired';
+
+export interface Entitlement {
+  status: EntitlementStatus;
+  source: 'trial' | 'subscription';
+  deviceId: string;
+  daysLeft: number;
+  planName?: string;
+  expiresAt?: Date;
+  // The device clock was set behind a time the app has already seen
+  isClockRolledBack: boolean;
+}
+
+export const getPlan = (id: string): Plan | undefined => PLANS[id as PlanId];
+
+// Licenses issued before plan ids existed carry a free-text plan name
+export const getPlanName = (planIdOrName: string): string => getPlan(planIdOrName)?.name || planIdOrName;
+
+export const getDeviceId = (): string => {
+  let storedId = localStorage.getItem(STORAGE_KEYS.DEVICE_ID);
+  if (!storedId) {
+    storedId = 'ID-' + Math.random().toString(36).substring(2, 8).toUpperCase();
+    localStorage.setItem(STORAGE_KEYS.DEVICE_ID, storedId);
+  }
+  return storedId;
+};
+
+const daysUntil = (date: Date, now: Date) => Math.ceil((date.getTime() - now.getTime()) / DAY_MS);
+
+// ================== SUBSCRIPTION ==================
+const evaluateLicense = async (token: string, deviceId: string, clock: TrialClock): Promise<Entitlement | null> => {
+  const now = clock.effectiveNow;
+  const result = await verifyLicense(token, deviceId, now);
+  if (!result.payload || (!result.valid && result.error !== 'expired')) return null;
+
+  const expiresAt = new Date(result.payload.expiresAt);
+  const base = {
+    source: 'subscription' as const,
+    deviceId,
+    planName: getPlanName(result.payload.plan),
+    expiresAt,
+    isClockRolledBack: clock.isClockRolledBack,
+  };
+
+  if (result.valid) return { ...base, status: 'active', daysLeft: daysUntil(expiresAt, now) };
+
+  const graceEndsAt = new Date(expiresAt.getTime() + GRACE_DAYS * DAY_MS);
+  if (now < graceEndsAt) return { ...base, status: 'grace', daysLeft: daysUntil(graceEndsAt, now) };
+
+  return { ...base, status: 'expired', daysLeft: 0 };
+};
+
+// ================== TRIAL ==================
+const evaluateTrial = (deviceId: string, clock: TrialClock): Entitlement => {
+  const diffTime = clock.effectiveNow.getTime() - clock.startedAt.getTime();
+  const diffDays = Math.ceil(diffTime / DAY_MS);
+  const remaining = TRIAL_DAYS - diffDays;
+  const base = { source: 'trial' as const, deviceId, isClockRolledBack: clock.isClockRolledBack };
+
+  return remaining > 0
+    ? { ...base, status: 'trial', daysLeft: remaining }
+    : { ...base, status: 'expired', daysLeft: 0 };
+};
+
+// A tampered trial record is rewritten with a start date that is already past the trial
+const expiredTrialStart = (now: Date) => new Date(now.getTime() - (TRIAL_DAYS + 1) * DAY_MS);
+
+export const evaluateEntitlement = async (now: Date = new Date()): Promise<Entitlement> => {
+  const deviceId = getDeviceId();
+  const clock = await touchTrialClock(expiredTrialStart, now);
+  localStorage.removeItem(STORAGE_KEYS.LEGACY_ACTIVATED);
+
+  const token = localStorage.getItem(STORAGE_KEYS.LICENSE);
+  if (token) {
+    const entitlement = await evaluateLicense(token, deviceId, clock);
+    if (entitlement) return entitlement;
+    // Forged, corrupted or issued for another device
+    localStorage.removeItem(STORAGE_KEYS.LICENSE);
+  }
+
+  return evaluateTrial(deviceId, clock);
+};
+
+// Stores the license only when it is valid right now (a renewal replaces the previous one)
+export const activateLicense = async (token: string): Promise<LicenseCheck> => {
+  const result = await verifyLicense(token, getDeviceId());
+  if (result.valid) localStorage.setItem(STORAGE_KEYS.LICENSE, token.trim());
+  return result;
+};
@@ -0,0 +1,160 @@
+import { runInStore, STORES } from "./db";
+
+// Tamper-resistant trial clock.
+// The trial start and the latest time the app was seen are kept in localStorage AND IndexedDB, each copy signed
+// with a non-extractable HMAC key that never leaves IndexedDB. Editing a copy breaks its signature and ends the
+// trial; deleting one copy is repaired from the other; moving the clock back is ignored because time never
+// runs behind the last-seen timestamp.
+
+const LOCAL_KEY = 'trial_state';
+const LEGACY_LOCAL_KEY = 'trial_start_date';
+const META_RECORD_KEY = 'trial_state';
+const META_HMAC_KEY = 'trial_hmac_key';
+
+// Small clock drift (NTP corrections, timezone changes) is not treated as a rollback
+const ROLLBACK_TOLERANCE_MS = 10 * 60 * 1000;
+
+interface TrialRecord {
+  startedAt: string;
+  lastSeenAt: string;
+  sig: string;
+}
+
+export interface TrialClock {
+  startedAt: Date;
+  // max(device clock, last seen): use this instead of `new Date()` for anything time-limited
+  effectiveNow: Date;
+  isClockRolledBack: boolean;
+  isTampered: boolean;
+}
+
+const encoder = new TextEncoder();
+const signedText = (startedAt: string, lastSeenAt: string) => `${startedAt}|${lastSeenAt}`;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) || []).map(b => parseInt(b, 16)));
+
+// ================== KEY ==================
+type KeyInfo = { key: CryptoKey; isNew: boolean } | null;
+
+const readKey = () => runInStore<CryptoKey | undefined>(STORES.META, 'readonly', store => store.get(META_HMAC_KEY));
+
+const loadOrCreateKey = async (): Promise<KeyInfo> => {
+  try {
+    const existing = await readKey();
+    if (existing) return { key: existing, isNew: false };
+
+    const key = await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+    try {
+      // `add` refuses to replace a key another tab stored meanwhile; that key wins and ours is dropped
+      await runInStore(STORES.META, 'readwrite', store => store.add(key, META_HMAC_KEY));
+      return { key, isNew: true };
+    } catch (e) {
+      if ((e as DOMException)?.name !== 'ConstraintError') throw e;
+      const winner = await readKey();
+      if (!winner) throw e;
+      return { key: winner, isNew: false };
+    }
+  } catch (e) {
+    // Private browsing or blocked storage: fall back to unsigned localStorage only
+    console.error("Trial Key Error:", e);
+    return null;
+  }
+};
+
+// One lookup per page, so calls racing on first run all sign with the same key
+let keyPromise: Promise<KeyInfo> | null = null;
+const getOrCreateKey = () => (keyPromise ??= loadOrCreateKey());
+
+const sign = async (key: CryptoKey, startedAt: string, lastSeenAt: string) =>
+  toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(signedText(startedAt, lastSeenAt))));
+
+const isSignatureValid = (key: CryptoKey, record: TrialRecord) =>
+  crypto.subtle.verify('HMAC', key, fromHex(record.sig), encoder.encode(signedText(record.startedAt, record.lastSeenAt)));
+
+// ================== COPIES ==================
+const parseRecord = (value: unknown): TrialRecord | null => {
+  const record = typeof value === 'string' ? (() => { try { return JSON.parse(value); } catch { return null; } })() : value;
+  if (!record || typeof record.startedAt !== 'string' || typeof record.lastSeenAt !== 'string' || typeof record.sig !== 'string') return null;
+  return record;
+};
+
+const readStoredRecord = async (): Promise<TrialRecord | null> => {
+  try {
+    return parseRecord(await runInStore(STORES.META, 'readonly', store => store.get(META_RECORD_KEY)));
+  } catch {
+    return null;
+  }
+};
+
+const writeRecord = async (record: TrialRecord) => {
+  localStorage.setItem(LOCAL_KEY, JSON.stringify(record));
+  localStorage.setItem(LEGACY_LOCAL_KEY, record.startedAt);
+  try {
+    await runInStore(STORES.META, 'readwrite', store => store.put(record, META_RECORD_KEY));
+  } catch (e) {
+    console.error("Trial Save Error:", e);
+  }
+};
+
+// ================== PUBLIC ==================
+// Reads every copy, reconciles them and writes the result back. Call on start-up and periodically.
+// `expiredStart` is the start date to record when tampering is detected, so the trial is over for good.
+export const touchTrialClock = async (expiredStart: (now: Date) => Date, now: Date = new Date()): Promise<TrialClock> => {
+  const keyInfo = await getOrCreateKey();
+  const copies = [parseRecord(localStorage.getItem(LOCAL_KEY)), await readStoredRecord()]
+    .filter((r): r is TrialRecord => r !== null);
+
+  let isTampered = false;
+  // A brand-new key cannot vouch for (or against) copies signed by a key that was wiped with IndexedDB
+  if (keyInfo && !keyInfo.isNew) {
+    for (const copy of copies) {
+      if (!(await isSignatureValid(keyInfo.key, copy).catch(() => false))) isTampered = true;
+    }
+  }
+
+  // Every disagreement is resolved against the student: earliest start, latest sighting
+  const legacyStart = localStorage.getItem(LEGACY_LOCAL_KEY);
+  const startCandidates = [...copies.map(c => c.startedAt), legacyStart]
+    .map(d => (d ? new Date(d).getTime() : NaN))
+    .filter(t => !Number.isNaN(t));
+  const seenCandidates = copies.map(c => new Date(c.lastSeenAt).getTime()).filter(t => !Number.isNaN(t));
+
+  // A first run starts now; otherwise `now` is not a candidate (a rolled-back clock must not move the start)
+  let startedAt = new Date(startCandidates.length > 0 ? Math.min(...startCandidates) : now.getTime());
+  const lastSeenAt = new Date(Math.max(startedAt.getTime(), ...seenCandidates));
+  const isClockRolledBack = now.getTime() < lastSeenAt.getTime() - ROLLBACK_TOLERANCE_MS;
+  const effectiveNow = new Date(Math.max(now.getTime(), lastSeenAt.getTime()));
+
+  if (isTampered) {
+    const forcedStart = expiredStart(effectiveNow);
+    if (forcedStart < startedAt) startedAt = forcedStart;
+  }
+
+  const startedAtIso = startedAt.toISOString();
+  const lastSeenIso = effectiveNow.toISOString();
+  await writeRecord({
+    startedAt: startedAtIso,
+    lastSeenAt: lastSeenIso,
+    sig: keyInfo ? await sign(keyInfo.key, startedAtIso, lastSeenIso) : '',
+  });
+  // Both copies now carry the new key's signature, so later touches on this page verify them
+  if (keyInfo?.isNew) keyPromise = Promise.resolve({ key: keyInfo.key, isNew: false });
+
+  return { startedAt, effectiveNow, isClockRolledBack, isTampered };
+};
+
+// Developer reset only: forgets every copy and the signing key
+export const resetTrialClock = async () => {
+  keyPromise = null;
+  localStorage.removeItem(LOCAL_KEY);
+  localStorage.removeItem(LEGACY_LOCAL_KEY);
+  try {
+    await runInStore(STORES.META, 'readwrite', store => store.delete(META_RECORD_KEY));
+    await runInStore(STORES.META, 'readwrite', store => store.delete(META_HMAC_KEY));
+  } catch (e) {
+    console.error("Trial Reset Error:", e);
+  }
+};
@@ -4,6 +4,14 @@ export enum GradeLevel {
   GRADE_12 = 'الصف الثالث الثانوي',
 }
 
+// Grade 11 splits into scientific and literary; grade 12 splits the scientific track again
+export enum Track {
+  SCIENTIFIC = 'علمي',
+  SCIENCE = 'علمي علوم',
+  MATH = 'علمي رياضة',
+  LITERARY = 'أدبي',
+}
+
 export enum Subject {
   ARABIC = 'اللغة العربية',
   ENGLISH = 'اللغة الإنجليزية',
@@ -47,4 +55,13 @@ export interface Message {
 export interface ChatSession {
   grade: GradeLevel;
   subject: Subject;
-}
\ No newline at end of file
+  track?: Track; // only for grades that have tracks
+  lessonId?: string; // set when the conversation was started from the lesson picker
+}
+export interface Conversation extends ChatSession {
+  id: string;
+  title: string;
+  messages: Message[];
+  createdAt: Date;
+  updatedAt: Date;
+}
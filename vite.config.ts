@@ -4,15 +4,35 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const provider = env.TUTOR_PROVIDER || 'proxy';
+    // Only the direct Gemini mode needs the key in the bundle, where anyone can read it, so it must be asked for
+    // explicitly. The default proxy mode keeps the key on the server.
+    if (provider === 'gemini' && env.INLINE_GEMINI_KEY !== 'true') {
+      throw new Error('TUTOR_PROVIDER=gemini puts GEMINI_API_KEY inside the app bundle. Set INLINE_GEMINI_KEY=true to accept that, or use the default proxy mode.');
+    }
+    const clientApiKey = provider === 'gemini' ? env.GEMINI_API_KEY : '';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': {
+            target: `http://localhost:${env.PROXY_PORT || 8787}`,
+            ws: true,
+          },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(clientApiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(clientApiKey),
+        'process.env.TUTOR_PROVIDER': JSON.stringify(provider),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL || ''),
+        'process.env.MOCK_LLM_URL': JSON.stringify(env.MOCK_LLM_URL || ''),
+        'process.env.MOCK_LLM_MODEL': JSON.stringify(env.MOCK_LLM_MODEL || ''),
+        'process.env.LICENSE_PUBLIC_KEY': JSON.stringify(env.LICENSE_PUBLIC_KEY || ''),
+        'process.env.ADMIN_PIN_HASH': JSON.stringify(env.ADMIN_PIN_HASH || ''),
+        'process.env.ADMIN_DEV_TOOLS': JSON.stringify(env.ADMIN_DEV_TOOLS || '')
       },
       resolve: {
         alias: {